@@ -10,7 +10,7 @@
  * - Security redaction for sensitive data
  */
 
-import express, { type Request, type Response, type NextFunction } from 'express';
+import express, { type Request, type Response } from 'express';
 import {
   logger,
   child,
@@ -18,6 +18,7 @@ import {
   ApiLoggerBuilder,
   createLoggedFetch,
   createApiLogger,
+  createExpressMiddleware,
 } from '@zaob/glean-logger';
 
 // ============================================================================
@@ -81,63 +82,9 @@ app.use(express.urlencoded({ extended: true }));
 // HTTP Request Logging Middleware
 // ============================================================================
 
-app.use((req: Request, res: Response, next: NextFunction) => {
-  const startTime = Date.now();
-
-  // Log request
-  if (apiLog) {
-    apiLog.info('HTTP Request', {
-      method: req.method,
-      path: req.path,
-      query: req.query,
-      contentType: req.get('content-type'),
-      ip: Array.isArray(req.ip) ? req.ip[0] : req.ip,
-      userAgent: req.get('user-agent'),
-      timestamp: new Date().toISOString(),
-    });
-  }
-
-  // Capture response body
-  const originalSend = res.send;
-  let responseBody: unknown;
-
-  res.send = function (body: unknown): Response {
-    if (typeof body === 'string') {
-      try {
-        responseBody = JSON.parse(body);
-      } catch {
-        responseBody = body;
-      }
-    } else {
-      responseBody = body;
-    }
-    return originalSend.call(this, body);
-  };
-
-  // Log response when finished
-  res.on('finish', () => {
-    const duration = Date.now() - startTime;
-
-    // Only log response body for non-binary content types
-    const contentType = res.get('content-type')?.toLowerCase() ?? '';
-    const shouldLogBody = !bodyLoggingConfig.contentTypeFilter.exclude?.some(pattern =>
-      contentType.includes(pattern.replace('*', ''))
-    );
-
-    if (apiLog) {
-      apiLog.info('HTTP Response', {
-        method: req.method,
-        path: req.path,
-        statusCode: res.statusCode,
-        duration: `${duration}ms`,
-        contentType: res.get('content-type'),
-        ...(shouldLogBody && responseBody !== undefined && { responseBody }),
-      });
-    }
-  });
-
-  next();
-});
+// Logs every request/response with the same redaction as loggedFetch, sets
+// X-Request-ID, and exposes a request-scoped logger as req.log
+app.use(createExpressMiddleware({ bodyLoggingConfig }));
 
 // ============================================================================
 // API Routes
@@ -0,0 +1,374 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Level Admin Endpoint
+ *
+ * Local HTTP endpoint for changing log levels of a running process.
+ *
+ * Provides:
+ * - GET: current global and per-logger levels
+ * - POST/PUT { level, logger?, ttl? }: set a level, optionally reverting after ttl ms
+ * - DELETE { logger? }: clear a runtime level
+ * - Optional bearer token; changes require a JSON Content-Type, which a
+ *   cross-site form or no-cors fetch cannot send without a preflight
+ * - Fetch Request → Response handler, plus a standalone server bound to localhost
+ */
+
+import http from 'http';
+
+import { clearLevel, getLevel, getLevelOverrides, setLevel } from './levels';
+import { isLogLevel } from './types';
+import type { LogLevel } from './types';
+
+/**
+ * Options for the level admin handler
+ */
+export interface LevelAdminOptions {
+  /** Token required as `Authorization: Bearer <token>` (default: none) */
+  token?: string;
+  /** Longest accepted ttl in ms (default: 24 hours) */
+  maxTtl?: number;
+}
+
+/**
+ * Options for startLevelAdminServer
+ */
+export interface LevelAdminServerOptions extends LevelAdminOptions {
+  /** Port to listen on, 0 picks a free one (default: 0) */
+  port?: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+}
+
+/**
+ * Response of the level admin endpoint
+ */
+export interface LevelAdminResult {
+  /** HTTP status code to answer with */
+  status: number;
+  /** Global level in effect */
+  level?: LogLevel;
+  /** Runtime level set for every logger */
+  global?: LogLevel;
+  /** Runtime levels by logger name */
+  loggers?: Record<string, LogLevel>;
+  /** Reason the request was refused */
+  error?: string;
+}
+
+/**
+ * Level admin handler interface
+ */
+export interface ILevelAdminHandler {
+  /** Handle a Fetch API request */
+  handle(request: Request): Promise<Response>;
+  /** Apply an already-parsed request */
+  update(method: string, payload?: unknown, authorization?: string | null): LevelAdminResult;
+}
+
+/**
+ * A running level admin server
+ */
+export interface LevelAdminServer {
+  /** Port the server listens on */
+  port: number;
+  /** Stop the server */
+  close(): Promise<void>;
+}
+
+/**
+ * Default longest ttl (24 hours)
+ */
+const MAX_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Default maximum request body size in bytes
+ */
+const MAX_BYTES = 4096;
+
+/**
+ * Level admin handler implementation
+ */
+class LevelAdminHandlerImpl implements ILevelAdminHandler {
+  private token?: string;
+  private maxTtl: number;
+
+  constructor(options?: LevelAdminOptions) {
+    this.token = options?.token;
+    this.maxTtl = options?.maxTtl ?? MAX_TTL;
+  }
+
+  async handle(request: Request): Promise<Response> {
+    let payload: unknown;
+
+    if (isChange(request.method)) {
+      const refusal = this.check(
+        request.headers.get('authorization'),
+        request.headers.get('content-type'),
+        request.headers.get('content-length')
+      );
+      if (refusal) {
+        return this.respond(refusal);
+      }
+
+      const text = await readText(request, MAX_BYTES);
+      if (text === null) {
+        return this.respond(this.refuse(413, `Payload exceeds ${MAX_BYTES} bytes`));
+      }
+
+      try {
+        payload = text ? JSON.parse(text) : {};
+      } catch {
+        return this.respond(this.refuse(400, 'Request body must be valid JSON'));
+      }
+    }
+
+    return this.respond(this.update(request.method, payload, request.headers.get('authorization')));
+  }
+
+  update(method: string, payload?: unknown, authorization?: string | null): LevelAdminResult {
+    if (this.token !== undefined && authorization !== `Bearer ${this.token}`) {
+      return this.refuse(401, 'Unauthorized');
+    }
+
+    if (method === 'GET') {
+      return this.state();
+    }
+
+    if (method !== 'POST' && method !== 'PUT' && method !== 'DELETE') {
+      return this.refuse(405, 'Method not allowed');
+    }
+
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return this.refuse(400, 'Expected { level, logger?, ttl? }');
+    }
+
+    const { level, logger, ttl } = payload as Record<string, unknown>;
+
+    if (logger !== undefined && (typeof logger !== 'string' || logger === '')) {
+      return this.refuse(400, 'logger must be a non-empty string');
+    }
+
+    if (method === 'DELETE') {
+      clearLevel({ logger, source: 'admin' });
+      return this.state();
+    }
+
+    if (typeof level !== 'string' || !isLogLevel(level)) {
+      return this.refuse(400, 'level must be one of debug, info, warn, error, fatal');
+    }
+
+    if (
+      ttl !== undefined &&
+      (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl <= 0 || ttl > this.maxTtl)
+    ) {
+      return this.refuse(400, `ttl must be a number of ms between 1 and ${this.maxTtl}`);
+    }
+
+    setLevel(level, { logger, ttl, source: 'admin' });
+    return this.state();
+  }
+
+  /**
+   * Refuse a change before its body is read: wrong token, a Content-Type other
+   * than JSON, or a declared length over the limit
+   */
+  check(
+    authorization: string | null | undefined,
+    contentType: string | null | undefined,
+    contentLength: string | null | undefined
+  ): LevelAdminResult | null {
+    if (this.token !== undefined && authorization !== `Bearer ${this.token}`) {
+      return this.refuse(401, 'Unauthorized');
+    }
+    if (contentType?.split(';')[0]?.trim().toLowerCase() !== 'application/json') {
+      return this.refuse(415, 'Content-Type must be application/json');
+    }
+    if (Number(contentLength) > MAX_BYTES) {
+      return this.refuse(413, `Payload exceeds ${MAX_BYTES} bytes`);
+    }
+    return null;
+  }
+
+  private state(): LevelAdminResult {
+    return { status: 200, level: getLevel(), ...getLevelOverrides() };
+  }
+
+  private refuse(status: number, error: string): LevelAdminResult {
+    return { status, error };
+  }
+
+  private respond(result: LevelAdminResult): Response {
+    return new Response(JSON.stringify(result), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+/**
+ * Create a handler that reads and changes log levels over HTTP.
+ * Mount it behind authentication or on an internal-only route.
+ *
+ * @example
+ * ```typescript
+ * // Next.js: app/api/admin/log-level/route.ts
+ * const admin = createLevelAdminHandler({ token: process.env.LOG_ADMIN_TOKEN });
+ * export const GET = (request: Request) => admin.handle(request);
+ * export const POST = (request: Request) => admin.handle(request);
+ * ```
+ */
+export function createLevelAdminHandler(options?: LevelAdminOptions): ILevelAdminHandler {
+  return new LevelAdminHandlerImpl(options);
+}
+
+/**
+ * Start a standalone level admin server, bound to localhost by default
+ *
+ * @example
+ * ```typescript
+ * const admin = await startLevelAdminServer({ port: 9464 });
+ * // curl -X POST localhost:9464 -H 'Content-Type: application/json' \
+ * //   -d '{"level":"debug","logger":"payments","ttl":900000}'
+ * ```
+ */
+export function startLevelAdminServer(
+  options?: LevelAdminServerOptions
+): Promise<LevelAdminServer> {
+  const handler = new LevelAdminHandlerImpl(options);
+
+  const server = http.createServer((req, res) => {
+    const method = req.method ?? 'GET';
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const reply = (result: LevelAdminResult, close = false): void => {
+      res.writeHead(result.status, {
+        'Content-Type': 'application/json',
+        ...(close && { Connection: 'close' }),
+      });
+      res.end(JSON.stringify(result));
+    };
+
+    const refusal = isChange(method)
+      ? handler.check(
+          req.headers.authorization,
+          req.headers['content-type'],
+          req.headers['content-length']
+        )
+      : null;
+    if (refusal) {
+      // Leave the body unread and drop the connection once answered
+      reply(refusal, true);
+      return;
+    }
+
+    const onData = (chunk: Buffer): void => {
+      size += chunk.length;
+      if (size > MAX_BYTES) {
+        req.off('data', onData);
+        req.pause();
+        reply({ status: 413, error: `Payload exceeds ${MAX_BYTES} bytes` }, true);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+
+    req.on('end', () => {
+      if (res.headersSent) {
+        return;
+      }
+
+      const text = Buffer.concat(chunks).toString('utf8');
+      let result: LevelAdminResult;
+
+      try {
+        const payload: unknown = text ? JSON.parse(text) : {};
+        result = handler.update(method, payload, req.headers.authorization);
+      } catch {
+        result = { status: 400, error: 'Request body must be valid JSON' };
+      }
+
+      reply(result);
+    });
+  });
+
+  // An admin endpoint must not keep the process alive on its own
+  server.unref();
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options?.port ?? 0, options?.host ?? '127.0.0.1', () => {
+      const address = server.address();
+
+      resolve({
+        port: typeof address === 'object' && address ? address.port : (options?.port ?? 0),
+        close: () =>
+          new Promise<void>((done, fail) => {
+            server.close(error => (error ? fail(error) : done()));
+          }),
+      });
+    });
+  });
+}
+
+/**
+ * Whether a method changes levels
+ */
+function isChange(method: string): boolean {
+  return method === 'POST' || method === 'PUT' || method === 'DELETE';
+}
+
+/**
+ * Read a request body as text, or null once it passes `limit` bytes
+ */
+async function readText(request: Request, limit: number): Promise<string | null> {
+  if (!request.body) {
+    return '';
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export default createLevelAdminHandler;
+export { LevelAdminHandlerImpl };
@@ -0,0 +1,347 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Browser Breadcrumbs
+ *
+ * Recent low-level events kept for context when an error is logged.
+ *
+ * Provides:
+ * - A fixed-size ring buffer of breadcrumbs
+ * - Instrumentation of history navigation, data-attribute clicks, fetch and XHR
+ */
+
+import type { Breadcrumb, CaptureBreadcrumbsOptions } from './types';
+
+/**
+ * How far up the DOM a click looks for an element with data attributes
+ */
+const MAX_CLICK_DEPTH = 5;
+
+/**
+ * Fixed-size buffer that overwrites the oldest breadcrumb when full
+ */
+export class BreadcrumbBuffer {
+  private items: Breadcrumb[] = [];
+  private next = 0;
+  private limit: number;
+
+  constructor(capacity: number) {
+    this.limit = Math.max(0, Math.floor(capacity));
+  }
+
+  add(breadcrumb: Breadcrumb): void {
+    if (this.limit === 0) {
+      return;
+    }
+
+    if (this.items.length < this.limit) {
+      this.items.push(breadcrumb);
+    } else {
+      this.items[this.next] = breadcrumb;
+    }
+    this.next = (this.next + 1) % this.limit;
+  }
+
+  /**
+   * Breadcrumbs oldest first
+   */
+  toArray(): Breadcrumb[] {
+    if (this.items.length < this.limit) {
+      return [...this.items];
+    }
+    return [...this.items.slice(this.next), ...this.items.slice(0, this.next)];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get capacity(): number {
+    return this.limit;
+  }
+
+  clear(): void {
+    this.items = [];
+    this.next = 0;
+  }
+}
+
+/**
+ * Drop the query string and fragment, which often carry tokens
+ */
+export function stripUrl(url: string): string {
+  const end = url.search(/[?#]/);
+  return end === -1 ? url : url.slice(0, end);
+}
+
+/**
+ * Patch browser APIs to record breadcrumbs.
+ *
+ * `ignoreUrl` skips network calls such as the logger's own shipping requests.
+ * Returns a function that restores the originals and removes the listeners.
+ */
+export function instrumentBreadcrumbs(
+  record: (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => void,
+  options: CaptureBreadcrumbsOptions = {},
+  ignoreUrl: (url: string) => boolean = () => false
+): () => void {
+  const restores: Array<() => void> = [];
+
+  if (options.navigation !== false) {
+    restores.push(instrumentNavigation(record));
+  }
+  if (options.clicks !== false) {
+    restores.push(instrumentClicks(record));
+  }
+  if (options.fetch !== false) {
+    restores.push(instrumentFetch(record, ignoreUrl));
+  }
+  if (options.xhr !== false) {
+    restores.push(instrumentXhr(record, ignoreUrl));
+  }
+
+  return () => {
+    // Restore in reverse so stacked patches unwind cleanly
+    for (const restore of restores.reverse()) {
+      restore();
+    }
+  };
+}
+
+/**
+ * Replace `target[key]` with a wrapper. The returned function puts the
+ * original back only while the wrapper is still installed; if something has
+ * wrapped it since (another logger, an error tracker, a request mock), the
+ * wrapper is left in place and passes calls straight through.
+ */
+function patch<T extends object, K extends keyof T>(
+  target: T,
+  key: K,
+  wrap: (original: T[K], isActive: () => boolean) => T[K]
+): () => void {
+  const original = target[key];
+  let active = true;
+  const wrapper = wrap(original, () => active);
+
+  target[key] = wrapper;
+
+  return () => {
+    active = false;
+    if (target[key] === wrapper) {
+      target[key] = original;
+    }
+  };
+}
+
+// ============================================================================
+// Navigation
+// ============================================================================
+
+function instrumentNavigation(record: (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => void) {
+  if (typeof history === 'undefined' || typeof window.addEventListener !== 'function') {
+    return () => {};
+  }
+
+  let current = currentUrl();
+  const navigated = (to: string | undefined, trigger: string): void => {
+    if (!to || to === current) {
+      return;
+    }
+    record({
+      category: 'navigation',
+      message: `${trigger} ${to}`,
+      data: { from: current, to },
+    });
+    current = to;
+  };
+
+  const wrapHistory =
+    (trigger: 'pushState' | 'replaceState') =>
+    (original: History['pushState'], isActive: () => boolean): History['pushState'] =>
+      function (this: History, data: unknown, unused: string, url?: string | URL | null) {
+        const result = original.call(this, data, unused, url);
+        if (isActive()) {
+          navigated(currentUrl(), trigger);
+        }
+        return result;
+      };
+
+  const restorePush = patch(history, 'pushState', wrapHistory('pushState'));
+  const restoreReplace = patch(history, 'replaceState', wrapHistory('replaceState'));
+
+  const popstate = (): void => navigated(currentUrl(), 'popstate');
+  window.addEventListener('popstate', popstate);
+
+  return () => {
+    restorePush();
+    restoreReplace();
+    window.removeEventListener('popstate', popstate);
+  };
+}
+
+function currentUrl(): string | undefined {
+  const href = window.location?.href;
+  return href === undefined ? undefined : stripUrl(href);
+}
+
+// ============================================================================
+// Clicks
+// ============================================================================
+
+function instrumentClicks(record: (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => void) {
+  if (typeof document === 'undefined' || typeof document.addEventListener !== 'function') {
+    return () => {};
+  }
+
+  const click = (event: Event): void => {
+    let element = event.target as HTMLElement | null;
+
+    for (let depth = 0; element && depth < MAX_CLICK_DEPTH; depth++) {
+      const dataset = element.dataset ? { ...element.dataset } : {};
+      if (Object.keys(dataset).length > 0) {
+        const tag = element.tagName?.toLowerCase() ?? 'element';
+        record({ category: 'click', message: `Clicked ${tag}`, data: { tag, ...dataset } });
+        return;
+      }
+      element = element.parentElement;
+    }
+  };
+
+  // Capture phase, so handlers that stop propagation don't hide the click
+  document.addEventListener('click', click, true);
+
+  return () => document.removeEventListener('click', click, true);
+}
+
+// ============================================================================
+// Network
+// ============================================================================
+
+function instrumentFetch(
+  record: (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => void,
+  ignoreUrl: (url: string) => boolean
+) {
+  if (typeof fetch !== 'function') {
+    return () => {};
+  }
+
+  return patch(
+    globalThis,
+    'fetch',
+    (original, isActive) =>
+      async function (this: unknown, input: RequestInfo | URL, init?: RequestInit) {
+        const url =
+          typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        const method = (
+          init?.method ?? (typeof input === 'object' && 'method' in input ? input.method : 'GET')
+        ).toUpperCase();
+
+        if (!isActive() || ignoreUrl(url)) {
+          return original.call(this, input, init);
+        }
+
+        const started = Date.now();
+        const data = { method, url: stripUrl(url) };
+
+        try {
+          const response = await original.call(this, input, init);
+          record({
+            category: 'fetch',
+            message: `${method} ${data.url} ${response.status}`,
+            data: { ...data, status: response.status, duration: Date.now() - started },
+          });
+          return response;
+        } catch (error) {
+          record({
+            category: 'fetch',
+            message: `${method} ${data.url} failed`,
+            data: { ...data, error: String(error), duration: Date.now() - started },
+          });
+          throw error;
+        }
+      }
+  );
+}
+
+/**
+ * Request details stashed on an XHR instance between open() and send()
+ */
+const xhrRequests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+function instrumentXhr(
+  record: (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => void,
+  ignoreUrl: (url: string) => boolean
+) {
+  if (typeof XMLHttpRequest === 'undefined') {
+    return () => {};
+  }
+
+  const proto = XMLHttpRequest.prototype;
+
+  const restoreOpen = patch(
+    proto,
+    'open',
+    (open, isActive) =>
+      function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+        if (isActive()) {
+          xhrRequests.set(this, { method: method.toUpperCase(), url: String(url) });
+        }
+        return (open as (...args: unknown[]) => void).apply(this, [method, url, ...rest]);
+      } as typeof proto.open
+  );
+
+  const restoreSend = patch(
+    proto,
+    'send',
+    (send, isActive) =>
+      function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+        const request = xhrRequests.get(this);
+
+        if (isActive() && request && !ignoreUrl(request.url)) {
+          const started = Date.now();
+          const url = stripUrl(request.url);
+          this.addEventListener('loadend', () => {
+            record({
+              category: 'xhr',
+              message: `${request.method} ${url} ${this.status || 'failed'}`,
+              data: {
+                method: request.method,
+                url,
+                status: this.status,
+                duration: Date.now() - started,
+              },
+            });
+          });
+        }
+
+        return send.call(this, body);
+      }
+  );
+
+  return () => {
+    restoreOpen();
+    restoreSend();
+  };
+}
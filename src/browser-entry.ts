@@ -30,21 +30,28 @@
  */
 
 import { createBrowserLogger, browserLogger } from './browser';
+import { getOrCreateLogger } from './registry';
 import { perf } from './timing';
 import type { LogContext, LogLevel, IBrowserLogger } from './types';
 
 export { perf as performance } from './timing';
 
 /**
- * Create a browser logger instance
+ * Get a named browser logger. The same name and level return the same instance.
  */
 export function logger(options?: { name?: string; level?: LogLevel }): IBrowserLogger {
-  return createBrowserLogger({
-    consoleEnabled: true,
-    persistenceEnabled: true,
-    maxEntries: 100,
-    storageKey: 'glean_api_logs',
-  });
+  const name = options?.name ?? 'browser';
+
+  return getOrCreateLogger(name, options?.level, () =>
+    createBrowserLogger({
+      name,
+      level: options?.level,
+      consoleEnabled: true,
+      persistenceEnabled: true,
+      maxEntries: 100,
+      storageKey: 'glean_api_logs',
+    })
+  );
 }
 
 /**
@@ -60,5 +67,73 @@ export async function measure<T>(
   return { result, duration };
 }
 
+export { createBrowserLogger } from './browser';
+export { configure, getEffectiveConfig } from './config';
+export {
+  setLevel,
+  clearLevel,
+  getLevel,
+  getLevelOverrides,
+  onLevelChange,
+  resetLevels,
+} from './levels';
+export { matchNamespace, parseLevelSpec } from './namespaces';
+export { serializeError, isError } from './errors';
+export type { SerializedError, SerializeErrorOptions } from './errors';
+export { parseStack } from './stack';
+export type { StackFrame } from './stack';
+export { getLoggerNames } from './registry';
+export {
+  createIndexedDbLogStorage,
+  createLocalStorageLogStorage,
+  createMemoryLogStorage,
+  createSessionStorageLogStorage,
+} from './storage';
+export { ConsoleTransport, MemoryTransport, HttpTransport } from './transports';
+export { OtlpTransport } from './otel';
+export {
+  createRedactionConfig,
+  createRedactionPolicy,
+  partialMask,
+  redact,
+  redactWithReport,
+  setRedactionPolicy,
+  DEFAULT_REDACTION_POLICY,
+  DEFAULT_PATTERNS,
+  PII_PATTERNS,
+} from './redact';
+export { DETECTORS, DEFAULT_DETECTORS, PII_DETECTORS, getDetectors } from './detectors';
+
 // Re-export types
+export type { BrowserLoggerOptions } from './browser';
+export type { Breadcrumb, CaptureBreadcrumbsOptions, CaptureGlobalErrorsOptions } from './types';
+export type {
+  IndexedDbLogStorageOptions,
+  MemoryLogStorageOptions,
+  WebStorageLogStorageOptions,
+} from './storage';
+export type { BrowserLogStorage } from './types';
+export type { MemoryTransportOptions, HttpTransportOptions } from './transports';
+export type { OtlpTransportOptions } from './otel';
+export type {
+  RedactionPolicy,
+  RedactionPattern,
+  RedactionRule,
+  RedactionAction,
+  RedactionStrategy,
+  RedactionReport,
+  RedactionReportEntry,
+  RedactionReportOptions,
+  RedactionResult,
+  RedactionStats,
+  DetectorName,
+} from './types';
+export type { Transport, TransportOptions, LogRecord, LogFormatter } from './types';
+export type { ConfigSource, EffectiveConfig, LoggerConfigInput } from './types';
+export type {
+  LevelChange,
+  LevelChangeListener,
+  LevelChangeSource,
+  SetLevelOptions,
+} from './levels';
 export type { IBrowserLogger, LogContext, LogLevel };
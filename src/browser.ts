@@ -31,53 +31,261 @@
  * This module provides a browser-safe logger that:
  * - Works in both CSR and SSR contexts
  * - Does NOT bundle Winston (pure browser code)
- * - Outputs to console with colored formatting in dev
- * - Persists logs to localStorage with quota management
+ * - Outputs to console with colored formatting in dev (or custom transports)
+ * - Persists logs to pluggable storage (localStorage by default, IndexedDB, memory)
+ * - Ships persisted logs to a server endpoint in batches
  */
 
-import { shouldLog, isLoggingEnabled, getConfig } from './config';
-import { formatForConsole, formatForJson, formatBrowserLogEntry } from './formatters';
-import type { IBrowserLogger, LogContext, LogLevel, BrowserLogEntry, StoredLogs } from './types';
+import { BreadcrumbBuffer, instrumentBreadcrumbs, stripUrl } from './breadcrumbs';
+import { isLoggingEnabled, getConfig } from './config';
+import { isError, resolveErrorLogArgs, serializeError } from './errors';
+import type { SerializedError } from './errors';
+import { formatBrowserLogEntry, formatPrettyRecord } from './formatters';
+import { sha256Hex } from './hash';
+import { resolveLevel } from './levels';
+import { createRedactionStats, redactContext } from './redact';
+import { parseStack } from './stack';
+import { createLocalStorageLogStorage } from './storage';
+import { ConsoleTransport, writeToTransports } from './transports';
+import { getLogLevelPriority } from './types';
+import type {
+  Breadcrumb,
+  CaptureBreadcrumbsOptions,
+  CaptureGlobalErrorsOptions,
+  IBrowserLogger,
+  LogContext,
+  LogLevel,
+  BrowserLogEntry,
+  BrowserLogStorage,
+  RedactionPolicy,
+  RedactionStats,
+  Transport,
+} from './types';
 import { generateUUID, createUnixTimestamp, isBrowser } from './utils';
 
 /**
- * Storage key for localStorage
+ * Default number of entries sent per request
  */
-const STORAGE_KEY = 'glean_api_logs';
+const BATCH_SIZE = 50;
 
 /**
- * Maximum number of entries to store
+ * Default interval between automatic flushes (ms)
  */
-const MAX_ENTRIES = 100;
+const FLUSH_INTERVAL = 10000;
+
+/**
+ * Default number of retries for a failed batch
+ */
+const MAX_RETRIES = 3;
+
+/**
+ * Default base delay for exponential backoff (ms)
+ */
+const RETRY_DELAY = 1000;
 
 /**
  * Default options for the browser logger
  */
-interface BrowserLoggerOptions {
-  /** Maximum number of entries to store */
+export interface BrowserLoggerOptions {
+  /** Logger name, used to target setLevel() at this logger */
+  name?: string;
+  /**
+   * Minimum log level (defaults to the configured level).
+   * Runtime levels from setLevel() take precedence.
+   */
+  level?: LogLevel;
+  /** Maximum number of entries to store (default localStorage storage only) */
   maxEntries?: number;
-  /** Custom storage key */
+  /** Custom storage key (default localStorage storage only) */
   storageKey?: string;
-  /** Enable console output */
+  /** Enable console output (ignored when transports are given) */
   consoleEnabled?: boolean;
-  /** Enable localStorage persistence */
+  /** Enable persistence */
   persistenceEnabled?: boolean;
+  /** Where entries are persisted (default: localStorage, see createIndexedDbLogStorage()) */
+  storage?: BrowserLogStorage;
+  /**
+   * Server endpoint that receives stored entries on flush().
+   * Entries are shipped from the persisted store, so persistence must be enabled.
+   */
+  endpoint?: string;
+  /** Maximum number of entries per request (default: 50) */
+  batchSize?: number;
+  /** Interval between automatic flushes in ms, 0 disables the timer (default: 10000) */
+  flushInterval?: number;
+  /** Number of retries for a failed batch (default: 3) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff between retries in ms (default: 1000) */
+  retryDelay?: number;
+  /** Extra headers sent with each batch (not applied to sendBeacon) */
+  headers?: Record<string, string>;
+  /** Outputs for this logger. Replaces the default console output when given. */
+  transports?: Transport[];
+  /** Redaction policy for context, false to disable (default: the active policy) */
+  redaction?: RedactionPolicy | false;
+  /**
+   * Number of recent breadcrumbs attached to error entries, 0 disables (default: 20).
+   * Debug and info calls are recorded even when below the logger's level.
+   */
+  maxBreadcrumbs?: number;
+}
+
+/**
+ * Resolved shipping options (only present when an endpoint is configured)
+ */
+interface ShippingOptions {
+  endpoint: string;
+  batchSize: number;
+  flushInterval: number;
+  maxRetries: number;
+  retryDelay: number;
+  headers: Record<string, string>;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Default number of breadcrumbs attached to error entries
+ */
+const MAX_BREADCRUMBS = 20;
+
+/**
+ * Default window in which repeats of a captured error are only counted
+ */
+const DEDUPE_WINDOW = 60000;
+
+/**
+ * Maximum number of error fingerprints remembered for de-duplication
+ */
+const MAX_FINGERPRINTS = 100;
+
+/**
+ * A global error event turned into a log entry
+ */
+interface CapturedError {
+  level: LogLevel;
+  message: string;
+  type: 'uncaught-error' | 'unhandled-rejection' | 'csp-violation';
+  fingerprint: string;
+  context: LogContext;
+}
+
+/**
+ * A captured error fingerprint whose repeats are suppressed until `until`
+ */
+interface DedupeState {
+  until: number;
+  repeats: number;
+  entry: CapturedError;
+  url?: string;
+  timer?: ReturnType<typeof setTimeout>;
 }
 
 /**
  * Browser logger implementation
  */
 class BrowserLoggerImpl implements IBrowserLogger {
-  private options: Required<BrowserLoggerOptions>;
+  private storage: BrowserLogStorage | null;
+  private transports: Transport[];
+  private loggerName?: string;
+  private level?: LogLevel;
+  private redaction?: RedactionPolicy | false;
+  private redactionStats = createRedactionStats();
+  private shipping: ShippingOptions | null = null;
+  private flushing: Promise<void> | null = null;
+  private stopShipping: (() => void) | null = null;
+  /** Ids handed to sendBeacon that are still in storage */
+  private beaconed = new Set<string>();
   private config = getConfig();
+  private stopCapture: (() => void) | null = null;
+  private fingerprints = new Map<string, DedupeState>();
+  private breadcrumbs: BreadcrumbBuffer;
+  private stopBreadcrumbs: (() => void) | null = null;
 
   constructor(options: BrowserLoggerOptions = {}) {
-    this.options = {
-      maxEntries: options.maxEntries ?? MAX_ENTRIES,
-      storageKey: options.storageKey ?? STORAGE_KEY,
-      consoleEnabled: options.consoleEnabled ?? true,
-      persistenceEnabled: options.persistenceEnabled ?? true,
+    this.storage =
+      options.persistenceEnabled === false
+        ? null
+        : (options.storage ??
+          createLocalStorageLogStorage({
+            key: options.storageKey,
+            maxEntries: options.maxEntries,
+          }));
+
+    this.transports =
+      options.transports ??
+      (options.consoleEnabled !== false
+        ? [new ConsoleTransport({ format: formatPrettyRecord })]
+        : []);
+    this.loggerName = options.name;
+    this.level = options.level;
+    this.redaction = options.redaction;
+    this.breadcrumbs = new BreadcrumbBuffer(options.maxBreadcrumbs ?? MAX_BREADCRUMBS);
+
+    if (options.endpoint) {
+      this.shipping = {
+        endpoint: options.endpoint,
+        batchSize: options.batchSize ?? BATCH_SIZE,
+        flushInterval: options.flushInterval ?? FLUSH_INTERVAL,
+        maxRetries: options.maxRetries ?? MAX_RETRIES,
+        retryDelay: options.retryDelay ?? RETRY_DELAY,
+        headers: options.headers ?? {},
+      };
+      this.startShipping();
+    }
+  }
+
+  /**
+   * Start the flush timer and page lifecycle listeners
+   */
+  private startShipping(): void {
+    if (!this.shipping || !isBrowser()) {
+      return;
+    }
+
+    const timer =
+      this.shipping.flushInterval > 0
+        ? setInterval(() => {
+            void this.flush();
+          }, this.shipping.flushInterval)
+        : null;
+
+    // The page may be discarded without another chance to run async code,
+    // so hand the remaining entries to sendBeacon instead of fetch
+    const pagehide = (): void => this.beacon();
+    const visibilitychange = (): void => {
+      if (document.visibilityState === 'hidden') {
+        this.beacon();
+      }
     };
+    window.addEventListener('pagehide', pagehide);
+    window.addEventListener('visibilitychange', visibilitychange);
+
+    this.stopShipping = () => {
+      if (timer !== null) {
+        clearInterval(timer);
+      }
+      window.removeEventListener('pagehide', pagehide);
+      window.removeEventListener('visibilitychange', visibilitychange);
+      this.stopShipping = null;
+    };
+  }
+
+  /**
+   * Stop the flush timer, page listeners and any global error or breadcrumb
+   * capture, then ship what is left. The logger can still log afterwards,
+   * but only flushes when flush() is called.
+   */
+  async close(): Promise<void> {
+    this.stopShipping?.();
+    this.stopCapture?.();
+    this.stopBreadcrumbs?.();
+    await this.flush();
   }
 
   /**
@@ -88,119 +296,548 @@ class BrowserLoggerImpl implements IBrowserLogger {
       return;
     }
 
-    if (!shouldLog(level)) {
+    const breadcrumb = level === 'debug' || level === 'info';
+    const enabled =
+      // Resolved per call so setLevel() and config reloads apply to live loggers
+      getLogLevelPriority(level) >= getLogLevelPriority(resolveLevel(this.loggerName, this.level));
+
+    if (!enabled && !(breadcrumb && this.breadcrumbs.capacity > 0)) {
       return;
     }
 
-    const entry = formatBrowserLogEntry(level, message, context);
+    let redacted = redactContext(context, this.redaction, this.redactionStats);
+
+    if (breadcrumb) {
+      this.breadcrumbs.add({
+        timestamp: createUnixTimestamp(),
+        category: 'log',
+        message,
+        level,
+        data: redacted,
+      });
+    }
+    if (!enabled) {
+      return;
+    }
+
+    // Breadcrumb data is redacted when recorded, so they are added after redaction
+    if (level === 'error' && this.breadcrumbs.size > 0) {
+      redacted = { ...redacted, breadcrumbs: this.breadcrumbs.toArray() };
+    }
+
+    const entry = formatBrowserLogEntry(level, message, redacted);
     const timestamp = createUnixTimestamp();
 
-    // Console output
-    if (this.options.consoleEnabled) {
-      const formatted = formatForConsole(level, message, context, timestamp);
-      console.log(formatted);
+    // Console and custom outputs
+    writeToTransports(this.transports, { level, message, context: redacted, timestamp });
+
+    if (this.storage) {
+      this.persistEntry(this.storage, entry, timestamp);
+    }
+  }
+
+  /**
+   * Persist an entry. Synchronous storages have written it by the time this returns.
+   */
+  private persistEntry(
+    storage: BrowserLogStorage,
+    entry: Omit<BrowserLogEntry, 'id' | 'timestamp'>,
+    timestamp: number
+  ): void {
+    const stored: BrowserLogEntry = { ...entry, id: generateUUID(), timestamp };
+
+    void this.attempt(
+      () => storage.append(stored),
+      undefined,
+      `Failed to persist log entry to ${storage.name}`
+    );
+  }
+
+  /**
+   * Run a storage operation, warning instead of throwing when it fails.
+   * The operation starts synchronously, before the first await.
+   */
+  private async attempt<T>(
+    operation: () => T | Promise<T>,
+    fallback: T,
+    failure: string
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch {
+      console.warn(`[BrowserLogger] ${failure}`);
+      return fallback;
+    }
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.log('debug', message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.log('info', message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.log('warn', message, context);
+  }
+
+  error(message: string, context?: LogContext): void;
+  error(error: unknown, message?: string, context?: LogContext): void;
+  error(
+    errorOrMessage: unknown,
+    messageOrContext?: string | LogContext,
+    context?: LogContext
+  ): void {
+    const args = resolveErrorLogArgs(errorOrMessage, messageOrContext, context);
+    this.log('error', args.message, args.context);
+  }
+
+  getRedactionStats(): RedactionStats {
+    return { ...this.redactionStats, hits: { ...this.redactionStats.hits } };
+  }
+
+  getStoredLogs(): BrowserLogEntry[] {
+    const storage = this.storage;
+    if (!storage) {
+      return [];
     }
 
-    // LocalStorage persistence
-    if (this.options.persistenceEnabled && isBrowser()) {
-      this.persistEntry(entry, timestamp);
+    try {
+      const entries = storage.read();
+      if (Array.isArray(entries)) {
+        return entries;
+      }
+
+      // Asynchronous storage: only readStoredLogs() can return its entries
+      void this.attempt(() => entries, [], 'Failed to read stored logs');
+      return [];
+    } catch {
+      return [];
+    }
+  }
+
+  async readStoredLogs(): Promise<BrowserLogEntry[]> {
+    const storage = this.storage;
+    return storage ? this.attempt(() => storage.read(), [], 'Failed to read stored logs') : [];
+  }
+
+  clearStoredLogs(): void {
+    const storage = this.storage;
+    if (storage) {
+      void this.attempt(() => storage.clear(), undefined, 'Failed to clear stored logs');
     }
   }
 
   /**
-   * Persist an entry to localStorage
+   * Send stored entries to the configured endpoint in batches.
+   * Entries are removed from storage only after a 2xx response.
    */
-  private persistEntry(entry: Omit<BrowserLogEntry, 'id' | 'timestamp'>, timestamp: number): void {
-    if (!isBrowser()) {
+  async flush(): Promise<void> {
+    if (!this.shipping || !isBrowser()) {
       return;
     }
 
+    // Concurrent callers share the in-flight flush instead of double-sending
+    if (!this.flushing) {
+      this.flushing = this.drainOnce();
+    }
+
+    return this.flushing;
+  }
+
+  /**
+   * Run a single drain and release the in-flight marker afterwards
+   */
+  private async drainOnce(): Promise<void> {
     try {
-      const stored = this.getStoredLogsRaw();
+      await this.drain();
+    } finally {
+      this.flushing = null;
+    }
+  }
 
-      const newEntry: BrowserLogEntry = {
-        ...entry,
-        id: generateUUID(),
-        timestamp,
-      };
+  /**
+   * Ship stored entries batch by batch until the store is empty or a batch fails
+   */
+  private async drain(): Promise<void> {
+    const shipping = this.shipping!;
+    const storage = this.storage;
+    const shipped = new Set<string>();
+
+    while (storage) {
+      const batch = await this.attempt(
+        () => storage.read(shipping.batchSize),
+        [],
+        'Failed to read stored logs'
+      );
+
+      // A shipped entry coming back means its removal failed; stop instead of resending
+      if (batch.length === 0 || batch.some(entry => shipped.has(entry.id))) {
+        return;
+      }
 
-      stored.entries.push(newEntry);
+      // Entries already handed to sendBeacon are removed without sending them again
+      const unsent = batch.filter(entry => !this.beaconed.has(entry.id));
 
-      while (stored.entries.length > this.options.maxEntries) {
-        stored.entries.shift();
+      if (unsent.length > 0 && !(await this.sendWithRetry(unsent))) {
+        // Keep the remaining entries for the next flush
+        return;
       }
 
-      stored.lastUpdated = timestamp;
+      const ids = batch.map(entry => entry.id);
+      for (const id of ids) {
+        shipped.add(id);
+        this.beaconed.delete(id);
+      }
+      await this.attempt(() => storage.remove(ids), undefined, 'Failed to remove shipped logs');
+    }
+  }
+
+  /**
+   * POST a batch, retrying with exponential backoff on failure. A 4xx answer
+   * other than 408/429 is final: the batch is dropped with a warning rather
+   * than retried forever ahead of newer entries.
+   */
+  private async sendWithRetry(batch: BrowserLogEntry[]): Promise<boolean> {
+    const shipping = this.shipping!;
+
+    for (let attempt = 0; attempt <= shipping.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await sleep(shipping.retryDelay * 2 ** (attempt - 1));
+      }
+
+      try {
+        const response = await fetch(shipping.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...shipping.headers },
+          body: JSON.stringify({ entries: batch }),
+          keepalive: true,
+        });
+
+        if (response.ok) {
+          await this.warnRejected(response, batch.length);
+          return true;
+        }
+
+        if (
+          response.status >= 400 &&
+          response.status < 500 &&
+          response.status !== 408 &&
+          response.status !== 429
+        ) {
+          console.warn(
+            `[BrowserLogger] Log endpoint refused ${batch.length} log entries (${response.status})`
+          );
+          return true;
+        }
+      } catch {
+        // Network error - fall through to retry
+      }
+    }
+
+    console.warn(`[BrowserLogger] Failed to ship ${batch.length} log entries`);
+    return false;
+  }
+
+  /**
+   * Warn about entries the ingest handler reported as rejected
+   */
+  private async warnRejected(response: Response, sent: number): Promise<void> {
+    try {
+      const { rejectedCount } = (await response.json()) as { rejectedCount?: unknown };
 
-      localStorage.setItem(this.options.storageKey, JSON.stringify(stored));
+      if (typeof rejectedCount === 'number' && rejectedCount > 0) {
+        console.warn(`[BrowserLogger] Log endpoint rejected ${rejectedCount} of ${sent} entries`);
+      }
     } catch {
-      console.warn('[BrowserLogger] localStorage unavailable or quota exceeded');
+      // Not an ingest handler response
     }
   }
 
   /**
-   * Get raw stored logs from localStorage
+   * Hand stored entries to navigator.sendBeacon while the page is unloading.
+   * Beaconed entries stay in storage and are not beaconed again; the next
+   * flush() removes them without resending. Entries still stored after a
+   * reload are sent again, so the server de-duplicates by entry id as well.
    */
-  private getStoredLogsRaw(): StoredLogs {
-    if (!isBrowser()) {
-      return { entries: [], lastUpdated: 0, version: 1 };
+  private beacon(): void {
+    const shipping = this.shipping;
+    const storage = this.storage;
+    if (!shipping || !storage || typeof navigator === 'undefined' || !navigator.sendBeacon) {
+      return;
     }
 
+    let pending: BrowserLogEntry[] | Promise<BrowserLogEntry[]>;
     try {
-      const stored = localStorage.getItem(this.options.storageKey);
-      if (!stored) {
-        return { entries: [], lastUpdated: 0, version: 1 };
+      pending = storage.read();
+    } catch {
+      return;
+    }
+
+    if (Array.isArray(pending)) {
+      this.sendBeacons(shipping, pending);
+    } else {
+      // IndexedDB reads usually complete during pagehide, but the page may be frozen first
+      const read = pending;
+      void this.attempt(
+        async () => this.sendBeacons(shipping, await read),
+        undefined,
+        'Failed to read stored logs'
+      );
+    }
+  }
+
+  private sendBeacons(shipping: ShippingOptions, stored: BrowserLogEntry[]): void {
+    // Forget ids the storage has evicted since they were beaconed
+    const storedIds = new Set(stored.map(entry => entry.id));
+    for (const id of this.beaconed) {
+      if (!storedIds.has(id)) {
+        this.beaconed.delete(id);
       }
+    }
 
-      const parsed = JSON.parse(stored);
-      return {
-        entries: Array.isArray(parsed.entries) ? parsed.entries : [],
-        lastUpdated: parsed.lastUpdated || 0,
-        version: parsed.version || 1,
-      };
-    } catch {
-      return { entries: [], lastUpdated: 0, version: 1 };
+    const pending = stored.filter(entry => !this.beaconed.has(entry.id));
+
+    for (let offset = 0; offset < pending.length; offset += shipping.batchSize) {
+      const batch = pending.slice(offset, offset + shipping.batchSize);
+      const payload = new Blob([JSON.stringify({ entries: batch })], {
+        type: 'application/json',
+      });
+
+      if (!navigator.sendBeacon(shipping.endpoint, payload)) {
+        return;
+      }
+      batch.forEach(entry => this.beaconed.add(entry.id));
     }
   }
 
-  debug(message: string, context?: LogContext): void {
-    this.log('debug', message, context);
+  captureGlobalErrors(options?: CaptureGlobalErrorsOptions): () => void {
+    if (this.stopCapture) {
+      return this.stopCapture;
+    }
+    if (!isBrowser() || typeof window.addEventListener !== 'function') {
+      return () => {};
+    }
+
+    const dedupeWindow = options?.dedupeWindow ?? DEDUPE_WINDOW;
+    const listeners: Array<[string, (event: Event) => void]> = [];
+
+    // addEventListener keeps window.onerror and other listeners working
+    const listen = (type: string, toEntry: (event: Event) => CapturedError): void => {
+      const listener = (event: Event): void => {
+        try {
+          this.capture(toEntry(event), dedupeWindow);
+        } catch {
+          // Never let logging turn one error into two
+        }
+      };
+      window.addEventListener(type, listener);
+      listeners.push([type, listener]);
+    };
+
+    if (options?.errors !== false) {
+      listen('error', event => this.fromErrorEvent(event as ErrorEvent));
+    }
+    if (options?.rejections !== false) {
+      listen('unhandledrejection', event => this.fromRejection(event as PromiseRejectionEvent));
+    }
+    if (options?.securityPolicyViolations !== false) {
+      listen('securitypolicyviolation', event =>
+        this.fromViolation(event as SecurityPolicyViolationEvent)
+      );
+    }
+
+    this.stopCapture = () => {
+      for (const [type, listener] of listeners) {
+        window.removeEventListener(type, listener);
+      }
+      this.stopCapture = null;
+      for (const key of Array.from(this.fingerprints.keys())) {
+        this.reportRepeats(key);
+      }
+    };
+
+    return this.stopCapture;
   }
 
-  info(message: string, context?: LogContext): void {
-    this.log('info', message, context);
+  captureBreadcrumbs(options?: CaptureBreadcrumbsOptions): () => void {
+    if (this.stopBreadcrumbs) {
+      return this.stopBreadcrumbs;
+    }
+    if (!isBrowser()) {
+      return () => {};
+    }
+
+    const endpoint = this.shipping?.endpoint;
+    const restore = instrumentBreadcrumbs(
+      breadcrumb => this.addBreadcrumb(breadcrumb),
+      options,
+      // Shipping requests would otherwise fill the trail with the logger's own traffic
+      url => endpoint !== undefined && stripUrl(url).endsWith(endpoint)
+    );
+
+    this.stopBreadcrumbs = () => {
+      restore();
+      this.stopBreadcrumbs = null;
+    };
+
+    return this.stopBreadcrumbs;
   }
 
-  warn(message: string, context?: LogContext): void {
-    this.log('warn', message, context);
+  getBreadcrumbs(): Breadcrumb[] {
+    return this.breadcrumbs.toArray();
   }
 
-  error(message: string, context?: LogContext): void {
-    this.log('error', message, context);
+  /**
+   * Record an instrumented breadcrumb, redacting its data (data-* attributes,
+   * request paths) with this logger's policy
+   */
+  private addBreadcrumb(breadcrumb: Omit<Breadcrumb, 'timestamp'>): void {
+    this.breadcrumbs.add({
+      timestamp: createUnixTimestamp(),
+      ...breadcrumb,
+      data: redactContext(breadcrumb.data, this.redaction, this.redactionStats),
+    });
   }
 
-  getStoredLogs(): BrowserLogEntry[] {
-    const stored = this.getStoredLogsRaw();
-    return [...stored.entries].sort((a, b) => a.timestamp - b.timestamp);
+  /**
+   * Log a captured error unless its fingerprint was logged within the window
+   */
+  private capture(entry: CapturedError, dedupeWindow: number): void {
+    const now = Date.now();
+    const seen = this.fingerprints.get(entry.fingerprint);
+
+    if (seen && now < seen.until) {
+      seen.repeats++;
+      // Report the suppressed repeats once the window closes
+      seen.timer ??= setTimeout(() => this.reportRepeats(entry.fingerprint), seen.until - now);
+      return;
+    }
+
+    // Timers can run late in background tabs, so settle an expired window first
+    this.reportRepeats(entry.fingerprint);
+
+    const href = window.location?.href;
+    const url = href === undefined ? undefined : stripUrl(href);
+    this.fingerprints.set(entry.fingerprint, { until: now + dedupeWindow, repeats: 0, entry, url });
+
+    if (this.fingerprints.size > MAX_FINGERPRINTS) {
+      const oldest = this.fingerprints.keys().next().value;
+      if (oldest !== undefined) {
+        this.reportRepeats(oldest);
+      }
+    }
+
+    this.log(entry.level, entry.message, {
+      ...entry.context,
+      type: entry.type,
+      fingerprint: entry.fingerprint,
+      url,
+    });
   }
 
-  clearStoredLogs(): void {
-    if (!isBrowser()) {
+  /**
+   * Forget a fingerprint, logging how often it repeated within its window
+   */
+  private reportRepeats(key: string): void {
+    const state = this.fingerprints.get(key);
+    if (!state) {
       return;
     }
 
-    try {
-      localStorage.removeItem(this.options.storageKey);
-    } catch {
-      console.warn('[BrowserLogger] Failed to clear stored logs');
+    clearTimeout(state.timer);
+    this.fingerprints.delete(key);
+
+    if (state.repeats > 0) {
+      this.log(state.entry.level, state.entry.message, {
+        type: state.entry.type,
+        fingerprint: key,
+        url: state.url,
+        repeats: state.repeats,
+      });
     }
   }
 
-  async flush(): Promise<void> {
-    console.log('[BrowserLogger] flush() called - server sync not yet implemented');
+  private fromErrorEvent(event: ErrorEvent): CapturedError {
+    const options = { stack: getConfig().includeStackTrace };
+    // Cross-origin scripts report only "Script error." without an error object
+    const error = isError(event.error)
+      ? serializeError(event.error, options)
+      : {
+          ...serializeError(event.message || 'Unknown error', options),
+          ...(event.filename && {
+            frames: [{ file: event.filename, line: event.lineno, column: event.colno }],
+          }),
+        };
+
+    return {
+      level: 'error',
+      message: `Uncaught ${error.name}: ${error.message}`,
+      type: 'uncaught-error',
+      fingerprint: fingerprint(
+        'uncaught-error',
+        error,
+        isError(event.error) ? event.error.stack : undefined
+      ),
+      context: { error },
+    };
+  }
+
+  private fromRejection(event: PromiseRejectionEvent): CapturedError {
+    const error = serializeError(event.reason, { stack: getConfig().includeStackTrace });
+
+    return {
+      level: 'error',
+      message: `Unhandled rejection: ${error.message}`,
+      type: 'unhandled-rejection',
+      fingerprint: fingerprint(
+        'unhandled-rejection',
+        error,
+        isError(event.reason) ? event.reason.stack : undefined
+      ),
+      context: { error },
+    };
+  }
+
+  private fromViolation(event: SecurityPolicyViolationEvent): CapturedError {
+    const violation = {
+      blockedURI: event.blockedURI,
+      violatedDirective: event.violatedDirective,
+      effectiveDirective: event.effectiveDirective,
+      disposition: event.disposition,
+      sourceFile: event.sourceFile,
+      lineNumber: event.lineNumber,
+      columnNumber: event.columnNumber,
+    };
+
+    return {
+      level: 'warn',
+      message: `Content Security Policy violation: ${event.effectiveDirective || event.violatedDirective}`,
+      type: 'csp-violation',
+      fingerprint: hashFingerprint(
+        ['csp-violation', violation.effectiveDirective, violation.blockedURI].join('|')
+      ),
+      context: { violation },
+    };
   }
 }
 
+/**
+ * Fingerprint an error by kind, name, message and first stack frame. The
+ * frame comes from the original stack, which the entry may leave out.
+ */
+function fingerprint(type: string, error: SerializedError, stack?: string): string {
+  const frame = error.frames?.[0] ?? parseStack(stack)[0];
+  const location = frame ? `${frame.file}:${frame.line ?? ''}:${frame.column ?? ''}` : '';
+
+  return hashFingerprint([type, error.name, error.message, location].join('|'));
+}
+
+function hashFingerprint(input: string): string {
+  return sha256Hex(input).slice(0, 16);
+}
+
 /**
  * Singleton instance of the browser logger
  */
@@ -223,6 +860,13 @@ const browserLogger: IBrowserLogger = getInstance();
 
 /**
  * Factory function to create a new browser logger instance
+ *
+ * @example
+ * ```typescript
+ * const log = createBrowserLogger({ endpoint: '/api/logs', flushInterval: 5000 });
+ * log.info('Checkout started');
+ * await log.flush(); // POSTs { entries: BrowserLogEntry[] } to /api/logs
+ * ```
  */
 function createBrowserLogger(options?: BrowserLoggerOptions): IBrowserLogger {
   return new BrowserLoggerImpl(options);
@@ -0,0 +1,189 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Config File Loader (Node.js only)
+ *
+ * Finds and loads glean-logger.config.{json,js,mjs,cjs,ts} into the config
+ * file layer. TypeScript config files need a runtime that can import .ts
+ * (tsx, ts-node, Bun, or Node with type stripping).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+import { configure, getConfig, setFileConfig } from './config';
+import { notifyConfigLevelChange } from './levels';
+import type { LoggerConfig, LoggerConfigInput } from './types';
+
+/**
+ * Config file names, in lookup order
+ */
+export const CONFIG_FILE_NAMES = [
+  'glean-logger.config.json',
+  'glean-logger.config.js',
+  'glean-logger.config.mjs',
+  'glean-logger.config.cjs',
+  'glean-logger.config.ts',
+];
+
+/**
+ * Options for loadConfig
+ */
+export interface LoadConfigOptions {
+  /** Directory to search for a config file (default: process.cwd()) */
+  cwd?: string;
+  /** Explicit config file path, or false to skip the file layer */
+  file?: string | false;
+  /** Programmatic overrides applied on top (see configure) */
+  overrides?: LoggerConfigInput;
+}
+
+/**
+ * Options for watchConfigFile
+ */
+export interface WatchConfigOptions {
+  /** Directory to search for a config file (default: process.cwd()) */
+  cwd?: string;
+  /** Polling interval in ms (default: 2000) */
+  interval?: number;
+}
+
+/**
+ * Find the first config file in a directory
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a config file's exported object
+ */
+async function readConfigFile(file: string, fresh = false): Promise<unknown> {
+  try {
+    if (file.endsWith('.json')) {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8')) as unknown;
+    }
+
+    // Modules are cached by URL, so a reload needs a new one
+    const url = pathToFileURL(file).href + (fresh ? `?t=${Date.now()}` : '');
+    const mod = (await import(url)) as { default?: unknown };
+    return mod.default ?? mod;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load logger config file ${file}: ${reason}`);
+  }
+}
+
+/**
+ * Load the config file layer and optional overrides, then return the
+ * effective config. Call once at startup, before creating loggers.
+ *
+ * @throws Error when the file can't be read, or listing every invalid value
+ *
+ * @example
+ * ```typescript
+ * await loadConfig();
+ * await loadConfig({ file: './config/logging.json', overrides: { level: 'warn' } });
+ * ```
+ */
+export async function loadConfig(options?: LoadConfigOptions): Promise<LoggerConfig> {
+  const file =
+    options?.file === false
+      ? null
+      : options?.file
+        ? path.resolve(options.cwd ?? process.cwd(), options.file)
+        : findConfigFile(options?.cwd);
+
+  if (file) {
+    setFileConfig(await readConfigFile(file), file);
+  }
+
+  if (options?.overrides) {
+    configure(options.overrides);
+  }
+
+  return getConfig();
+}
+
+/**
+ * Watch a config file and apply it to live loggers when it changes, so the
+ * level can be raised without a restart. Invalid files are reported with
+ * console.warn and leave the current config in place.
+ *
+ * Returns a function that stops watching.
+ *
+ * @throws Error when no config file is given or found
+ *
+ * @example
+ * ```typescript
+ * await loadConfig();
+ * const stop = watchConfigFile();
+ * ```
+ */
+export function watchConfigFile(file?: string, options?: WatchConfigOptions): () => void {
+  const resolved = file
+    ? path.resolve(options?.cwd ?? process.cwd(), file)
+    : findConfigFile(options?.cwd);
+
+  if (!resolved) {
+    throw new Error('No logger config file to watch');
+  }
+
+  const reload = async (): Promise<void> => {
+    const previous = getConfig().level;
+
+    try {
+      setFileConfig(await readConfigFile(resolved, true), resolved);
+    } catch (error) {
+      console.warn(
+        '[Config] Ignoring config file change:',
+        error instanceof Error ? error.message : error
+      );
+      return;
+    }
+
+    notifyConfigLevelChange(previous, 'file');
+  };
+
+  const listener = (current: fs.Stats, previous: fs.Stats): void => {
+    // A zero mtime means the file was removed; keep the last good config
+    if (current.mtimeMs !== previous.mtimeMs && current.mtimeMs !== 0) {
+      void reload();
+    }
+  };
+
+  fs.watchFile(resolved, { interval: options?.interval ?? 2000, persistent: false }, listener);
+
+  return () => {
+    fs.unwatchFile(resolved, listener);
+  };
+}
@@ -25,16 +25,35 @@
 /**
  * Configuration module for API Logger Integration
  *
- * Loads and validates environment variables, provides defaults,
- * and exposes configuration as a readonly object.
+ * Resolves the logger configuration from layered sources, lowest precedence
+ * first: defaults, a config file (see loadConfig), environment variables and
+ * programmatic overrides (configure). Every layer is validated; all errors
+ * are reported at once.
+ *
+ * Environment variables use the GLEAN_LOG_ prefix. The older names
+ * (NEXT_PUBLIC_LOG_LEVEL, API_LOG_REDACT_SENSITIVE, ...) are still read.
  */
 
-import type { LoggerConfig, LogLevel } from './types';
+import { isNamespacePattern, parseLevelSpec } from './namespaces';
+import type {
+  ConfigSource,
+  EffectiveConfig,
+  LoggerConfig,
+  LoggerConfigInput,
+  LogLevel,
+} from './types';
+
+/**
+ * Prefix for configuration environment variables
+ */
+export const ENV_PREFIX = 'GLEAN_LOG_';
 
 /**
  * Default configuration values
  */
-const DEFAULT_CONFIG: Omit<LoggerConfig, 'level'> = {
+const DEFAULT_CONFIG: LoggerConfig = {
+  level: 'debug',
+  levels: {},
   enabled: true,
   redactSensitive: true,
   includeStackTrace: true,
@@ -45,47 +64,107 @@ const DEFAULT_CONFIG: Omit<LoggerConfig, 'level'> = {
   developmentFormat: true,
 };
 
+/**
+ * Environment variables per option, highest precedence first
+ */
+export const CONFIG_ENV_VARS: Readonly<Record<keyof LoggerConfig, readonly string[]>> = {
+  level: [`${ENV_PREFIX}LEVEL`, 'NEXT_PUBLIC_LOG_LEVEL', 'LOG_LEVEL'],
+  levels: [`${ENV_PREFIX}LEVELS`, 'NEXT_PUBLIC_LOG_LEVELS', 'LOG_LEVELS'],
+  enabled: [`${ENV_PREFIX}ENABLED`, 'NEXT_PUBLIC_LOG_ENABLED', 'LOGGER_ENABLED'],
+  redactSensitive: [`${ENV_PREFIX}REDACT_SENSITIVE`, 'API_LOG_REDACT_SENSITIVE'],
+  redactSecret: [`${ENV_PREFIX}REDACT_SECRET`, 'API_LOG_REDACT_SECRET'],
+  includeStackTrace: [`${ENV_PREFIX}INCLUDE_STACK_TRACE`],
+  maxFileSize: [`${ENV_PREFIX}MAX_FILE_SIZE`, 'LOG_MAX_SIZE', 'MAX_FILE_SIZE'],
+  maxFiles: [`${ENV_PREFIX}MAX_FILES`, 'LOG_MAX_FILES', 'MAX_FILES'],
+  logDir: [`${ENV_PREFIX}DIR`, 'LOG_DIR'],
+  jsonFormat: [`${ENV_PREFIX}JSON_FORMAT`],
+  developmentFormat: [`${ENV_PREFIX}DEVELOPMENT_FORMAT`],
+};
+
 /**
  * Valid log levels
  */
 const VALID_LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'fatal'] as const;
 
+// ============================================================================
+// Parsing
+// ============================================================================
+
 /**
- * Parse log level from environment variable
+ * Marks a value that failed to parse
  */
-function parseLogLevel(value: string | undefined, defaultValue: LogLevel): LogLevel {
-  if (!value) {
-    return defaultValue;
+const INVALID = Symbol('invalid');
+
+type Parsed<T> = T | typeof INVALID;
+
+function parseLogLevel(value: unknown): Parsed<LogLevel> {
+  if (typeof value !== 'string') {
+    return INVALID;
   }
   const normalized = value.toLowerCase();
-  if (VALID_LOG_LEVELS.includes(normalized as LogLevel)) {
-    return normalized as LogLevel;
-  }
-  console.warn(`Invalid log level "${value}", using default "${defaultValue}"`);
-  return defaultValue;
+  return VALID_LOG_LEVELS.includes(normalized as LogLevel) ? (normalized as LogLevel) : INVALID;
 }
 
 /**
- * Parse boolean from environment variable
+ * Parse levels by logger name pattern, as an object or a spec ("db=debug,*=info")
  */
-function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
-  if (value === undefined) {
-    return defaultValue;
+function parseLevels(value: unknown): Parsed<Record<string, LogLevel>> {
+  if (typeof value === 'string') {
+    try {
+      return parseLevelSpec(value);
+    } catch {
+      return INVALID;
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return INVALID;
+  }
+
+  const levels: Record<string, LogLevel> = {};
+  for (const [pattern, level] of Object.entries(value as Record<string, unknown>)) {
+    const parsed = parseLogLevel(level);
+    if (parsed === INVALID || !isNamespacePattern(pattern)) {
+      return INVALID;
+    }
+    levels[pattern] = parsed;
   }
-  return value.toLowerCase() === 'true';
+  return levels;
+}
+
+function parseBoolean(value: unknown): Parsed<boolean> {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    return INVALID;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'no', 'off'].includes(normalized)) {
+    return false;
+  }
+  return INVALID;
 }
 
 /**
- * Parse file size string (e.g., "10m", "1g") to bytes
+ * Parse a file size in bytes or as a string (e.g., "10m", "1g")
  */
-function parseFileSize(value: string | undefined, defaultValue: number): number {
-  if (!value) {
-    return defaultValue;
+function parseFileSize(value: unknown): Parsed<number> {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : INVALID;
+  }
+  if (typeof value !== 'string') {
+    return INVALID;
   }
 
-  const sizeMatch = value.toLowerCase().match(/^(\d+)([bkmg])?$/);
+  const sizeMatch = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+)([bkmg])?$/);
   if (!sizeMatch?.[1]) {
-    return defaultValue;
+    return INVALID;
   }
 
   const size = parseInt(sizeMatch[1], 10);
@@ -99,27 +178,37 @@ function parseFileSize(value: string | undefined, defaultValue: number): number
     case 'k':
       return size * 1024;
     default:
-      return size;
+      return size > 0 ? size : INVALID;
   }
 }
 
 /**
- * Parse max files string (e.g., "14d", "10") to days
+ * Parse retention in days, or as a string (e.g., "14d", "2w", "48h")
  */
-function parseMaxFiles(value: string | undefined, defaultValue: number): number {
-  if (!value) {
-    return defaultValue;
+function parseMaxFiles(value: unknown): Parsed<number> {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : INVALID;
+  }
+  if (typeof value !== 'string') {
+    return INVALID;
   }
 
   // Handle duration format like "14d" for 14 days
-  const durationMatch = value.toLowerCase().match(/^(\d+)([dwh])?$/);
+  const durationMatch = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+)([dwh])?$/);
   if (!durationMatch?.[1]) {
-    return defaultValue;
+    return INVALID;
   }
 
   const amount = parseInt(durationMatch[1], 10);
   const unit = durationMatch[2] ?? undefined;
 
+  if (amount <= 0) {
+    return INVALID;
+  }
+
   switch (unit) {
     case 'w':
       return amount * 7; // weeks to days
@@ -131,41 +220,289 @@ function parseMaxFiles(value: string | undefined, defaultValue: number): number
   }
 }
 
+function parseNonEmptyString(value: unknown): Parsed<string> {
+  return typeof value === 'string' && value.trim() !== '' ? value : INVALID;
+}
+
+/**
+ * Parser and expected-value description per option
+ */
+const OPTIONS: {
+  [K in keyof LoggerConfig]-?: {
+    parse: (value: unknown) => Parsed<LoggerConfig[K]>;
+    expected: string;
+  };
+} = {
+  level: { parse: parseLogLevel, expected: `one of ${VALID_LOG_LEVELS.join(', ')}` },
+  levels: {
+    parse: parseLevels,
+    expected: 'levels by logger pattern such as { db: "debug" } or "db=debug,api:*=warn"',
+  },
+  enabled: { parse: parseBoolean, expected: 'a boolean' },
+  redactSensitive: { parse: parseBoolean, expected: 'a boolean' },
+  redactSecret: { parse: parseNonEmptyString, expected: 'a non-empty string' },
+  includeStackTrace: { parse: parseBoolean, expected: 'a boolean' },
+  maxFileSize: { parse: parseFileSize, expected: 'a positive size such as 10485760 or "10m"' },
+  maxFiles: { parse: parseMaxFiles, expected: 'a positive number of days such as 14 or "2w"' },
+  logDir: { parse: parseNonEmptyString, expected: 'a non-empty string' },
+  jsonFormat: { parse: parseBoolean, expected: 'a boolean' },
+  developmentFormat: { parse: parseBoolean, expected: 'a boolean' },
+};
+
+const OPTION_NAMES = Object.keys(OPTIONS) as (keyof LoggerConfig)[];
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+/**
+ * Validate and normalize config input (from a file or configure()).
+ * Returns the valid values and one message per problem.
+ */
+export function normalizeConfigInput(
+  input: unknown,
+  where: string
+): { values: Partial<LoggerConfig>; errors: string[] } {
+  const values: Partial<LoggerConfig> = {};
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { values, errors: [`${where}: expected an object`] };
+  }
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!Object.prototype.hasOwnProperty.call(OPTIONS, key)) {
+      errors.push(`${where}: unknown option "${key}"`);
+      continue;
+    }
+    if (value === undefined) {
+      continue;
+    }
+
+    const name = key as keyof LoggerConfig;
+    const parsed = OPTIONS[name].parse(value);
+    if (parsed === INVALID) {
+      errors.push(
+        `${where}: ${name} must be ${OPTIONS[name].expected}, got ${describeValue(value)}`
+      );
+    } else {
+      (values as Record<string, unknown>)[name] = parsed;
+    }
+  }
+
+  return { values, errors };
+}
+
+function formatErrors(errors: string[]): string {
+  return `Invalid logger configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`;
+}
+
+// ============================================================================
+// Layers
+// ============================================================================
+
+/**
+ * Values loaded from a config file
+ */
+let fileLayer: { values: Partial<LoggerConfig>; path: string } | null = null;
+
+/**
+ * Programmatic overrides from configure()
+ */
+let overrideLayer: Partial<LoggerConfig> = {};
+
 /**
  * Cached configuration object
  */
 let cachedConfig: LoggerConfig | null = null;
 
 /**
- * Get the logger configuration
- * Loads from environment variables with defaults, caches the result
+ * Read the NEXT_PUBLIC_* variables by literal property access, which Next.js
+ * and other bundlers inline into client bundles. Once inlined, no `process`
+ * is needed; without inlining or `process`, the access throws and is skipped.
+ */
+function readPublicEnv(): Record<string, string | undefined> {
+  try {
+    return {
+      NEXT_PUBLIC_LOG_LEVEL: process.env['NEXT_PUBLIC_LOG_LEVEL'],
+      NEXT_PUBLIC_LOG_LEVELS: process.env['NEXT_PUBLIC_LOG_LEVELS'],
+      NEXT_PUBLIC_LOG_ENABLED: process.env['NEXT_PUBLIC_LOG_ENABLED'],
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Read the environment layer: the first set variable per option
+ */
+function readEnv(): {
+  values: Partial<LoggerConfig>;
+  origins: Partial<Record<keyof LoggerConfig, string>>;
+  errors: string[];
+} {
+  const values: Partial<LoggerConfig> = {};
+  const origins: Partial<Record<keyof LoggerConfig, string>> = {};
+  const errors: string[] = [];
+
+  const publicEnv = readPublicEnv();
+  const lookup = (env: string): string | undefined =>
+    env in publicEnv
+      ? publicEnv[env]
+      : typeof process !== 'undefined'
+        ? process.env[env]
+        : undefined;
+
+  for (const name of OPTION_NAMES) {
+    const variable = CONFIG_ENV_VARS[name].find(env => lookup(env));
+    const raw = variable ? lookup(variable) : undefined;
+
+    if (!variable || !raw) {
+      continue;
+    }
+
+    const parsed = OPTIONS[name].parse(raw);
+    if (parsed === INVALID) {
+      errors.push(`${variable}: must be ${OPTIONS[name].expected}, got "${raw}"`);
+    } else {
+      (values as Record<string, unknown>)[name] = parsed;
+      origins[name] = variable;
+    }
+  }
+
+  return { values, origins, errors };
+}
+
+/**
+ * Resolve every layer into the effective config, with the source of each
+ * value and all validation errors. Invalid values are skipped, so a lower
+ * layer's value applies instead.
+ */
+export function resolveConfig(): {
+  config: LoggerConfig;
+  effective: EffectiveConfig;
+  errors: string[];
+} {
+  const env = readEnv();
+  const effective = {} as Record<keyof LoggerConfig, EffectiveConfig[keyof LoggerConfig]>;
+
+  for (const name of OPTION_NAMES) {
+    let entry: { value: unknown; source: ConfigSource; origin?: string } = {
+      value: DEFAULT_CONFIG[name],
+      source: 'default',
+    };
+
+    if (fileLayer && fileLayer.values[name] !== undefined) {
+      entry = { value: fileLayer.values[name], source: 'file', origin: fileLayer.path };
+    }
+    if (env.values[name] !== undefined) {
+      entry = { value: env.values[name], source: 'env', origin: env.origins[name] };
+    }
+    if (overrideLayer[name] !== undefined) {
+      entry = { value: overrideLayer[name], source: 'override' };
+    }
+
+    effective[name] = entry as EffectiveConfig[keyof LoggerConfig];
+  }
+
+  const config = Object.fromEntries(
+    OPTION_NAMES.map(name => [name, effective[name].value])
+  ) as unknown as LoggerConfig;
+
+  return { config, effective: effective as EffectiveConfig, errors: env.errors };
+}
+
+/**
+ * Get the logger configuration.
+ * Resolves all layers on first use and caches the result until the config
+ * changes (configure, loadConfig, reloadConfig or resetConfig).
  */
 export function getConfig(): LoggerConfig {
   if (cachedConfig) {
     return cachedConfig;
   }
 
-  const level = parseLogLevel(process.env['NEXT_PUBLIC_LOG_LEVEL'], 'debug');
-
-  cachedConfig = {
-    ...DEFAULT_CONFIG,
-    level,
-    enabled: parseBoolean(process.env['NEXT_PUBLIC_LOG_ENABLED'], DEFAULT_CONFIG.enabled),
-    redactSensitive: parseBoolean(
-      process.env['API_LOG_REDACT_SENSITIVE'],
-      DEFAULT_CONFIG.redactSensitive
-    ),
-    includeStackTrace: parseBoolean(undefined, DEFAULT_CONFIG.includeStackTrace),
-    maxFileSize: parseFileSize(process.env['LOG_MAX_SIZE'], DEFAULT_CONFIG.maxFileSize),
-    maxFiles: parseMaxFiles(process.env['LOG_MAX_FILES'], DEFAULT_CONFIG.maxFiles),
-    logDir: process.env['LOG_DIR'] || DEFAULT_CONFIG.logDir,
-    jsonFormat: parseBoolean(undefined, DEFAULT_CONFIG.jsonFormat),
-    developmentFormat: parseBoolean(undefined, DEFAULT_CONFIG.developmentFormat),
-  };
+  const { config, errors } = resolveConfig();
 
+  if (errors.length > 0) {
+    console.warn(`[Config] ${formatErrors(errors)}\nUsing lower-precedence values instead.`);
+  }
+
+  cachedConfig = config;
   return cachedConfig;
 }
 
+/**
+ * Get the effective config with the source of each value
+ *
+ * @example
+ * ```typescript
+ * getEffectiveConfig().level;
+ * // { value: 'info', source: 'env', origin: 'GLEAN_LOG_LEVEL' }
+ * ```
+ */
+export function getEffectiveConfig(): EffectiveConfig {
+  return resolveConfig().effective;
+}
+
+/**
+ * Override config values programmatically. Overrides take precedence over
+ * every other source and accumulate across calls.
+ *
+ * @throws Error listing every invalid value; no override is applied then
+ */
+export function configure(overrides: LoggerConfigInput): LoggerConfig {
+  const { values, errors } = normalizeConfigInput(overrides, 'configure()');
+
+  if (errors.length > 0) {
+    throw new Error(formatErrors(errors));
+  }
+
+  overrideLayer = { ...overrideLayer, ...values };
+  cachedConfig = null;
+
+  return getConfig();
+}
+
+/**
+ * Set the config file layer. Used by loadConfig().
+ *
+ * @throws Error listing every invalid value; the layer is not changed then
+ */
+export function setFileConfig(input: unknown, path: string): void {
+  const { values, errors } = normalizeConfigInput(input, path);
+
+  if (errors.length > 0) {
+    throw new Error(formatErrors(errors));
+  }
+
+  fileLayer = { values, path };
+  cachedConfig = null;
+}
+
+/**
+ * Re-read environment variables, keeping the config file and overrides
+ */
+export function reloadConfig(): LoggerConfig {
+  cachedConfig = null;
+  return getConfig();
+}
+
+/**
+ * Identity helper that types a config file
+ *
+ * @example
+ * ```typescript
+ * // glean-logger.config.ts
+ * import { defineConfig } from '@zaob/glean-logger';
+ *
+ * export default defineConfig({ level: 'info', maxFiles: '30d' });
+ * ```
+ */
+export function defineConfig(config: LoggerConfigInput): LoggerConfigInput {
+  return config;
+}
+
 /**
  * Check if logging is enabled
  */
@@ -222,8 +559,11 @@ export function getEnvironment(): string {
 }
 
 /**
- * Reset the cached configuration (useful for testing)
+ * Reset the cached configuration, the loaded config file and all
+ * overrides (useful for testing)
  */
 export function resetConfig(): void {
   cachedConfig = null;
+  fileLayer = null;
+  overrideLayer = {};
 }
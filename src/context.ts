@@ -0,0 +1,89 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Request-scoped log context (server-only)
+ *
+ * This module provides:
+ * - runWithContext() to bind a LogContext to an async call chain
+ * - enterContext() for frameworks that only expose hooks
+ * - getContext() to read it back anywhere below that call
+ *
+ * Server loggers merge the active context into every entry, and
+ * createLoggedFetch reuses its requestId for the X-Request-ID header.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+import type { LogContext } from './types';
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with context bound to it and everything it awaits or schedules.
+ * Nested calls merge over the outer context.
+ *
+ * @example
+ * ```typescript
+ * import { runWithContext, getContext } from '@zaob/glean-logger';
+ *
+ * app.use((req, res, next) => {
+ *   runWithContext({ requestId: req.get('x-request-id') ?? randomUUID() }, next);
+ * });
+ *
+ * // Later, in any handler below that middleware
+ * getContext(); // { requestId: '...' }
+ * ```
+ */
+export function runWithContext<T>(context: LogContext, fn: () => T): T {
+  const outer = storage.getStore();
+
+  return storage.run(outer ? { ...outer, ...context } : { ...context }, fn);
+}
+
+/**
+ * Bind context to the rest of the current async call chain. For hook-based
+ * frameworks where the handler cannot be wrapped in runWithContext().
+ */
+export function enterContext(context: LogContext): void {
+  const outer = storage.getStore();
+
+  storage.enterWith(outer ? { ...outer, ...context } : { ...context });
+}
+
+/**
+ * Get the context bound by the nearest runWithContext(), if any
+ */
+export function getContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Get the requestId of the active context, if it has a string one
+ */
+export function getContextRequestId(): string | undefined {
+  const requestId = storage.getStore()?.requestId;
+
+  return typeof requestId === 'string' && requestId.length > 0 ? requestId : undefined;
+}
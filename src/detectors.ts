@@ -0,0 +1,246 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * PII and Secret Detectors
+ *
+ * Named value detectors used as redaction patterns. Numbers that carry a
+ * checksum (card numbers, IBANs) are only redacted when the checksum holds,
+ * so order IDs and timestamps pass through.
+ *
+ * @example
+ * ```typescript
+ * const policy = createRedactionPolicy({
+ *   patterns: [...DEFAULT_PATTERNS, ...getDetectors(['email', 'phone'])],
+ * });
+ * ```
+ */
+
+import type { DetectorName, RedactionPattern } from './types';
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/**
+ * Luhn checksum over a string of digits
+ */
+export function luhnCheck(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Card number: 13-19 digits, a known issuer prefix and a valid Luhn checksum
+ */
+export function isCardNumber(value: string): boolean {
+  const digits = value.replace(/[\s-]/g, '');
+
+  return (
+    digits.length >= 13 &&
+    digits.length <= 19 &&
+    /^(?:4|5[1-5]|2[2-7]|3[47]|6)/.test(digits) &&
+    luhnCheck(digits)
+  );
+}
+
+/**
+ * IBAN with a valid ISO 13616 mod-97 checksum
+ */
+export function isIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  let remainder = 0;
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const digits = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * IPv6 address in full or '::'-compressed form
+ */
+export function isIPv6(value: string): boolean {
+  const halves = value.split('::');
+
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.flatMap(half => (half ? half.split(':') : []));
+
+  if (groups.length === 0 || groups.some(group => !/^[0-9A-Fa-f]{1,4}$/.test(group))) {
+    return false;
+  }
+
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+// ============================================================================
+// Detectors
+// ============================================================================
+
+const IPV4_OCTET = '(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+
+/**
+ * Built-in detectors by name
+ */
+export const DETECTORS: Readonly<Record<DetectorName, RedactionPattern>> = Object.freeze({
+  creditCard: {
+    name: 'creditCard',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    replacement: '[REDACTED-CARD]',
+    validate: isCardNumber,
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    replacement: '[REDACTED-IBAN]',
+    validate: isIban,
+  },
+  phone: {
+    name: 'phone',
+    pattern: /(?<![\w+])\+[1-9]\d{7,14}(?!\d)/g,
+    replacement: '[REDACTED-PHONE]',
+  },
+  email: {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    replacement: '[REDACTED-EMAIL]',
+  },
+  ipv4: {
+    name: 'ipv4',
+    pattern: new RegExp(`(?<!\\d\\.)\\b(?:${IPV4_OCTET}\\.){3}${IPV4_OCTET}\\b(?!\\.\\d)`, 'g'),
+    replacement: '[REDACTED-IP]',
+  },
+  ipv6: {
+    name: 'ipv6',
+    pattern: /(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:.])/g,
+    replacement: '[REDACTED-IP]',
+    validate: isIPv6,
+  },
+  ssn: {
+    name: 'ssn',
+    pattern: /\b(?!000|666|9\d\d)\d{3}([-\s])(?!00)\d{2}\1(?!0000)\d{4}\b/g,
+    replacement: '[REDACTED-SSN]',
+  },
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]*\.eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*/g,
+    replacement: '[REDACTED-JWT]',
+  },
+  bearerToken: {
+    name: 'bearerToken',
+    pattern: /Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+    replacement: 'Bearer [REDACTED]',
+  },
+  awsAccessKey: {
+    name: 'awsAccessKey',
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g,
+    replacement: '[REDACTED-AWS-KEY]',
+  },
+  gcpApiKey: {
+    name: 'gcpApiKey',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}(?![\w-])/g,
+    replacement: '[REDACTED-GCP-KEY]',
+  },
+  stripeKey: {
+    name: 'stripeKey',
+    pattern: /\b(?:(?:sk|pk|rk)_(?:live|test)|whsec)_[0-9A-Za-z]{10,}\b/g,
+    replacement: '[REDACTED-STRIPE-KEY]',
+  },
+  githubToken: {
+    name: 'githubToken',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+    replacement: '[REDACTED-GITHUB-TOKEN]',
+  },
+  privateKey: {
+    name: 'privateKey',
+    // An unterminated block (a truncated body) is redacted to the end
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g,
+    replacement: '[REDACTED-PRIVATE-KEY]',
+  },
+});
+
+/**
+ * Detectors applied to every string by default: checksummed numbers,
+ * credentials, emails and IP addresses
+ */
+export const DEFAULT_DETECTORS: readonly DetectorName[] = [
+  'email',
+  'ipv4',
+  'ipv6',
+  'creditCard',
+  'iban',
+  'jwt',
+  'bearerToken',
+  'awsAccessKey',
+  'gcpApiKey',
+  'stripeKey',
+  'githubToken',
+  'privateKey',
+];
+
+/**
+ * Detectors for personal data in free text; phone numbers and SSNs are opt-in
+ */
+export const PII_DETECTORS: readonly DetectorName[] = ['email', 'phone', 'ipv4', 'ipv6', 'ssn'];
+
+/**
+ * Get detectors by name, in the given order
+ *
+ * @throws Error when a name is not a built-in detector
+ */
+export function getDetectors(names: readonly DetectorName[]): RedactionPattern[] {
+  return names.map(name => {
+    if (!Object.prototype.hasOwnProperty.call(DETECTORS, name)) {
+      throw new Error(`Unknown redaction detector: ${String(name)}`);
+    }
+    return DETECTORS[name];
+  });
+}
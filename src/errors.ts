@@ -0,0 +1,295 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Error Serialization
+ *
+ * Turns errors into plain objects that survive JSON.stringify, redaction and
+ * transport to log backends.
+ *
+ * Provides:
+ * - name, message and (optionally) stack
+ * - error.cause chains and AggregateError.errors
+ * - Own enumerable properties such as code, statusCode and errno
+ * - DOMException codes
+ * - Parsed stack frames, optionally resolved through source maps
+ * - Cycle and depth limits
+ */
+
+import { getConfig } from './config';
+import { parseStack } from './stack';
+import type { StackFrame } from './stack';
+import type { LogContext } from './types';
+
+/**
+ * A serialized error
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  /** Parsed stack frames, resolved through source maps when a resolver is installed */
+  frames?: StackFrame[];
+  /** Error code (own property, or the legacy DOMException code) */
+  code?: string | number;
+  /** Serialized cause; non-error causes are copied without cycles */
+  cause?: SerializedError | unknown;
+  /** Serialized AggregateError members */
+  errors?: Array<SerializedError | unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for serializeError
+ */
+export interface SerializeErrorOptions {
+  /** Include stack traces (default: true) */
+  stack?: boolean;
+  /**
+   * Include parsed stack frames along with the stack
+   * (default: only while a stack frame resolver is installed)
+   */
+  frames?: boolean;
+  /**
+   * Maximum depth of nested causes, aggregated errors and property values;
+   * deeper errors keep only name and message, deeper objects become
+   * '[Object]' or '[Array]' (default: 10)
+   */
+  maxDepth?: number;
+}
+
+/**
+ * Placeholder for an error that is its own (indirect) cause
+ */
+export const CIRCULAR_ERROR = '[Circular]';
+
+/**
+ * Default maximum depth of nested errors
+ */
+const MAX_DEPTH = 10;
+
+/**
+ * Maps parsed frames to their original positions
+ */
+export type StackFrameResolver = (frames: StackFrame[]) => StackFrame[];
+
+/**
+ * Resolver applied to the frames of every serialized error
+ */
+let frameResolver: StackFrameResolver | null = null;
+
+/**
+ * Set the resolver applied to the frames of every serialized error, or null
+ * to remove it. See installSourceMapSupport() for source maps on the server.
+ */
+export function setStackFrameResolver(resolver: StackFrameResolver | null): void {
+  frameResolver = resolver;
+}
+
+/**
+ * Parse a stack and apply the installed resolver, if any
+ */
+export function getStackFrames(stack: string | undefined): StackFrame[] {
+  const frames = parseStack(stack);
+
+  if (!frameResolver || frames.length === 0) {
+    return frames;
+  }
+
+  try {
+    return frameResolver(frames);
+  } catch (error) {
+    console.warn('[Errors] Stack frame resolver failed:', error);
+    return frames;
+  }
+}
+
+/**
+ * Check if a value is an Error, including DOMException in runtimes where it
+ * does not extend Error
+ */
+export function isError(value: unknown): value is Error {
+  return (
+    value instanceof Error || (typeof DOMException !== 'undefined' && value instanceof DOMException)
+  );
+}
+
+function serialize(
+  error: Error,
+  options: Required<SerializeErrorOptions>,
+  seen: Set<unknown>,
+  depth: number
+): SerializedError {
+  seen.add(error);
+
+  const serialized: SerializedError = { name: error.name, message: error.message };
+
+  if (options.stack && error.stack) {
+    serialized.stack = error.stack;
+
+    if (options.frames) {
+      serialized.frames = getStackFrames(error.stack);
+    }
+  }
+
+  // DOMException exposes code as a prototype getter, 0 for newer exception names
+  if (typeof DOMException !== 'undefined' && error instanceof DOMException && error.code) {
+    serialized.code = error.code;
+  }
+
+  for (const [key, value] of Object.entries(error)) {
+    if (key !== 'stack' || options.stack) {
+      serialized[key] = nested(value, options, seen, depth);
+    }
+  }
+
+  // cause and errors are usually not enumerable
+  if ('cause' in error && error.cause !== undefined) {
+    serialized.cause = nested(error.cause, options, seen, depth);
+  }
+
+  if (error instanceof AggregateError && Array.isArray(error.errors)) {
+    serialized.errors = error.errors.map(item => nested(item, options, seen, depth));
+  }
+
+  seen.delete(error);
+  return serialized;
+}
+
+function nested(
+  value: unknown,
+  options: Required<SerializeErrorOptions>,
+  seen: Set<unknown>,
+  depth: number
+): unknown {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return CIRCULAR_ERROR;
+  }
+  if (isError(value)) {
+    return depth >= options.maxDepth
+      ? { name: value.name, message: value.message }
+      : serialize(value, options, seen, depth + 1);
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return value;
+  }
+  if (depth >= options.maxDepth) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+
+  // Custom properties may hold cyclic objects (e.g. an HTTP client's request)
+  seen.add(value);
+  const copy = Array.isArray(value)
+    ? value.map(item => nested(item, options, seen, depth + 1))
+    : Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, nested(item, options, seen, depth + 1)])
+      );
+  seen.delete(value);
+
+  return copy;
+}
+
+/**
+ * Describe a thrown non-error value
+ */
+function describe(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Serialize an error to a plain object. Values that are not errors become
+ * an Error-named entry with their string form as message.
+ *
+ * @example
+ * ```typescript
+ * const error = Object.assign(new Error('upstream failed', { cause: timeout }), { statusCode: 502 });
+ * serializeError(error);
+ * // { name: 'Error', message: 'upstream failed', stack: '...', statusCode: 502,
+ * //   cause: { name: 'TimeoutError', message: '...', stack: '...' } }
+ * ```
+ */
+export function serializeError(error: unknown, options?: SerializeErrorOptions): SerializedError {
+  const resolved = {
+    stack: options?.stack ?? true,
+    frames: options?.frames ?? frameResolver !== null,
+    maxDepth: options?.maxDepth ?? MAX_DEPTH,
+  };
+
+  if (!isError(error)) {
+    return { name: 'Error', message: describe(error) };
+  }
+
+  return serialize(error, resolved, new Set(), 0);
+}
+
+/**
+ * Serialize the Error values at the top level of a log context
+ */
+export function serializeContextErrors(context: LogContext): LogContext {
+  if (!Object.values(context).some(isError)) {
+    return context;
+  }
+
+  return Object.fromEntries(
+    Object.entries(context).map(([key, value]) => [
+      key,
+      isError(value) ? serializeError(value, { stack: getConfig().includeStackTrace }) : value,
+    ])
+  ) as LogContext;
+}
+
+/**
+ * Normalize the arguments of log.error(message, context?) and
+ * log.error(error, message?, context?). The error is added to the context
+ * under `error`, with its stack when includeStackTrace is on.
+ */
+export function resolveErrorLogArgs(
+  errorOrMessage: unknown,
+  messageOrContext?: string | LogContext,
+  context?: LogContext
+): { message: string; context?: LogContext } {
+  if (typeof errorOrMessage === 'string') {
+    return { message: errorOrMessage, context: messageOrContext as LogContext | undefined };
+  }
+
+  const error = serializeError(errorOrMessage, { stack: getConfig().includeStackTrace });
+
+  return {
+    message: typeof messageOrContext === 'string' ? messageOrContext : error.message,
+    context: { ...context, error } as LogContext,
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * File Transports
+ *
+ * Node.js-only transports that append formatted records to disk.
+ *
+ * Provides:
+ * - FileTransport (single append-only file)
+ * - RotatingFileTransport (daily files with size-based roll-over and retention)
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { formatJsonRecord } from './formatters';
+import type { LogFormatter, LogLevel, LogRecord, Transport, TransportOptions } from './types';
+
+/**
+ * Resolve once every write queued before the call has been flushed
+ */
+function drainStream(stream: fs.WriteStream): Promise<void> {
+  return new Promise(resolve => {
+    if (stream.destroyed || stream.writableEnded) {
+      resolve();
+      return;
+    }
+    // Write callbacks run in order, so an empty write settles after the previous ones
+    stream.write('', () => resolve());
+  });
+}
+
+/**
+ * End a stream and resolve once it has finished
+ */
+function endStream(stream: fs.WriteStream): Promise<void> {
+  return new Promise(resolve => {
+    if (stream.destroyed || stream.writableFinished) {
+      resolve();
+      return;
+    }
+    stream.end(() => resolve());
+  });
+}
+
+/**
+ * Open an append stream, creating the parent directory if needed
+ */
+function openAppendStream(filename: string): fs.WriteStream {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  const stream = fs.createWriteStream(filename, { flags: 'a' });
+  stream.on('error', error => {
+    console.warn(`[Transport] Failed to write ${filename}:`, error);
+  });
+  return stream;
+}
+
+// ============================================================================
+// File Transport
+// ============================================================================
+
+/**
+ * Options for FileTransport
+ */
+export interface FileTransportOptions extends TransportOptions {
+  /** Path of the log file */
+  filename: string;
+}
+
+/**
+ * Appends one formatted record per line to a single file
+ */
+export class FileTransport implements Transport {
+  readonly name = 'file';
+  readonly level?: LogLevel;
+  private format: LogFormatter;
+  private stream: fs.WriteStream;
+
+  constructor(options: FileTransportOptions) {
+    this.level = options.level;
+    this.format = options.format ?? formatJsonRecord;
+    this.stream = openAppendStream(options.filename);
+  }
+
+  write(record: LogRecord): void {
+    if (this.stream.writableEnded) {
+      return;
+    }
+    this.stream.write(`${this.format(record)}\n`);
+  }
+
+  flush(): Promise<void> {
+    return drainStream(this.stream);
+  }
+
+  close(): Promise<void> {
+    return endStream(this.stream);
+  }
+}
+
+// ============================================================================
+// Rotating File Transport
+// ============================================================================
+
+/**
+ * Options for RotatingFileTransport
+ */
+export interface RotatingFileTransportOptions extends TransportOptions {
+  /** Directory holding the log files */
+  dirname: string;
+  /** Base file name; files are named `<filename>.<YYYY-MM-DD>[.<n>].log` */
+  filename: string;
+  /** Maximum file size in bytes before rolling to a new file (default: unlimited) */
+  maxSize?: number;
+  /** Number of days of files to keep (default: unlimited) */
+  maxFiles?: number;
+}
+
+/**
+ * Writes to one file per day, rolling over within the day once maxSize is
+ * reached and deleting files older than maxFiles days.
+ */
+export class RotatingFileTransport implements Transport {
+  readonly name = 'rotating-file';
+  readonly level?: LogLevel;
+  private format: LogFormatter;
+  private dirname: string;
+  private filename: string;
+  private maxSize: number;
+  private maxFiles: number;
+  private stream: fs.WriteStream | null = null;
+  private currentDate = '';
+  private currentIndex = 0;
+  private currentSize = 0;
+  private closed = false;
+
+  constructor(options: RotatingFileTransportOptions) {
+    this.level = options.level;
+    this.format = options.format ?? formatJsonRecord;
+    this.dirname = options.dirname;
+    this.filename = options.filename;
+    this.maxSize = options.maxSize ?? 0;
+    this.maxFiles = options.maxFiles ?? 0;
+  }
+
+  write(record: LogRecord): void {
+    if (this.closed) {
+      return;
+    }
+
+    const line = `${this.format(record)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    this.rotateIfNeeded(new Date(record.timestamp), bytes);
+    this.stream!.write(line);
+    this.currentSize += bytes;
+  }
+
+  /**
+   * Path of the file currently written to
+   */
+  getCurrentFile(): string | null {
+    return this.stream ? this.filePath(this.currentDate, this.currentIndex) : null;
+  }
+
+  async flush(): Promise<void> {
+    if (this.stream) {
+      await drainStream(this.stream);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.stream) {
+      await endStream(this.stream);
+    }
+  }
+
+  /**
+   * Open a new file when the day changes or the size limit would be exceeded
+   */
+  private rotateIfNeeded(date: Date, bytes: number): void {
+    const day = date.toISOString().slice(0, 10);
+
+    if (day !== this.currentDate) {
+      this.open(day, this.findLatestIndex(day));
+      this.prune(date);
+      return;
+    }
+
+    if (this.maxSize > 0 && this.currentSize > 0 && this.currentSize + bytes > this.maxSize) {
+      this.open(day, this.currentIndex + 1);
+    }
+  }
+
+  private open(day: string, index: number): void {
+    if (this.stream) {
+      void endStream(this.stream);
+    }
+
+    const filename = this.filePath(day, index);
+    this.currentDate = day;
+    this.currentIndex = index;
+    this.currentSize = fs.existsSync(filename) ? fs.statSync(filename).size : 0;
+    this.stream = openAppendStream(filename);
+  }
+
+  private filePath(day: string, index: number): string {
+    const suffix = index > 0 ? `.${index}` : '';
+    return path.join(this.dirname, `${this.filename}.${day}${suffix}.log`);
+  }
+
+  /**
+   * Continue in the newest file for the day after a restart
+   */
+  private findLatestIndex(day: string): number {
+    let index = 0;
+    while (fs.existsSync(this.filePath(day, index + 1))) {
+      index++;
+    }
+    return index;
+  }
+
+  /**
+   * Delete files whose date is older than the retention window
+   */
+  private prune(now: Date): void {
+    if (this.maxFiles <= 0 || !fs.existsSync(this.dirname)) {
+      return;
+    }
+
+    // Keep today plus the previous maxFiles - 1 days
+    const cutoff = new Date(now.getTime() - (this.maxFiles - 1) * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const pattern = new RegExp(
+      `^${escapeRegExp(this.filename)}\\.(\\d{4}-\\d{2}-\\d{2})(\\.\\d+)?\\.log$`
+    );
+
+    for (const file of fs.readdirSync(this.dirname)) {
+      const match = file.match(pattern);
+      if (match?.[1] && match[1] < cutoff) {
+        try {
+          fs.unlinkSync(path.join(this.dirname, file));
+        } catch {
+          // File may have been removed concurrently
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Escape a string for use inside a RegExp
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
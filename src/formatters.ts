@@ -30,7 +30,9 @@
  */
 
 import { isDevelopment, getConfig } from './config';
-import type { LogContext, LogLevel, BrowserLogEntry } from './types';
+import { isError, serializeError } from './errors';
+import type { SerializedError } from './errors';
+import type { LogContext, LogLevel, BrowserLogEntry, LogRecord } from './types';
 
 /**
  * Colors for console output (ANSI escape codes)
@@ -44,6 +46,8 @@ const COLORS: Record<LogLevel, string> = {
 };
 
 const RESET = '\x1b[0m';
+const DIM = '\x1b[2m';
+const CYAN = '\x1b[36m';
 
 /**
  * Format a timestamp to ISO 8601 format
@@ -68,18 +72,31 @@ export function formatLevelJson(level: LogLevel): string {
   return level.toUpperCase();
 }
 
+/**
+ * Options for human-readable console output
+ */
+export interface ConsoleFormatOptions {
+  /** Color with ANSI codes (default: true for formatForConsole, false for formatMessage) */
+  color?: boolean;
+}
+
 /**
  * Format the message for console output
  */
-export function formatMessage(message: string, context?: LogContext): string {
+export function formatMessage(
+  message: string,
+  context?: LogContext,
+  options?: ConsoleFormatOptions
+): string {
   if (!context || Object.keys(context).length === 0) {
     return message;
   }
 
+  const color = options?.color ?? false;
   const contextStr = Object.entries(context)
     .map(([key, value]) => {
-      const formattedValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
-      return ` ${key}=${formattedValue}`;
+      const formattedValue = typeof value === 'object' ? safeStringify(value) : String(value);
+      return color ? ` ${DIM}${key}=${RESET}${formattedValue}` : ` ${key}=${formattedValue}`;
     })
     .join('');
 
@@ -87,34 +104,113 @@ export function formatMessage(message: string, context?: LogContext): string {
 }
 
 /**
- * Format error object with stack trace
+ * Check if a value is an error, or an error already copied to a plain object by redaction
  */
-export function formatError(error: Error | unknown): object {
-  if (!(error instanceof Error)) {
-    return { error: String(error) };
+function isErrorLike(value: unknown): value is { name?: unknown; message: string; stack?: string } {
+  if (isError(value)) {
+    return true;
   }
 
-  return {
-    message: error.message,
-    name: error.name,
-    stack: error.stack,
-  };
+  const candidate = value as { name?: unknown; message?: unknown; stack?: unknown } | null;
+  return (
+    !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.message === 'string' &&
+    (typeof candidate.stack === 'string' || typeof candidate.name === 'string')
+  );
 }
 
 /**
- * Create a formatted log entry for console output (development mode)
+ * Format an error's stack trace followed by its causes, one "Caused by:" block
+ * each. Members of an AggregateError are listed indented below it.
+ */
+export function formatErrorStack(error: unknown): string {
+  return stackBlocks(error, new Set()).join('\n');
+}
+
+function stackBlocks(error: unknown, seen: Set<unknown>): string[] {
+  const blocks: string[] = [];
+  let current: unknown = error;
+
+  while (isErrorLike(current) && !seen.has(current)) {
+    seen.add(current);
+
+    const stack = current.stack ?? `${String(current.name ?? 'Error')}: ${current.message}`;
+    blocks.push(blocks.length === 0 ? stack : `Caused by: ${stack}`);
+
+    const members = (current as { errors?: unknown }).errors;
+    if (Array.isArray(members)) {
+      members.forEach((member, index) => {
+        const nested = stackBlocks(member, seen).join('\n');
+        if (nested) {
+          blocks.push(`[${index}] ${nested}`.replace(/^/gm, '    '));
+        }
+      });
+    }
+
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  if (current !== undefined && !isErrorLike(current) && blocks.length > 0) {
+    blocks.push(
+      `Caused by: ${typeof current === 'object' ? safeStringify(current) : String(current)}`
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Format error object with stack trace (see serializeError)
+ */
+export function formatError(error: Error | unknown): SerializedError {
+  return serializeError(error, { stack: getConfig().includeStackTrace });
+}
+
+/**
+ * Create a formatted log entry for console output (development mode).
+ * Errors in the context are printed below the line with their stack and causes.
+ *
+ * @example
+ * ```text
+ * [2026-01-01T12:00:00.000Z] ERROR [db] Query failed query=select
+ *     Error: connection reset
+ *         at Socket.onEnd (net.js:1:1)
+ *     Caused by: Error: timeout
+ * ```
  */
 export function formatForConsole(
   level: LogLevel,
   message: string,
   context?: LogContext,
-  timestamp?: number | string
+  timestamp?: number | string,
+  logger?: string,
+  options?: ConsoleFormatOptions
 ): string {
+  const color = options?.color ?? true;
   const formattedTimestamp = formatTimestamp(timestamp);
-  const formattedLevel = formatLevel(level);
-  const formattedMessage = formatMessage(message, context);
+  const formattedLevel = color ? formatLevel(level) : level.toUpperCase().padEnd(5);
+  const name = logger ? (color ? `${CYAN}[${logger}]${RESET} ` : `[${logger}] `) : '';
 
-  return `[${formattedTimestamp}] ${formattedLevel} ${formattedMessage}`;
+  const fields: LogContext = {};
+  const errors: unknown[] = [];
+  const includeStackTrace = getConfig().includeStackTrace;
+
+  for (const [key, value] of Object.entries(context ?? {})) {
+    if (isErrorLike(value) && includeStackTrace) {
+      errors.push(value);
+    } else if (isErrorLike(value)) {
+      fields[key] = `${String(value.name ?? 'Error')}: ${value.message}`;
+    } else {
+      fields[key] = value;
+    }
+  }
+
+  const time = color ? `${DIM}[${formattedTimestamp}]${RESET}` : `[${formattedTimestamp}]`;
+  const line = `${time} ${formattedLevel} ${name}${formatMessage(message, fields, { color })}`;
+  const stacks = errors.map(error => formatErrorStack(error).replace(/^/gm, '    '));
+
+  return [line, ...stacks].join('\n');
 }
 
 /**
@@ -174,7 +270,16 @@ export function formatForJson(
 }
 
 /**
- * Format a log entry based on environment (dev = console, prod = JSON)
+ * Whether console output is human-readable: `developmentFormat` decides in
+ * development, `jsonFormat: false` everywhere else
+ */
+export function usePrettyFormat(): boolean {
+  const config = getConfig();
+  return isDevelopment() ? config.developmentFormat : !config.jsonFormat;
+}
+
+/**
+ * Format a log entry based on environment and the developmentFormat/jsonFormat options
  */
 export function formatLogEntry(
   level: LogLevel,
@@ -186,10 +291,8 @@ export function formatLogEntry(
   trace?: string,
   error?: Error | unknown
 ): string {
-  const config = getConfig();
-
-  if (isDevelopment() && config.developmentFormat) {
-    return formatForConsole(level, message, context, timestamp);
+  if (usePrettyFormat()) {
+    return formatForConsole(level, message, context, timestamp, logger);
   }
 
   const jsonEntry = formatForJson(
@@ -206,6 +309,51 @@ export function formatLogEntry(
   return JSON.stringify(jsonEntry);
 }
 
+/**
+ * Format a transport record as a single-line JSON log entry
+ */
+export function formatJsonRecord(record: LogRecord): string {
+  return JSON.stringify(
+    formatForJson(
+      record.level,
+      record.message,
+      record.context,
+      record.timestamp,
+      record.logger,
+      undefined,
+      record.trace
+    )
+  );
+}
+
+/**
+ * Format a transport record for human-readable console output
+ */
+export function formatPrettyRecord(record: LogRecord): string {
+  return formatForConsole(
+    record.level,
+    record.message,
+    record.context,
+    record.timestamp,
+    record.logger
+  );
+}
+
+/**
+ * Format a transport record based on environment and the developmentFormat/jsonFormat options
+ */
+export function formatRecord(record: LogRecord): string {
+  return formatLogEntry(
+    record.level,
+    record.message,
+    record.context,
+    record.timestamp,
+    record.logger,
+    undefined,
+    record.trace
+  );
+}
+
 /**
  * Format a browser log entry for localStorage
  */
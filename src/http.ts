@@ -30,6 +30,7 @@
  *
  * Provides:
  * - Request ID generation
+ * - W3C Trace Context propagation
  * - Automatic request/response logging
  * - createLoggedFetch() wrapper
  * - Fetch interceptors
@@ -37,19 +38,41 @@
  * - BodyLoggingConfig with builder pattern
  */
 
-import { createServerLogger, ServerLoggerImpl } from './server';
+import { getConfig } from './config';
+import { getContext, getContextRequestId } from './context';
+import { getDetectors } from './detectors';
+import { serializeError } from './errors';
+import {
+  applyRedactionPolicy,
+  parseRedactionPath,
+  policyFromBodyConfig,
+  redactHeadersWithPolicy,
+  redactWithReport,
+  resolveRedactionPolicy,
+} from './redact';
+import { getRootLogger, ServerLoggerImpl } from './server';
+import { createChildSpan, extractTraceContext, toTraceHeaders } from './trace';
+import type { TraceContext } from './trace';
 import type {
   IApiLogger,
   ApiRequestContext,
   ApiResponseContext,
   LogContext,
-  InterceptorFunction,
   IServerLogger,
   BodyLoggingConfig,
   ContentTypeFilter,
+  DetectorName,
+  RedactionAction,
   RedactionPattern,
+  RedactionRule,
+  RedactionStrategy,
   SamplingConfig,
   LoggedFetchOptions,
+  FetchInterceptor,
+  FetchInterceptorOptions,
+  RedactionPolicy,
+  RedactionReportOptions,
+  RedactionResult,
 } from './types';
 import { generateRequestId, createTimestamp, getPerformanceNow } from './utils';
 
@@ -59,7 +82,7 @@ import { generateRequestId, createTimestamp, getPerformanceNow } from './utils';
 
 /**
  * Default configuration for body logging
- * Sensible defaults: enable logging, 10KB limit, skip binary, redact sensitive
+ * Sensible defaults: enable logging, 10KB limit, skip binary, redact with the active policy
  */
 const DEFAULT_BODY_LOGGING_CONFIG: BodyLoggingConfig = {
   enabled: true,
@@ -78,45 +101,11 @@ const DEFAULT_BODY_LOGGING_CONFIG: BodyLoggingConfig = {
       'multipart/form-data',
     ],
   },
-  redactionPatterns: [
-    {
-      pattern: /\b\d{3}[-.\s]?\d{2}[-.\s]?\d{4}\b/g,
-      replacement: '[REDACTED-SSN]',
-      fieldNames: ['ssn', 'socialsecuritynumber', 'taxid'],
-    },
-    {
-      pattern: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
-      replacement: '[REDACTED-CARD]',
-      fieldNames: ['creditcard', 'cardnumber', 'ccnumber'],
-    },
-    {
-      pattern: /Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
-      replacement: 'Bearer [REDACTED]',
-      fieldNames: ['authorization'],
-    },
-  ],
-  sensitiveFields: [
-    'password',
-    'token',
-    'secret',
-    'apikey',
-    'accesstoken',
-    'refreshtoken',
-    'privatekey',
-    'ssn',
-    'creditcard',
-    'cardnumber',
-    'cvv',
-    'cvc',
-  ],
-  sensitiveHeaders: [
-    'authorization',
-    'cookie',
-    'set-cookie',
-    'x-api-key',
-    'x-auth-token',
-    'x-forwarded-for',
-  ],
+  // Added to the active RedactionPolicy, which holds the default keys, headers and patterns
+  redactionPatterns: [],
+  redactionRules: [],
+  sensitiveFields: [],
+  sensitiveHeaders: [],
   skipStatusCodes: [204, 304],
   verbose: false,
 };
@@ -227,13 +216,59 @@ export class ApiLoggerBuilder {
   }
 
   /**
-   * Add a custom redaction pattern
+   * Add a custom redaction pattern. `strategy` replaces matches with a digest
+   * or partial mask instead of `replacement`.
    */
-  addRedactionPattern(pattern: RegExp, replacement: string, fieldNames?: string[]): this {
+  addRedactionPattern(
+    pattern: RegExp,
+    replacement: string,
+    fieldNames?: string[],
+    strategy?: RedactionStrategy
+  ): this {
     if (!this.config.redactionPatterns) {
       this.config.redactionPatterns = [];
     }
-    this.config.redactionPatterns.push({ pattern, replacement, fieldNames });
+    this.config.redactionPatterns.push({ pattern, replacement, fieldNames, strategy });
+    return this;
+  }
+
+  /**
+   * Add a path rule for bodies and headers. Paths may start with 'body.' or 'headers.'.
+   *
+   * @example
+   * ```typescript
+   * const config = new ApiLoggerBuilder()
+   *   .addRedactionRule('body.user.*.ssn', 'mask')
+   *   .addRedactionRule('items[*].card.number', 'truncate', { length: 4 })
+   *   .addRedactionRule('headers.x-session-id', 'hash')
+   *   .build();
+   * ```
+   */
+  addRedactionRule(
+    path: string,
+    action: RedactionAction,
+    options?: Pick<RedactionRule, 'replacement' | 'length'>
+  ): this {
+    if (!this.config.redactionRules) {
+      this.config.redactionRules = [];
+    }
+    this.config.redactionRules.push({ path, action, ...options });
+    return this;
+  }
+
+  /**
+   * Add built-in detectors by name (see DETECTORS)
+   *
+   * @example
+   * ```typescript
+   * const config = new ApiLoggerBuilder().detectors('email', 'phone').build();
+   * ```
+   */
+  detectors(...names: DetectorName[]): this {
+    if (!this.config.redactionPatterns) {
+      this.config.redactionPatterns = [];
+    }
+    this.config.redactionPatterns.push(...getDetectors(names));
     return this;
   }
 
@@ -335,7 +370,7 @@ export class ApiLoggerBuilder {
    * Includes:
    * - Smaller 5KB max size for reduced overhead
    * - 3s timeout for faster failure detection
-   * - Comprehensive redaction patterns (SSN, credit cards, Bearer tokens)
+   * - Default detectors (cards, IBANs, tokens, keys) plus SSNs in free text
    * - Extended sensitive fields and headers redacted
    * - Never verbose in production
    * - Shallower 5-level depth for performance
@@ -357,19 +392,7 @@ export class ApiLoggerBuilder {
         'font/*',
         'multipart/form-data'
       )
-      .addRedactionPattern(/\b\d{3}[-.\s]?\d{2}[-.\s]?\d{4}\b/g, '[REDACTED-SSN]', [
-        'ssn',
-        'socialsecuritynumber',
-        'taxid',
-      ])
-      .addRedactionPattern(/\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, '[REDACTED-CARD]', [
-        'creditcard',
-        'cardnumber',
-        'ccnumber',
-      ])
-      .addRedactionPattern(/Bearer\s+[A-Za-z0-9\-._~+/]+=*/gi, 'Bearer [REDACTED]', [
-        'authorization',
-      ])
+      .detectors('ssn')
       .addSensitiveFields(
         'password',
         'token',
@@ -531,6 +554,10 @@ export class ApiLoggerBuilder {
         ...(DEFAULT_BODY_LOGGING_CONFIG.redactionPatterns ?? []),
         ...(this.config.redactionPatterns ?? []),
       ],
+      redactionRules: [
+        ...(DEFAULT_BODY_LOGGING_CONFIG.redactionRules ?? []),
+        ...(this.config.redactionRules ?? []),
+      ],
       sensitiveFields: [
         ...(DEFAULT_BODY_LOGGING_CONFIG.sensitiveFields ?? []),
         ...(this.config.sensitiveFields ?? []),
@@ -582,6 +609,8 @@ export class ApiLoggerBuilder {
     if (config.maxDepth !== undefined && (config.maxDepth < 1 || config.maxDepth > 100)) {
       throw new Error('maxDepth must be between 1 and 100');
     }
+
+    config.redactionRules?.forEach(rule => parseRedactionPath(rule.path));
   }
 }
 
@@ -704,80 +733,162 @@ function shouldSample(url: string, sampling: SamplingConfig): boolean {
 }
 
 /**
- * Apply all redaction patterns and field-based redaction to body
- * Handles circular references using WeakSet and depth limiting to prevent stack overflow
+ * Redact a body with the active RedactionPolicy extended by the config's
+ * sensitive fields, patterns and rules (rules may start with 'body.').
+ * With `report` or `dryRun`, returns the body with a report of what was
+ * (or would be) redacted.
+ *
+ * @example
+ * ```typescript
+ * const { report } = applyRedaction(samplePayload, config, { dryRun: true });
+ * ```
  */
 function applyRedaction(
   body: unknown,
   config: BodyLoggingConfig,
-  visited?: WeakSet<object>,
-  depth = 0
+  options: RedactionReportOptions & ({ report: true } | { dryRun: true })
+): RedactionResult;
+function applyRedaction(
+  body: unknown,
+  config: BodyLoggingConfig,
+  options?: RedactionReportOptions
+): unknown;
+function applyRedaction(
+  body: unknown,
+  config: BodyLoggingConfig,
+  options?: RedactionReportOptions
 ): unknown {
-  const maxDepth = config.maxDepth ?? 10;
+  const policy = policyFromBodyConfig(config);
 
-  // Check depth limit before processing
-  if (depth > maxDepth) {
-    return '[MAX_DEPTH_EXCEEDED]';
+  if (options?.report || options?.dryRun) {
+    return redactWithReport(body, policy, { root: 'body', dryRun: options.dryRun });
   }
 
-  if (!body || typeof body !== 'object') {
-    return body;
-  }
+  return applyRedactionPolicy(body, policy, 'body');
+}
 
-  // Initialize visited set for circular reference detection
-  if (!visited) {
-    visited = new WeakSet();
+/**
+ * Resolve the body logging config: the given config, else the environment
+ * when any LOG_BODY_* variable is set, else the defaults
+ */
+export function resolveBodyLoggingConfig(config?: BodyLoggingConfig): BodyLoggingConfig {
+  if (config) {
+    return config;
   }
 
-  // Check for circular reference
-  if (visited.has(body)) {
-    return '[REDACTED-CIRCULAR]';
+  if (process.env.LOG_BODY_ENABLED !== undefined || process.env.LOG_BODY_MAX_SIZE !== undefined) {
+    return new ApiLoggerBuilder().fromEnv().build();
   }
-  visited.add(body);
 
-  // Handle arrays
-  if (Array.isArray(body)) {
-    return body.map(item => applyRedaction(item, config, visited, depth));
-  }
+  return DEFAULT_BODY_LOGGING_CONFIG;
+}
 
-  // Handle special object types (Date, RegExp, etc.)
-  if (body instanceof Date) {
-    return body.toISOString();
+/**
+ * Prepare a body that is already in memory (e.g. captured by server middleware)
+ * for logging, with the same filters, size limit and redaction as response bodies.
+ * Pass `sampled: false` when the request lost the sampling draw.
+ */
+export function prepareBodyForLog(
+  body: unknown,
+  contentType: string,
+  config: BodyLoggingConfig,
+  options?: { status?: number; sampled?: boolean }
+): { body: unknown; truncated: boolean } | null {
+  if (!config.enabled || options?.sampled === false) {
+    return null;
   }
-  if (body instanceof RegExp) {
-    return body.source;
+
+  if (options?.status !== undefined && config.skipStatusCodes.includes(options.status)) {
+    return null;
   }
 
-  const redacted: Record<string, unknown> = {};
+  if (body === undefined || body === null || body === '') {
+    return null;
+  }
 
-  for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
-    const normalizedKey = key.toLowerCase();
+  if (!isContentTypeAllowed(contentType, config.contentTypeFilter)) {
+    return null;
+  }
 
-    // Check if field is in sensitive fields list
-    if (config.sensitiveFields.some(field => normalizedKey === field.toLowerCase())) {
-      redacted[key] = '[REDACTED]';
-      continue;
-    }
+  let value = body;
+  let truncated = false;
 
-    // Apply redaction patterns if field name matches
-    let redactedValue = value;
-    for (const pattern of config.redactionPatterns) {
-      if (!pattern.fieldNames || pattern.fieldNames.some(f => normalizedKey === f.toLowerCase())) {
-        if (typeof value === 'string') {
-          redactedValue = value.replace(pattern.pattern, pattern.replacement);
-        }
+  if (typeof value === 'string') {
+    // Parse JSON so field-based redaction applies; untyped bodies are sniffed
+    if (contentType.includes('json') || (!contentType && /^\s*[{[]/.test(value))) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        // Log malformed JSON as text
       }
     }
 
-    // Recursively process nested objects with depth tracking
-    if (typeof redactedValue === 'object' && redactedValue !== null) {
-      redacted[key] = applyRedaction(redactedValue, config, visited, depth + 1);
-    } else {
-      redacted[key] = redactedValue;
+    if (typeof value === 'string' && value.length > config.maxSize) {
+      value = `${value.slice(0, config.maxSize)}... [truncated]`;
+      truncated = true;
     }
   }
 
-  return redacted;
+  return { body: applyRedaction(value, config), truncated };
+}
+
+/**
+ * Read a request body for logging without consuming the original. Bodies
+ * declared over 2x maxSize are skipped; bodies of unknown length (requests
+ * built in code, chunked uploads) are read up to maxSize.
+ */
+export async function readRequestBodyForLog(
+  request: Request,
+  config: BodyLoggingConfig
+): Promise<string | undefined> {
+  const contentType = request.headers.get('content-type') ?? '';
+  const contentLength = Number(request.headers.get('content-length') ?? NaN);
+
+  if (
+    !config.enabled ||
+    !request.body ||
+    contentLength === 0 ||
+    contentLength > config.maxSize * 2 ||
+    !isContentTypeAllowed(contentType, config.contentTypeFilter)
+  ) {
+    return undefined;
+  }
+
+  try {
+    const clone = request.clone();
+    return Number.isFinite(contentLength)
+      ? await clone.text()
+      : await readCappedText(clone.body!, config.maxSize);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a body stream until just past `maxSize` bytes, then cancel it. Longer
+ * bodies come back over maxSize so formatting marks them truncated.
+ */
+async function readCappedText(body: ReadableStream<Uint8Array>, maxSize: number): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let size = 0;
+
+  try {
+    while (size <= maxSize) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return text + decoder.decode();
+      }
+      size += value.byteLength;
+      text += decoder.decode(value, { stream: true });
+    }
+    // A cloned body's cancel() settles only once the original is cancelled too
+    void reader.cancel();
+    return text;
+  } finally {
+    reader.releaseLock();
+  }
 }
 
 /**
@@ -900,82 +1011,116 @@ function redactHeadersWithConfig(
     return undefined;
   }
 
-  const redacted: Record<string, string> = {};
+  return redactHeadersWithPolicy(headers, policyFromBodyConfig(config));
+}
 
-  for (const [key, value] of Object.entries(headers)) {
-    const normalizedKey = key.toLowerCase();
-    if (config.sensitiveHeaders.some(h => normalizedKey === h.toLowerCase())) {
-      redacted[key] = '[REDACTED]';
-    } else {
-      redacted[key] = value;
-    }
+/**
+ * Redact sensitive data from headers (legacy function for backward compatibility)
+ */
+function redactHeaders(
+  headers: Record<string, string> | undefined
+): Record<string, string> | undefined {
+  if (!headers) {
+    return undefined;
   }
 
-  return redacted;
+  return redactHeadersWithConfig(headers, DEFAULT_BODY_LOGGING_CONFIG);
 }
 
 /**
- * Redact sensitive data from body based on config
+ * Redact sensitive data from body (legacy function for backward compatibility)
  */
-function redactBodyWithConfig(body: unknown, config: BodyLoggingConfig): unknown {
-  return applyRedaction(body, config);
+function redactBody(body: unknown): unknown {
+  return applyRedaction(body, DEFAULT_BODY_LOGGING_CONFIG);
 }
 
+// ============================================================================
+// Trace Context
+// ============================================================================
+
 /**
- * Redact sensitive data from headers (legacy function for backward compatibility)
+ * Find the trace an outbound call continues: an explicit traceparent header
+ * first, then the active request context
  */
-function redactHeaders(
-  headers: Record<string, string> | undefined
-): Record<string, string> | undefined {
-  if (!headers) {
-    return undefined;
+function resolveParentTrace(init?: RequestInit): TraceContext | null {
+  const headers = new Headers(init?.headers);
+  const fromHeaders = extractTraceContext(headers.get('traceparent'), headers.get('tracestate'));
+
+  if (fromHeaders) {
+    return fromHeaders;
   }
 
-  const redacted: Record<string, string> = {};
+  const context = getContext();
+  const traceState = typeof context?.tracestate === 'string' ? context.tracestate : undefined;
 
-  for (const [key, value] of Object.entries(headers)) {
-    const normalizedKey = key.toLowerCase();
-    if (DEFAULT_BODY_LOGGING_CONFIG.sensitiveHeaders.includes(normalizedKey)) {
-      redacted[key] = '[REDACTED]';
-    } else {
-      redacted[key] = value;
-    }
+  if (typeof context?.traceparent === 'string') {
+    return extractTraceContext(context.traceparent, traceState);
   }
 
-  return redacted;
+  if (typeof context?.traceId === 'string' && typeof context.spanId === 'string') {
+    const flags = typeof context.traceFlags === 'string' ? context.traceFlags : '01';
+    return extractTraceContext(`00-${context.traceId}-${context.spanId}-${flags}`, traceState);
+  }
+
+  return null;
 }
 
 /**
- * Redact sensitive data from body (legacy function for backward compatibility)
+ * Pick the trace fields of a request/response context for logging
  */
-function redactBody(body: unknown): unknown {
-  return applyRedaction(body, DEFAULT_BODY_LOGGING_CONFIG);
+function traceFields(context: Partial<Pick<TraceContext, 'traceId' | 'spanId' | 'parentSpanId'>>) {
+  return {
+    ...(context.traceId && { traceId: context.traceId }),
+    ...(context.spanId && { spanId: context.spanId }),
+    ...(context.parentSpanId && { parentSpanId: context.parentSpanId }),
+  };
 }
 
 // ============================================================================
 // API Logger Implementation
 // ============================================================================
 
+/**
+ * Options for createApiLogger
+ */
+export interface ApiLoggerOptions {
+  /** Logger name (default: 'api-logger') */
+  name?: string;
+  /** Redaction policy for logged context and headers, false to disable (default: active policy) */
+  redaction?: RedactionPolicy | false;
+}
+
 /**
  * API Logger implementation
  */
 class ApiLoggerImpl implements IApiLogger {
   private logger: IServerLogger;
-
-  constructor(options?: { name?: string }) {
-    this.logger = createServerLogger({
-      name: options?.name || 'api-logger',
-    });
+  private redaction?: RedactionPolicy | false;
+
+  constructor(options?: ApiLoggerOptions) {
+    this.redaction = options?.redaction;
+    // Derived from the root logger so every API logger shares its outputs
+    this.logger = getRootLogger().child(
+      {},
+      { name: options?.name || 'api-logger', redaction: options?.redaction }
+    );
   }
 
   logRequest(context: ApiRequestContext): void {
+    const policy = resolveRedactionPolicy(this.redaction);
+
     this.logger.info('API Request', {
       type: 'request',
       requestId: context.requestId,
       method: context.method,
       url: context.url,
-      headers: context.headers,
+      headers:
+        policy && context.headers
+          ? redactHeadersWithPolicy(context.headers, policy)
+          : context.headers,
       timestamp: context.timestamp,
+      ...traceFields(context),
+      ...(context.body !== undefined && { requestBody: context.body as object }),
     });
   }
 
@@ -988,6 +1133,7 @@ class ApiLoggerImpl implements IApiLogger {
       statusCode: context.statusCode,
       duration: context.duration,
       timestamp: context.timestamp,
+      ...traceFields(context),
       ...(context.body !== undefined && { responseBody: context.body as object }),
     });
   }
@@ -995,11 +1141,7 @@ class ApiLoggerImpl implements IApiLogger {
   logError(error: Error, context?: LogContext): void {
     this.logger.error('API Error', {
       type: 'error',
-      error: {
-        message: error.message,
-        name: error.name,
-        stack: error.stack,
-      },
+      error: serializeError(error, { stack: getConfig().includeStackTrace }),
       ...context,
     });
   }
@@ -1012,7 +1154,7 @@ class ApiLoggerImpl implements IApiLogger {
 /**
  * Create API logger instance
  */
-export function createApiLogger(options?: { name?: string }): IApiLogger {
+export function createApiLogger(options?: ApiLoggerOptions): IApiLogger {
   return new ApiLoggerImpl(options);
 }
 
@@ -1025,23 +1167,8 @@ export function createLoggedFetch(
 ): (input: RequestInfo | URL, init?: RequestInit) => Promise<Response> {
   const logger = options?.logger ?? createApiLogger({ name: 'fetch-logger' });
   const enabled = options?.enabled ?? true;
-
-  // Build body logging config from options or defaults
-  let bodyConfig: BodyLoggingConfig;
-
-  if (options?.bodyLoggingConfig) {
-    // Use provided config directly
-    bodyConfig = options.bodyLoggingConfig;
-  } else if (
-    process.env.LOG_BODY_ENABLED !== undefined ||
-    process.env.LOG_BODY_MAX_SIZE !== undefined
-  ) {
-    // Load from environment if any env var is set
-    bodyConfig = new ApiLoggerBuilder().fromEnv().build();
-  } else {
-    // Use default config
-    bodyConfig = DEFAULT_BODY_LOGGING_CONFIG;
-  }
+  const propagateTrace = options?.propagateTrace ?? true;
+  const bodyConfig = resolveBodyLoggingConfig(options?.bodyLoggingConfig);
 
   return async function loggedFetch(
     input: RequestInfo | URL,
@@ -1053,7 +1180,9 @@ export function createLoggedFetch(
 
     const url =
       typeof input === 'string' ? input : input instanceof Request ? input.url : input.toString();
-    const requestId = generateRequestId();
+    // Share the inbound request's ID so its logs and outbound calls correlate
+    const requestId = getContextRequestId() ?? generateRequestId();
+    const span = propagateTrace ? createChildSpan(resolveParentTrace(init)) : undefined;
     const startTime = getPerformanceNow();
 
     // Redact headers based on config
@@ -1067,8 +1196,13 @@ export function createLoggedFetch(
       method: init?.method ?? 'GET',
       url,
       headers,
-      body: redactBodyWithConfig(init?.body, bodyConfig),
+      body: prepareBodyForLog(
+        init?.body,
+        new Headers(init?.headers).get('content-type') ?? '',
+        bodyConfig
+      )?.body,
       timestamp: createTimestamp(),
+      ...(span && traceFields(span)),
     };
 
     logger.logRequest(requestContext);
@@ -1079,6 +1213,7 @@ export function createLoggedFetch(
         headers: {
           ...(init?.headers ?? {}),
           'X-Request-ID': requestId,
+          ...(span && toTraceHeaders(span)),
         },
       });
       const duration = getPerformanceNow() - startTime;
@@ -1094,6 +1229,7 @@ export function createLoggedFetch(
         duration,
         timestamp: createTimestamp(),
         body: parsedBody ? parsedBody.body : undefined,
+        ...(span && traceFields(span)),
       };
 
       logger.logResponse(responseContext);
@@ -1107,6 +1243,7 @@ export function createLoggedFetch(
         method: requestContext.method,
         url: requestContext.url,
         duration,
+        ...(span && traceFields(span)),
       });
 
       throw error;
@@ -1115,82 +1252,156 @@ export function createLoggedFetch(
 }
 
 /**
- * Create fetch interceptors for manual integration
+ * Create fetch interceptor hooks for HTTP clients with request/response/error
+ * hooks (e.g. ky). Produces the same request, response and error entries as
+ * createLoggedFetch; timing state is kept per Request returned by request()
+ * until response() or error() is called with it.
+ *
+ * @example
+ * ```typescript
+ * const interceptor = createFetchInterceptor({ bodyLoggingConfig });
+ *
+ * const api = ky.create({
+ *   hooks: {
+ *     beforeRequest: [request => interceptor.request(request)],
+ *     afterResponse: [(request, _options, response) => interceptor.response(response, request)],
+ *     beforeError: [async error => {
+ *       await interceptor.error(error, error.request);
+ *       return error;
+ *     }],
+ *   },
+ * });
+ * ```
  */
-export function createFetchInterceptor(options?: { logger?: IApiLogger; enabled?: boolean }): {
-  request: InterceptorFunction;
-  response: InterceptorFunction;
-  error: InterceptorFunction;
-} {
+export function createFetchInterceptor(options?: FetchInterceptorOptions): FetchInterceptor {
   const logger = options?.logger ?? createApiLogger({ name: 'interceptor' });
   const enabled = options?.enabled ?? true;
+  const propagateTrace = options?.propagateTrace ?? true;
+  const maxPending = options?.maxPending ?? 1000;
+  const bodyConfig = resolveBodyLoggingConfig(options?.bodyLoggingConfig);
+  // Keyed by the Request object, not X-Request-ID: concurrent requests in one
+  // context share the inbound request ID
+  const pending = new Map<
+    Request,
+    { requestId: string; startTime: number; method: string; url: string; span?: TraceContext }
+  >();
 
-  const request: InterceptorFunction = async (url: string, options?: RequestInit) => {
-    if (!enabled) {
-      return { url, options };
-    }
-
-    const requestId = generateRequestId();
+  /**
+   * Take the timing state of a request sent through request()
+   */
+  const take = (request: Request) => {
+    const state = pending.get(request);
 
-    logger.logRequest({
-      requestId,
-      method: options?.method ?? 'GET',
-      url,
-      headers: redactHeaders((options?.headers as Record<string, string>) ?? {}),
-      body: redactBody(options?.body),
-      timestamp: createTimestamp(),
-    });
+    if (!state) {
+      return null;
+    }
 
-    return {
-      url,
-      options: {
-        ...options,
-        headers: {
-          ...(options?.headers ?? {}),
-          'X-Request-ID': requestId,
-        },
-      },
-    };
+    pending.delete(request);
+    return { ...state, duration: getPerformanceNow() - state.startTime };
   };
 
-  const response: InterceptorFunction = async (url: string, options?: RequestInit) => {
-    if (!enabled) {
-      return { url, options };
-    }
+  return {
+    async request(request: Request): Promise<Request> {
+      if (!enabled) {
+        return request;
+      }
 
-    const requestId = (options?.headers as Record<string, string>)?.['X-Request-ID'];
+      const requestId = getContextRequestId() ?? generateRequestId();
+      const span = propagateTrace
+        ? createChildSpan(resolveParentTrace({ headers: request.headers }))
+        : undefined;
 
-    if (requestId) {
-      logger.logResponse({
+      const requestHeaders: Record<string, string> = {};
+      request.headers.forEach((value, key) => {
+        requestHeaders[key] = value;
+      });
+
+      logger.logRequest({
         requestId,
-        method: options?.method ?? 'GET',
-        url,
+        method: request.method,
+        url: request.url,
+        headers:
+          options?.redactHeaders !== false
+            ? redactHeadersWithConfig(requestHeaders, bodyConfig)
+            : requestHeaders,
+        body: prepareBodyForLog(
+          await readRequestBodyForLog(request, bodyConfig),
+          request.headers.get('content-type') ?? '',
+          bodyConfig
+        )?.body,
         timestamp: createTimestamp(),
-      } as ApiResponseContext);
-    }
-
-    return { url, options };
-  };
+        ...(span && traceFields(span)),
+      });
 
-  const error: InterceptorFunction = async (url: string, options?: RequestInit) => {
-    if (!enabled) {
-      return { url, options };
-    }
+      const headers = new Headers(request.headers);
+      headers.set('X-Request-ID', requestId);
+      if (span) {
+        for (const [name, value] of Object.entries(toTraceHeaders(span))) {
+          headers.set(name, value);
+        }
+      }
 
-    const requestId = (options?.headers as Record<string, string>)?.['X-Request-ID'];
+      const outgoing = new Request(request, { headers });
 
-    if (requestId) {
-      logger.logError(new Error('Fetch failed'), {
+      pending.set(outgoing, {
         requestId,
-        method: options?.method ?? 'GET',
-        url,
+        startTime: getPerformanceNow(),
+        method: request.method,
+        url: request.url,
+        span,
       });
-    }
 
-    return { url, options };
-  };
+      // Requests that never reach response() or error() must not pile up
+      while (pending.size > maxPending) {
+        const oldest = pending.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        pending.delete(oldest);
+      }
+
+      return outgoing;
+    },
+
+    async response(response: Response, request: Request): Promise<Response> {
+      const state = enabled ? take(request) : null;
+
+      if (!state) {
+        return response;
+      }
 
-  return { request, response, error };
+      const parsedBody = await parseResponseBodyForLog(response, bodyConfig, state.url);
+
+      logger.logResponse({
+        requestId: state.requestId,
+        method: state.method,
+        url: state.url,
+        statusCode: response.status,
+        duration: state.duration,
+        timestamp: createTimestamp(),
+        body: parsedBody ? parsedBody.body : undefined,
+        ...(state.span && traceFields(state.span)),
+      });
+
+      return response;
+    },
+
+    async error(error: unknown, request: Request): Promise<void> {
+      const state = enabled ? take(request) : null;
+
+      if (!state) {
+        return;
+      }
+
+      logger.logError(error instanceof Error ? error : new Error(String(error)), {
+        requestId: state.requestId,
+        method: state.method,
+        url: state.url,
+        duration: state.duration,
+        ...(state.span && traceFields(state.span)),
+      });
+    },
+  };
 }
 
 /**
@@ -1202,7 +1413,7 @@ export async function timeApiCall<T>(
   logger?: IServerLogger,
   context?: LogContext
 ): Promise<T> {
-  const log = logger ?? createServerLogger({ name: 'perf' });
+  const log = logger ?? getRootLogger().child({}, { name: 'perf' });
   const startTime = getPerformanceNow();
 
   log.info(`${operation} started`, context);
@@ -1238,4 +1449,14 @@ export async function timeApiCall<T>(
 // ============================================================================
 
 export default createApiLogger;
-export { ApiLoggerImpl, DEFAULT_BODY_LOGGING_CONFIG, redactHeaders, redactBody, applyRedaction };
+export {
+  ApiLoggerImpl,
+  DEFAULT_BODY_LOGGING_CONFIG,
+  redactHeaders,
+  redactBody,
+  applyRedaction,
+  parseResponseBodyForLog,
+  redactHeadersWithConfig,
+  isContentTypeAllowed,
+  shouldSample,
+};
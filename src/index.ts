@@ -42,17 +42,21 @@
  */
 
 import { browserLogger, createBrowserLogger } from './browser';
+import { getOrCreateLogger } from './registry';
 import { perf } from './timing';
 import type { LogContext, LogLevel, IBrowserLogger, IServerLogger } from './types';
 export { perf as performance } from './timing';
 
-let _serverLogger: IServerLogger | null = null;
-
 /**
- * Create a logger instance
+ * Get a named logger
  * - In browser: returns browser logger (console + localStorage)
  * - In server: returns Winston logger (file rotation with daily logs)
  *
+ * Loggers are kept in a registry, so the same name and level return the same
+ * instance. Named server loggers derive from the root logger and share its
+ * outputs; their name is written to each entry's `logger` field. The level follows
+ * `levels` patterns from the config (e.g. LOG_LEVELS="db=debug,api:*=warn,*=info").
+ *
  * @param options - Logger configuration
  * @returns Logger instance
  *
@@ -75,25 +79,26 @@ export function logger(options?: {
 }): IBrowserLogger | IServerLogger {
   if (typeof window !== 'undefined') {
     // Browser environment
-    return createBrowserLogger({
-      consoleEnabled: true,
-      persistenceEnabled: true,
-      maxEntries: 100,
-      storageKey: 'glean_api_logs',
-    });
+    const name = options?.name ?? 'browser';
+    return getOrCreateLogger(name, options?.level, () =>
+      createBrowserLogger({
+        name,
+        level: options?.level,
+        consoleEnabled: true,
+        persistenceEnabled: true,
+        maxEntries: 100,
+        storageKey: 'glean_api_logs',
+      })
+    );
   }
 
   // Server environment - use Winston
   // Lazy load to prevent bundling Winston in client
-  if (!_serverLogger) {
-    const { createServerLogger } = require('./server');
-    _serverLogger = createServerLogger({
-      name: options?.name ?? 'server',
-      level: options?.level,
-    });
-  }
-
-  return _serverLogger!;
+  const name = options?.name ?? 'server';
+  return getOrCreateLogger<IServerLogger>(name, options?.level, () => {
+    const { getRootLogger } = require('./server');
+    return getRootLogger().child({}, { name, level: options?.level });
+  });
 }
 
 /**
@@ -123,9 +128,8 @@ export function child(context: LogContext): IServerLogger | null {
     return null;
   }
 
-  const { createServerLogger } = require('./server');
-  const parent = createServerLogger({ name: 'parent' });
-  return parent.child(context);
+  const { getRootLogger } = require('./server');
+  return getRootLogger().child(context);
 }
 
 /**
@@ -248,3 +252,359 @@ export { ApiLoggerBuilder } from './http';
 export { createLoggedFetch } from './http';
 export { createApiLogger } from './http';
 export type { BodyLoggingConfig } from './types';
+
+/**
+ * Redact a body as body logging would, optionally with a report
+ *
+ * @example
+ * ```typescript
+ * import { applyRedaction, ApiLoggerBuilder } from '@zaob/glean-logger';
+ *
+ * const config = new ApiLoggerBuilder().production().build();
+ * const { report } = applyRedaction(samplePayload, config, { dryRun: true });
+ * console.table(report.entries);
+ * ```
+ */
+export { applyRedaction } from './http';
+
+/**
+ * Fetch interceptor hooks for HTTP clients with request/response/error hooks
+ *
+ * @example
+ * ```typescript
+ * import { createFetchInterceptor } from '@zaob/glean-logger';
+ *
+ * const interceptor = createFetchInterceptor();
+ * const request = await interceptor.request(new Request('https://api.example.com/users'));
+ * try {
+ *   await interceptor.response(await fetch(request), request);
+ * } catch (error) {
+ *   await interceptor.error(error, request);
+ * }
+ * ```
+ */
+export { createFetchInterceptor } from './http';
+export type { FetchInterceptor, FetchInterceptorOptions } from './types';
+
+/**
+ * Create a browser logger with custom options, e.g. shipping to a server endpoint
+ *
+ * @example
+ * ```typescript
+ * import { createBrowserLogger } from '@zaob/glean-logger';
+ *
+ * const log = createBrowserLogger({ endpoint: '/api/logs' });
+ * ```
+ */
+export { createBrowserLogger } from './browser';
+export type { BrowserLoggerOptions } from './browser';
+export type { Breadcrumb, CaptureBreadcrumbsOptions, CaptureGlobalErrorsOptions } from './types';
+
+/**
+ * Storage backends for browser log persistence
+ *
+ * @example
+ * ```typescript
+ * import { createBrowserLogger, createIndexedDbLogStorage } from '@zaob/glean-logger';
+ *
+ * const log = createBrowserLogger({
+ *   storage: createIndexedDbLogStorage({ maxBytes: 2 * 1024 * 1024 }),
+ *   endpoint: '/api/logs',
+ * });
+ * ```
+ */
+export {
+  createIndexedDbLogStorage,
+  createLocalStorageLogStorage,
+  createMemoryLogStorage,
+  createSessionStorageLogStorage,
+} from './storage';
+export type {
+  IndexedDbLogStorageOptions,
+  MemoryLogStorageOptions,
+  WebStorageLogStorageOptions,
+} from './storage';
+export type { BrowserLogStorage } from './types';
+
+/**
+ * Server-side handler that re-emits browser log batches sent by flush()
+ *
+ * @example
+ * ```typescript
+ * import { createLogIngestHandler } from '@zaob/glean-logger';
+ *
+ * const ingest = createLogIngestHandler();
+ * export const POST = (request: Request) => ingest.handle(request);
+ * ```
+ */
+export { createLogIngestHandler } from './ingest';
+export type { LogIngestOptions, IngestResult, ILogIngestHandler } from './ingest';
+
+/**
+ * Create a server logger with explicit outputs
+ *
+ * @example
+ * ```typescript
+ * import { createServerLogger, ConsoleTransport, RotatingFileTransport } from '@zaob/glean-logger';
+ *
+ * const log = createServerLogger({
+ *   name: 'api',
+ *   transports: [
+ *     new ConsoleTransport({ level: 'info' }),
+ *     new RotatingFileTransport({ dirname: './_logs', filename: 'api', maxSize: 10 * 1024 * 1024 }),
+ *   ],
+ * });
+ * ```
+ */
+export { createServerLogger, getRootLogger } from './server';
+export type { ServerLoggerOptions } from './server';
+export type { ChildLoggerOptions } from './types';
+export { ConsoleTransport, MemoryTransport, HttpTransport } from './transports';
+export type { MemoryTransportOptions, HttpTransportOptions } from './transports';
+export { FileTransport, RotatingFileTransport } from './file-transports';
+export type { FileTransportOptions, RotatingFileTransportOptions } from './file-transports';
+export type { Transport, TransportOptions, LogRecord, LogFormatter } from './types';
+
+/**
+ * Flush and close loggers on SIGTERM/SIGINT/beforeExit
+ *
+ * @example
+ * ```typescript
+ * import { createServerLogger, installShutdownHooks } from '@zaob/glean-logger';
+ *
+ * const log = createServerLogger({ name: 'api' });
+ * installShutdownHooks(log, { timeout: 3000 });
+ * ```
+ */
+export { installShutdownHooks, shutdownLoggers } from './shutdown';
+export type { ShutdownHookOptions, ShutdownReport } from './shutdown';
+
+/**
+ * Request-scoped context merged into every server log entry
+ *
+ * @example
+ * ```typescript
+ * import { createServerLogger, runWithContext } from '@zaob/glean-logger';
+ *
+ * const log = createServerLogger({ name: 'api' });
+ *
+ * await runWithContext({ requestId: 'req-123', userId: 42 }, async () => {
+ *   log.info('Handling request'); // includes requestId and userId
+ * });
+ * ```
+ */
+export { runWithContext, getContext } from './context';
+
+/**
+ * W3C Trace Context helpers. createLoggedFetch sends a child traceparent on
+ * every call and logs its traceId/spanId/parentSpanId.
+ *
+ * @example
+ * ```typescript
+ * import { extractTraceContext, runWithContext, loggedFetch } from '@zaob/glean-logger';
+ *
+ * const parent = extractTraceContext(req.headers.traceparent, req.headers.tracestate);
+ * await runWithContext({ traceId: parent?.traceId, spanId: parent?.spanId }, () =>
+ *   loggedFetch()('https://api.example.com/users')
+ * );
+ * ```
+ */
+export {
+  createChildSpan,
+  extractTraceContext,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+  parseTracestate,
+  toTraceHeaders,
+} from './trace';
+export type { TraceContext } from './trace';
+
+/**
+ * OpenTelemetry Logs data model mapping and OTLP/HTTP JSON export
+ *
+ * @example
+ * ```typescript
+ * import { createServerLogger, OtlpTransport } from '@zaob/glean-logger';
+ *
+ * const log = createServerLogger({
+ *   transports: [new OtlpTransport({ url: 'http://collector:4318/v1/logs', serviceName: 'api' })],
+ * });
+ * ```
+ */
+export {
+  OtlpTransport,
+  getSeverityNumber,
+  toOtlpLogRecord,
+  toOtlpLogsRequest,
+  toOtlpResource,
+} from './otel';
+export type {
+  OtlpTransportOptions,
+  OtlpResourceOptions,
+  OtlpLogRecord,
+  OtlpLogsRequest,
+  OtlpAnyValue,
+  OtlpKeyValue,
+} from './otel';
+
+/**
+ * Inbound request logging for Express, Fastify, Koa and Next.js route handlers
+ *
+ * @example
+ * ```typescript
+ * import { createExpressMiddleware } from '@zaob/glean-logger';
+ *
+ * app.use(express.json());
+ * app.use(createExpressMiddleware({ bodyLoggingConfig }));
+ * ```
+ */
+export {
+  createExpressMiddleware,
+  createFastifyPlugin,
+  createKoaMiddleware,
+  withRequestLogging,
+} from './middleware';
+export type {
+  RequestLoggingOptions,
+  NodeRequestLike,
+  NodeResponseLike,
+  KoaContextLike,
+  FastifyInstanceLike,
+  FastifyRequestLike,
+  FastifyReplyLike,
+} from './middleware';
+
+/**
+ * Redaction policy shared by every logger and by body logging
+ *
+ * @example
+ * ```typescript
+ * import { createRedactionPolicy, setRedactionPolicy, PII_PATTERNS } from '@zaob/glean-logger';
+ *
+ * setRedactionPolicy(createRedactionPolicy({ patterns: PII_PATTERNS }));
+ * ```
+ */
+export {
+  applyRedactionPolicy,
+  createRedactionConfig,
+  createRedactionPolicy,
+  getRedactionPolicy,
+  partialMask,
+  redact,
+  redactWithReport,
+  setRedactionPolicy,
+  DEFAULT_REDACTION_POLICY,
+  DEFAULT_PATTERNS,
+  PII_PATTERNS,
+} from './redact';
+export { DETECTORS, DEFAULT_DETECTORS, PII_DETECTORS, getDetectors } from './detectors';
+export type {
+  RedactionPolicy,
+  RedactionPattern,
+  RedactionRule,
+  RedactionAction,
+  RedactionStrategy,
+  RedactionReport,
+  RedactionReportEntry,
+  RedactionReportOptions,
+  RedactionResult,
+  RedactionStats,
+  DetectorName,
+} from './types';
+export type { ApiLoggerOptions } from './http';
+
+/**
+ * Layered configuration: defaults, glean-logger.config.{json,js,ts},
+ * GLEAN_LOG_* environment variables, then programmatic overrides
+ *
+ * @example
+ * ```typescript
+ * import { configure, getEffectiveConfig, loadConfig } from '@zaob/glean-logger';
+ *
+ * await loadConfig(); // reads glean-logger.config.* from the working directory
+ * configure({ level: 'warn' });
+ * getEffectiveConfig().level; // { value: 'warn', source: 'override' }
+ * ```
+ */
+export {
+  configure,
+  defineConfig,
+  getConfig,
+  getEffectiveConfig,
+  reloadConfig,
+  CONFIG_ENV_VARS,
+  ENV_PREFIX,
+} from './config';
+export { loadConfig, findConfigFile, watchConfigFile, CONFIG_FILE_NAMES } from './config-loader';
+export type { LoadConfigOptions, WatchConfigOptions } from './config-loader';
+export type { ConfigSource, EffectiveConfig, LoggerConfig, LoggerConfigInput } from './types';
+
+/**
+ * Runtime log levels: change the level of live loggers without a restart,
+ * globally or by logger name, with optional auto-revert
+ *
+ * @example
+ * ```typescript
+ * import { onLevelChange, setLevel, startLevelAdminServer } from '@zaob/glean-logger';
+ *
+ * setLevel('debug', { logger: 'payments', ttl: 15 * 60 * 1000 });
+ * onLevelChange(change => console.log(change));
+ * await startLevelAdminServer({ port: 9464, token: process.env.LOG_ADMIN_TOKEN });
+ * ```
+ */
+export {
+  setLevel,
+  clearLevel,
+  getLevel,
+  getLevelOverrides,
+  onLevelChange,
+  resetLevels,
+} from './levels';
+export { matchNamespace, parseLevelSpec } from './namespaces';
+export { serializeError, isError, setStackFrameResolver } from './errors';
+export type { SerializedError, SerializeErrorOptions, StackFrameResolver } from './errors';
+export { parseStack } from './stack';
+export type { StackFrame } from './stack';
+export { getLoggerNames } from './registry';
+export type {
+  LevelChange,
+  LevelChangeListener,
+  LevelChangeSource,
+  SetLevelOptions,
+} from './levels';
+export { createLevelAdminHandler, startLevelAdminServer } from './admin';
+export type {
+  ILevelAdminHandler,
+  LevelAdminOptions,
+  LevelAdminResult,
+  LevelAdminServer,
+  LevelAdminServerOptions,
+} from './admin';
+
+/**
+ * Source maps: resolve stack frames of server errors and ingested browser
+ * errors to their original sources using local .map files
+ *
+ * @example
+ * ```typescript
+ * import { createSourceMapResolver, installSourceMapSupport } from '@zaob/glean-logger';
+ *
+ * installSourceMapSupport(); // every serialized server error gets original frames
+ *
+ * const ingest = createLogIngestHandler({
+ *   sourceMaps: createSourceMapResolver({
+ *     urlRoots: { 'https://app.example.com/_next/': '.next/' },
+ *     localFiles: false,
+ *   }),
+ * });
+ * ```
+ */
+export { createSourceMapResolver, installSourceMapSupport, parseSourceMap } from './source-maps';
+export type {
+  OriginalPosition,
+  SourceMap,
+  SourceMapResolver,
+  SourceMapResolverOptions,
+} from './source-maps';
@@ -0,0 +1,286 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Browser Log Ingestion
+ *
+ * Server-side companion to the browser logger's flush(). Accepts batches of
+ * BrowserLogEntry objects and re-emits them through a server logger.
+ *
+ * Provides:
+ * - Validation against BROWSER_LOG_ENTRY_SCHEMA
+ * - Re-redaction of entry context
+ * - Batch size and byte limits
+ * - De-duplication by entry id (beacon deliveries may repeat)
+ * - Optional source map resolution of error stacks
+ * - Fetch Request → Response handler for Next.js routes, plain ingest() for Express
+ */
+
+import { redactContext } from './redact';
+import { validateBrowserLogEntry } from './schema';
+import { getRootLogger } from './server';
+import type { SourceMapResolver } from './source-maps';
+import type { BrowserLogEntry, IServerLogger, LogContext } from './types';
+
+/**
+ * Default maximum number of entries accepted per request
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * Default maximum request body size in bytes (256KB)
+ */
+const MAX_BYTES = 256 * 1024;
+
+/**
+ * Default number of entry ids remembered for de-duplication
+ */
+const DEDUPE_WINDOW = 10000;
+
+/**
+ * Options for the ingestion handler
+ */
+export interface LogIngestOptions {
+  /** Logger that receives the re-emitted entries (default: server logger named 'browser') */
+  logger?: IServerLogger;
+  /** Maximum number of entries per request (default: 100) */
+  maxBatchSize?: number;
+  /** Maximum request body size in bytes (default: 256KB) */
+  maxBytes?: number;
+  /** Number of recent entry ids remembered for de-duplication (default: 10000) */
+  dedupeWindow?: number;
+  /** Resolves stack frames of errors in entry context through source maps */
+  sourceMaps?: SourceMapResolver;
+}
+
+/**
+ * Outcome of ingesting one batch
+ */
+export interface IngestResult {
+  /** HTTP status code to answer with */
+  status: number;
+  /** Number of entries re-emitted */
+  accepted: number;
+  /** Number of entries skipped because their id was already seen */
+  duplicates: number;
+  /** Entries that failed validation, by position in the batch */
+  rejected: Array<{ index: number; errors: string[] }>;
+  /** Number of entries that failed validation and were dropped */
+  rejectedCount: number;
+  /** Reason the whole batch was refused */
+  error?: string;
+}
+
+/**
+ * Ingestion handler interface
+ */
+export interface ILogIngestHandler {
+  /** Handle a Fetch API request (Next.js route handlers, Hono, workers) */
+  handle(request: Request): Promise<Response>;
+  /** Ingest an already-parsed payload (Express with express.json()) */
+  ingest(payload: unknown, byteLength?: number): IngestResult;
+}
+
+/**
+ * Ingestion handler implementation
+ */
+class LogIngestHandlerImpl implements ILogIngestHandler {
+  private logger: IServerLogger | null;
+  private maxBatchSize: number;
+  private maxBytes: number;
+  private dedupeWindow: number;
+  private sourceMaps?: SourceMapResolver;
+  private seenIds = new Set<string>();
+
+  constructor(options?: LogIngestOptions) {
+    this.logger = options?.logger ?? null;
+    this.maxBatchSize = options?.maxBatchSize ?? MAX_BATCH_SIZE;
+    this.maxBytes = options?.maxBytes ?? MAX_BYTES;
+    this.dedupeWindow = options?.dedupeWindow ?? DEDUPE_WINDOW;
+    this.sourceMaps = options?.sourceMaps;
+  }
+
+  async handle(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return this.respond(this.refuse(405, 'Method not allowed'));
+    }
+
+    // Reject oversized bodies before reading them when the client declares a length
+    const contentLength = parseInt(request.headers.get('content-length') ?? '', 10);
+    if (!isNaN(contentLength) && contentLength > this.maxBytes) {
+      return this.respond(this.refuse(413, `Payload exceeds ${this.maxBytes} bytes`));
+    }
+
+    let text: string;
+    try {
+      text = await request.text();
+    } catch {
+      return this.respond(this.refuse(400, 'Unable to read request body'));
+    }
+
+    const byteLength = new TextEncoder().encode(text).length;
+    if (byteLength > this.maxBytes) {
+      return this.respond(this.refuse(413, `Payload exceeds ${this.maxBytes} bytes`));
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      return this.respond(this.refuse(400, 'Request body must be valid JSON'));
+    }
+
+    return this.respond(this.ingest(payload, byteLength));
+  }
+
+  ingest(payload: unknown, byteLength?: number): IngestResult {
+    const size = byteLength ?? new TextEncoder().encode(JSON.stringify(payload) ?? '').length;
+    if (size > this.maxBytes) {
+      return this.refuse(413, `Payload exceeds ${this.maxBytes} bytes`);
+    }
+
+    // Accept both a bare array and the { entries } envelope sent by flush()
+    const entries = Array.isArray(payload)
+      ? payload
+      : payload && typeof payload === 'object'
+        ? (payload as { entries?: unknown }).entries
+        : undefined;
+
+    if (!Array.isArray(entries)) {
+      return this.refuse(400, 'Expected an array of log entries or { entries: [...] }');
+    }
+
+    if (entries.length > this.maxBatchSize) {
+      return this.refuse(413, `Batch exceeds ${this.maxBatchSize} entries`);
+    }
+
+    const result: IngestResult = {
+      status: 200,
+      accepted: 0,
+      duplicates: 0,
+      rejected: [],
+      rejectedCount: 0,
+    };
+
+    entries.forEach((candidate, index) => {
+      const validation = validateBrowserLogEntry(candidate);
+      if (!validation.valid) {
+        result.rejected.push({ index, errors: validation.errors });
+        return;
+      }
+
+      const entry = candidate as BrowserLogEntry;
+      if (this.seenIds.has(entry.id)) {
+        result.duplicates++;
+        return;
+      }
+
+      this.remember(entry.id);
+      this.emit(entry);
+      result.accepted++;
+    });
+
+    result.rejectedCount = result.rejected.length;
+
+    // Nothing usable: fail the request so the loss is not mistaken for delivery
+    if (result.rejectedCount > 0 && result.accepted === 0 && result.duplicates === 0) {
+      result.status = 400;
+      result.error = `All ${result.rejectedCount} log entries failed validation`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-emit a validated entry through the server logger
+   */
+  private emit(entry: BrowserLogEntry): void {
+    const context = redactContext(entry.context) ?? {};
+
+    if (this.sourceMaps) {
+      for (const value of Object.values(context)) {
+        if (value && typeof value === 'object' && ('stack' in value || 'frames' in value)) {
+          this.sourceMaps.resolveError(value);
+        }
+      }
+    }
+
+    // The default logger is created on first use, sharing the root logger's outputs
+    this.logger ??= getRootLogger().child({}, { name: 'browser' });
+    this.logger[entry.level](entry.message, {
+      ...context,
+      source: 'browser',
+      browserLogId: entry.id,
+      browserTimestamp: new Date(entry.timestamp).toISOString(),
+    });
+  }
+
+  /**
+   * Record an id, evicting the oldest once the window is full
+   */
+  private remember(id: string): void {
+    this.seenIds.add(id);
+
+    if (this.seenIds.size > this.dedupeWindow) {
+      const oldest = this.seenIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenIds.delete(oldest);
+      }
+    }
+  }
+
+  private refuse(status: number, error: string): IngestResult {
+    return { status, accepted: 0, duplicates: 0, rejected: [], rejectedCount: 0, error };
+  }
+
+  private respond(result: IngestResult): Response {
+    return new Response(JSON.stringify(result), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+/**
+ * Create an ingestion handler for browser log batches
+ *
+ * @example
+ * ```typescript
+ * // Next.js: app/api/logs/route.ts
+ * const ingest = createLogIngestHandler({ logger: logger({ name: 'browser' }) });
+ * export const POST = (request: Request) => ingest.handle(request);
+ *
+ * // Express
+ * app.post('/api/logs', express.json(), (req, res) => {
+ *   const result = ingest.ingest(req.body);
+ *   res.status(result.status).json(result);
+ * });
+ * ```
+ */
+export function createLogIngestHandler(options?: LogIngestOptions): ILogIngestHandler {
+  return new LogIngestHandlerImpl(options);
+}
+
+export default createLogIngestHandler;
+export { LogIngestHandlerImpl };
@@ -0,0 +1,280 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Runtime Log Levels
+ *
+ * Changes log levels of live loggers without a restart. A level set for a
+ * logger name wins over the global runtime level, which wins over the
+ * configured levels, the logger's own level option and the configured level.
+ *
+ * Provides:
+ * - setLevel()/clearLevel(), globally or per logger name
+ * - Auto-revert after a TTL
+ * - onLevelChange() subscriptions
+ */
+
+import { getConfig } from './config';
+import { findNamespaceLevel } from './namespaces';
+import { isLogLevel } from './types';
+import type { LogLevel } from './types';
+
+/**
+ * Where a level change came from
+ */
+export type LevelChangeSource = 'api' | 'file' | 'admin' | 'ttl';
+
+/**
+ * A runtime level change
+ */
+export interface LevelChange {
+  /** Logger name, or undefined for the global level */
+  logger?: string;
+  /** Effective level after the change */
+  level: LogLevel;
+  /** Effective level before the change */
+  previous: LogLevel;
+  /** What triggered the change */
+  source: LevelChangeSource;
+}
+
+/**
+ * Options for setLevel
+ */
+export interface SetLevelOptions {
+  /** Only change loggers with this name or name pattern, e.g. 'api:*' (default: every logger) */
+  logger?: string;
+  /** Revert to the previous level after this many ms */
+  ttl?: number;
+  /** What triggered the change, reported to listeners (default: 'api') */
+  source?: LevelChangeSource;
+}
+
+export type LevelChangeListener = (change: LevelChange) => void;
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Key used for the global level in the maps below
+ */
+const GLOBAL = '';
+
+const overrides = new Map<string, LogLevel>();
+
+/**
+ * Pending TTL reverts, with the override to restore
+ */
+const reverts = new Map<
+  string,
+  { timer: ReturnType<typeof setTimeout>; restore: LogLevel | undefined }
+>();
+
+const listeners = new Set<LevelChangeListener>();
+
+function emit(change: LevelChange): void {
+  for (const listener of listeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.warn('[Levels] Level change listener failed:', error);
+    }
+  }
+}
+
+function cancelRevert(key: string): void {
+  const pending = reverts.get(key);
+  if (pending) {
+    clearTimeout(pending.timer);
+    reverts.delete(key);
+  }
+}
+
+/**
+ * Replace the override for a key and notify listeners when the effective level changed
+ */
+function applyOverride(key: string, level: LogLevel | undefined, source: LevelChangeSource): void {
+  const logger = key === GLOBAL ? undefined : key;
+  const previous = getLevel(logger);
+
+  if (level) {
+    overrides.set(key, level);
+  } else {
+    overrides.delete(key);
+  }
+
+  const current = getLevel(logger);
+  if (current !== previous) {
+    emit({ ...(logger !== undefined && { logger }), level: current, previous, source });
+  }
+}
+
+// ============================================================================
+// API
+// ============================================================================
+
+/**
+ * Set the level of every logger, or of the loggers with a given name.
+ * With a TTL the previous level comes back automatically; repeated calls
+ * while a revert is pending keep the original level as the revert target.
+ *
+ * @throws Error when the level is not a valid log level
+ *
+ * @example
+ * ```typescript
+ * setLevel('debug', { logger: 'payments', ttl: 15 * 60 * 1000 });
+ * ```
+ */
+export function setLevel(level: LogLevel, options?: SetLevelOptions): void {
+  if (!isLogLevel(level)) {
+    throw new Error(`Invalid log level: ${String(level)}`);
+  }
+
+  const key = options?.logger ?? GLOBAL;
+  const pending = reverts.get(key);
+  const restore = pending ? pending.restore : overrides.get(key);
+
+  cancelRevert(key);
+  applyOverride(key, level, options?.source ?? 'api');
+
+  if (options?.ttl !== undefined && options.ttl > 0) {
+    const timer = setTimeout(() => {
+      reverts.delete(key);
+      applyOverride(key, restore, 'ttl');
+    }, options.ttl);
+
+    // A pending revert must not keep a Node.js process alive
+    (timer as { unref?: () => void }).unref?.();
+    reverts.set(key, { timer, restore });
+  }
+}
+
+/**
+ * Remove the runtime level of every logger, or of a logger name
+ */
+export function clearLevel(options?: { logger?: string; source?: LevelChangeSource }): void {
+  const key = options?.logger ?? GLOBAL;
+
+  cancelRevert(key);
+  applyOverride(key, undefined, options?.source ?? 'api');
+}
+
+/**
+ * Get the runtime level set for a logger name (or globally), if any
+ */
+export function getLevelOverride(logger?: string): LogLevel | undefined {
+  return overrides.get(logger ?? GLOBAL);
+}
+
+/**
+ * Resolve the effective level of a logger, first match wins:
+ * 1. Runtime level for its name (most specific pattern)
+ * 2. Global runtime level
+ * 3. Configured `levels` entry for its exact name
+ * 4. Its own level option
+ * 5. Configured `levels` wildcard patterns (most specific pattern)
+ * 6. Configured `level`
+ */
+export function resolveLevel(logger: string | undefined, own?: LogLevel): LogLevel {
+  const config = getConfig();
+
+  if (logger === undefined) {
+    return overrides.get(GLOBAL) ?? own ?? config.level;
+  }
+
+  return (
+    findNamespaceLevel(
+      [...overrides].filter(([key]) => key !== GLOBAL),
+      logger
+    ) ??
+    overrides.get(GLOBAL) ??
+    (Object.hasOwn(config.levels, logger) ? config.levels[logger] : undefined) ??
+    own ??
+    // A catch-all such as `*=info` must not silence an explicit level option
+    findNamespaceLevel(Object.entries(config.levels), logger) ??
+    config.level
+  );
+}
+
+/**
+ * Get the effective level for loggers with a name (or without one)
+ */
+export function getLevel(logger?: string): LogLevel {
+  return resolveLevel(logger);
+}
+
+/**
+ * Get every runtime level: the global one and those per logger name
+ */
+export function getLevelOverrides(): { global?: LogLevel; loggers: Record<string, LogLevel> } {
+  const loggers: Record<string, LogLevel> = {};
+
+  for (const [key, level] of overrides) {
+    if (key !== GLOBAL) {
+      loggers[key] = level;
+    }
+  }
+
+  return { ...(overrides.has(GLOBAL) && { global: overrides.get(GLOBAL) }), loggers };
+}
+
+/**
+ * Subscribe to level changes. Returns an unsubscribe function.
+ *
+ * @example
+ * ```typescript
+ * const off = onLevelChange(({ logger, level, source }) => {
+ *   console.log(`${logger ?? 'all loggers'} now at ${level} (${source})`);
+ * });
+ * ```
+ */
+export function onLevelChange(listener: LevelChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notify listeners of a change in the configured level (config file or configure())
+ */
+export function notifyConfigLevelChange(previous: LogLevel, source: LevelChangeSource): void {
+  const level = getConfig().level;
+
+  if (level !== previous && !overrides.has(GLOBAL)) {
+    emit({ level, previous, source });
+  }
+}
+
+/**
+ * Remove every runtime level, pending revert and listener (useful for testing)
+ */
+export function resetLevels(): void {
+  for (const key of reverts.keys()) {
+    cancelRevert(key);
+  }
+  overrides.clear();
+  listeners.clear();
+}
@@ -0,0 +1,679 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Inbound request logging middleware (server-only)
+ *
+ * Logs inbound requests and responses through IApiLogger with the same
+ * BodyLoggingConfig redaction, sampling and content-type filtering as
+ * createLoggedFetch. Every request gets an X-Request-ID (reused from the
+ * request headers when present), a W3C trace span, a request-scoped child
+ * logger, and a runWithContext() scope so nested logs and loggedFetch calls
+ * share its IDs.
+ *
+ * Provides:
+ * - createExpressMiddleware() (Express, Connect and plain node:http)
+ * - createFastifyPlugin()
+ * - createKoaMiddleware()
+ * - withRequestLogging() (Next.js route handlers and other fetch-style handlers)
+ *
+ * Framework types are structural, so no framework is a dependency.
+ */
+
+import { enterContext, runWithContext } from './context';
+import {
+  createApiLogger,
+  parseResponseBodyForLog,
+  prepareBodyForLog,
+  readRequestBodyForLog,
+  redactHeadersWithConfig,
+  resolveBodyLoggingConfig,
+  shouldSample,
+} from './http';
+import { getRootLogger } from './server';
+import { createChildSpan, extractTraceContext } from './trace';
+import type { TraceContext } from './trace';
+import type { BodyLoggingConfig, IApiLogger, IServerLogger, LogContext } from './types';
+import { createTimestamp, generateRequestId, getPerformanceNow } from './utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options shared by every middleware factory
+ */
+export interface RequestLoggingOptions {
+  /** Receives request, response and error entries (default: createApiLogger({ name: 'http-server' })) */
+  logger?: IApiLogger;
+  /** Parent of the request-scoped logger (default: a root logger child named 'http-server') */
+  baseLogger?: IServerLogger;
+  /** Body logging config (default: LOG_BODY_* environment, else the defaults) */
+  bodyLoggingConfig?: BodyLoggingConfig;
+  /** Redact sensitive headers (default: true) */
+  redactHeaders?: boolean;
+  /** Header carrying the request ID in and out (default: 'x-request-id') */
+  requestIdHeader?: string;
+  /** Enable/disable logging; IDs and req.log are still provided (default: true) */
+  enabled?: boolean;
+}
+
+type HeaderValue = string | string[] | number | undefined;
+
+/**
+ * Request shape passed to the shared logging core
+ */
+interface InboundRequest {
+  method: string;
+  url: string;
+  headers: Record<string, HeaderValue>;
+}
+
+/**
+ * Per-request state
+ */
+interface RequestScope {
+  requestId: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  span: TraceContext;
+  sampled: boolean;
+  startTime: number;
+  requestLogged: boolean;
+  /** Bound with runWithContext() for the rest of the request */
+  context: LogContext;
+  /** Request-scoped child logger */
+  log: IServerLogger;
+}
+
+/**
+ * Minimal node:http IncomingMessage shape (Express req included)
+ */
+export interface NodeRequestLike {
+  method?: string;
+  url?: string;
+  /** Express keeps the full URL here when routers are mounted */
+  originalUrl?: string;
+  headers: Record<string, HeaderValue>;
+  /** Parsed body, present when a body parser runs before the middleware */
+  body?: unknown;
+  log?: IServerLogger;
+}
+
+/**
+ * Minimal node:http ServerResponse shape (Express res included)
+ */
+export interface NodeResponseLike {
+  statusCode: number;
+  writableFinished?: boolean;
+  setHeader(name: string, value: string): unknown;
+  getHeader(name: string): unknown;
+  write(...args: unknown[]): boolean;
+  end(...args: unknown[]): unknown;
+  once(event: 'finish' | 'close', listener: () => void): unknown;
+}
+
+/**
+ * Minimal Koa context shape
+ */
+export interface KoaContextLike {
+  method: string;
+  url: string;
+  originalUrl?: string;
+  headers: Record<string, HeaderValue>;
+  status: number;
+  body?: unknown;
+  request: { body?: unknown };
+  response: { get(name: string): string };
+  set(name: string, value: string): void;
+  log?: IServerLogger;
+}
+
+/**
+ * Minimal Fastify request/reply/instance shapes
+ */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  headers: Record<string, HeaderValue>;
+  body?: unknown;
+  /** Request-scoped glean logger (Fastify reserves request.log for its own logger) */
+  logger?: IServerLogger;
+}
+
+export interface FastifyReplyLike {
+  statusCode: number;
+  header(name: string, value: string): unknown;
+  getHeader(name: string): unknown;
+}
+
+type FastifyDone = (error?: Error | null) => void;
+
+export interface FastifyInstanceLike {
+  addHook(
+    name: 'onRequest' | 'preHandler' | 'onResponse',
+    hook: (request: FastifyRequestLike, reply: FastifyReplyLike, done: FastifyDone) => void
+  ): unknown;
+  addHook(
+    name: 'onSend',
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      payload: unknown,
+      done: (error: Error | null, payload?: unknown) => void
+    ) => void
+  ): unknown;
+  addHook(
+    name: 'onError',
+    hook: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+      error: Error,
+      done: () => void
+    ) => void
+  ): unknown;
+}
+
+// ============================================================================
+// Shared Core
+// ============================================================================
+
+const REQUEST_ID_REGEX = /^[\w\-.:]{1,128}$/;
+
+/**
+ * Read a header as a single string
+ */
+function headerValue(headers: Record<string, HeaderValue>, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Convert a captured body to something prepareBodyForLog understands.
+ * Buffers are decoded as UTF-8; streams are not logged.
+ */
+function toLoggableBody(body: unknown, maxSize: number): unknown {
+  if (body instanceof Uint8Array) {
+    return Buffer.from(
+      body.buffer,
+      body.byteOffset,
+      Math.min(body.byteLength, maxSize + 1)
+    ).toString('utf8');
+  }
+
+  if (body && typeof body === 'object' && typeof (body as { pipe?: unknown }).pipe === 'function') {
+    return undefined;
+  }
+
+  return body;
+}
+
+/**
+ * Logging core shared by the framework adapters
+ */
+class RequestLogging {
+  readonly config: BodyLoggingConfig;
+  readonly requestIdHeader: string;
+  private logger: IApiLogger;
+  private baseLogger: IServerLogger;
+  private redactHeaders: boolean;
+  private enabled: boolean;
+
+  constructor(options?: RequestLoggingOptions) {
+    this.config = resolveBodyLoggingConfig(options?.bodyLoggingConfig);
+    this.logger = options?.logger ?? createApiLogger({ name: 'http-server' });
+    this.baseLogger = options?.baseLogger ?? getRootLogger().child({}, { name: 'http-server' });
+    this.redactHeaders = options?.redactHeaders !== false;
+    this.requestIdHeader = options?.requestIdHeader ?? 'x-request-id';
+    this.enabled = options?.enabled ?? true;
+  }
+
+  /**
+   * Assign IDs and the request-scoped logger. Nothing is logged yet.
+   */
+  begin(request: InboundRequest): RequestScope {
+    const inboundId = headerValue(request.headers, this.requestIdHeader);
+    const requestId =
+      inboundId && REQUEST_ID_REGEX.test(inboundId) ? inboundId : generateRequestId();
+    const span = createChildSpan(
+      extractTraceContext(
+        headerValue(request.headers, 'traceparent'),
+        headerValue(request.headers, 'tracestate')
+      )
+    );
+    // Flags and tracestate let loggedFetch continue the trace as the caller sampled it
+    const context: LogContext = {
+      requestId,
+      traceId: span.traceId,
+      spanId: span.spanId,
+      traceFlags: span.flags,
+      ...(span.traceState && { tracestate: span.traceState }),
+    };
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(request.headers)) {
+      if (value !== undefined) {
+        headers[key] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+
+    return {
+      requestId,
+      method: request.method.toUpperCase(),
+      url: request.url,
+      headers: (this.redactHeaders && redactHeadersWithConfig(headers, this.config)) || headers,
+      span,
+      sampled: !this.config.sampling || shouldSample(request.url, this.config.sampling),
+      startTime: getPerformanceNow(),
+      requestLogged: false,
+      context,
+      log: this.baseLogger.child(context),
+    };
+  }
+
+  /**
+   * Log the inbound request (once)
+   */
+  logRequest(scope: RequestScope, body?: unknown): void {
+    if (!this.enabled || scope.requestLogged) {
+      return;
+    }
+    scope.requestLogged = true;
+
+    this.logger.logRequest({
+      requestId: scope.requestId,
+      method: scope.method,
+      url: scope.url,
+      headers: scope.headers,
+      body: this.prepareBody(body, scope.headers['content-type'] ?? '', scope),
+      timestamp: createTimestamp(),
+      traceId: scope.span.traceId,
+      spanId: scope.span.spanId,
+      ...(scope.span.parentSpanId && { parentSpanId: scope.span.parentSpanId }),
+    });
+  }
+
+  /**
+   * Log the response. Logs the request first if no adapter did.
+   */
+  logResponse(scope: RequestScope, status: number, contentType: string, body?: unknown): void {
+    if (!this.enabled) {
+      return;
+    }
+    this.logRequest(scope);
+
+    this.logger.logResponse({
+      requestId: scope.requestId,
+      method: scope.method,
+      url: scope.url,
+      statusCode: status,
+      duration: getPerformanceNow() - scope.startTime,
+      timestamp: createTimestamp(),
+      body: this.prepareBody(body, contentType, scope, status),
+      traceId: scope.span.traceId,
+      spanId: scope.span.spanId,
+      ...(scope.span.parentSpanId && { parentSpanId: scope.span.parentSpanId }),
+    });
+  }
+
+  /**
+   * Log a request that failed or was aborted
+   */
+  logError(scope: RequestScope, error: unknown): void {
+    if (!this.enabled) {
+      return;
+    }
+    this.logRequest(scope);
+
+    this.logger.logError(error instanceof Error ? error : new Error(String(error)), {
+      requestId: scope.requestId,
+      method: scope.method,
+      url: scope.url,
+      duration: getPerformanceNow() - scope.startTime,
+      traceId: scope.span.traceId,
+      spanId: scope.span.spanId,
+    });
+  }
+
+  private prepareBody(
+    body: unknown,
+    contentType: string,
+    scope: RequestScope,
+    status?: number
+  ): unknown {
+    const loggable = toLoggableBody(body, this.config.maxSize);
+
+    return prepareBodyForLog(loggable, contentType, this.config, { status, sampled: scope.sampled })
+      ?.body;
+  }
+}
+
+// ============================================================================
+// Express / node:http
+// ============================================================================
+
+/**
+ * Capture what a node:http response writes, up to limit bytes
+ */
+function captureResponseBody(res: NodeResponseLike, limit: number): () => Buffer | undefined {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  const collect = (chunk: unknown, encoding: unknown) => {
+    if (size > limit || chunk === undefined || chunk === null || typeof chunk === 'function') {
+      return;
+    }
+
+    const buffer =
+      typeof chunk === 'string'
+        ? Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8')
+        : chunk instanceof Uint8Array
+          ? Buffer.from(chunk)
+          : undefined;
+
+    if (buffer) {
+      chunks.push(buffer);
+      size += buffer.length;
+    }
+  };
+
+  const write = res.write;
+  const end = res.end;
+
+  res.write = function (this: NodeResponseLike, ...args: unknown[]): boolean {
+    collect(args[0], args[1]);
+    return write.apply(this, args);
+  };
+
+  res.end = function (this: NodeResponseLike, ...args: unknown[]): unknown {
+    collect(args[0], args[1]);
+    return end.apply(this, args);
+  };
+
+  return () => (chunks.length > 0 ? Buffer.concat(chunks) : undefined);
+}
+
+/**
+ * Create request logging middleware for Express, Connect or plain node:http.
+ * Register it after body parsers to include request bodies.
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createExpressMiddleware } from '@zaob/glean-logger';
+ *
+ * const app = express();
+ * app.use(express.json());
+ * app.use(createExpressMiddleware({ bodyLoggingConfig }));
+ *
+ * app.get('/users', (req, res) => {
+ *   req.log.info('Listing users'); // includes requestId, traceId, spanId
+ *   res.json(users);
+ * });
+ * ```
+ */
+export function createExpressMiddleware(
+  options?: RequestLoggingOptions
+): (req: NodeRequestLike, res: NodeResponseLike, next: (error?: unknown) => void) => void {
+  const logging = new RequestLogging(options);
+
+  return function requestLogger(req, res, next) {
+    const scope = logging.begin({
+      method: req.method ?? 'GET',
+      url: req.originalUrl ?? req.url ?? '/',
+      headers: req.headers,
+    });
+
+    req.log = scope.log;
+    res.setHeader(logging.requestIdHeader, scope.requestId);
+    logging.logRequest(scope, req.body);
+
+    const getBody = captureResponseBody(res, logging.config.maxSize);
+
+    res.once('finish', () => {
+      const contentType = res.getHeader('content-type');
+      logging.logResponse(
+        scope,
+        res.statusCode,
+        contentType === undefined ? '' : String(contentType),
+        getBody()
+      );
+    });
+
+    res.once('close', () => {
+      if (!res.writableFinished) {
+        logging.logError(scope, new Error('Request aborted before the response was sent'));
+      }
+    });
+
+    runWithContext(scope.context, next);
+  };
+}
+
+// ============================================================================
+// Koa
+// ============================================================================
+
+/**
+ * Create request logging middleware for Koa. Exposes the request-scoped
+ * logger as ctx.log.
+ *
+ * @example
+ * ```typescript
+ * const app = new Koa();
+ * app.use(bodyParser());
+ * app.use(createKoaMiddleware());
+ * ```
+ */
+export function createKoaMiddleware(
+  options?: RequestLoggingOptions
+): (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<void> {
+  const logging = new RequestLogging(options);
+
+  return async function requestLogger(ctx, next) {
+    const scope = logging.begin({
+      method: ctx.method,
+      url: ctx.originalUrl ?? ctx.url,
+      headers: ctx.headers,
+    });
+
+    ctx.log = scope.log;
+    ctx.set(logging.requestIdHeader, scope.requestId);
+    logging.logRequest(scope, ctx.request.body);
+
+    try {
+      await runWithContext(scope.context, next);
+    } catch (error) {
+      logging.logError(scope, error);
+      throw error;
+    }
+
+    logging.logResponse(scope, ctx.status, ctx.response.get('content-type'), ctx.body);
+  };
+}
+
+// ============================================================================
+// Fastify
+// ============================================================================
+
+/**
+ * Create a request logging plugin for Fastify. Fastify reserves request.log
+ * for its own logger, so the request-scoped logger is request.logger.
+ *
+ * @example
+ * ```typescript
+ * const app = Fastify();
+ * await app.register(createFastifyPlugin());
+ * ```
+ */
+export function createFastifyPlugin(
+  options?: RequestLoggingOptions
+): (fastify: FastifyInstanceLike, opts: unknown, done: () => void) => void {
+  const logging = new RequestLogging(options);
+  const scopes = new WeakMap<FastifyRequestLike, RequestScope & { responseBody?: unknown }>();
+
+  const plugin = (fastify: FastifyInstanceLike, _opts: unknown, done: () => void) => {
+    fastify.addHook('onRequest', (request, reply, hookDone) => {
+      const scope = logging.begin(request);
+      scopes.set(request, scope);
+      request.logger = scope.log;
+      reply.header(logging.requestIdHeader, scope.requestId);
+      hookDone();
+    });
+
+    // The body is parsed by now, and the handler runs in this async chain
+    fastify.addHook('preHandler', (request, _reply, hookDone) => {
+      const scope = scopes.get(request);
+      if (scope) {
+        logging.logRequest(scope, request.body);
+        enterContext(scope.context);
+      }
+      hookDone();
+    });
+
+    fastify.addHook('onSend', (request, _reply, payload, hookDone) => {
+      const scope = scopes.get(request);
+      if (scope) {
+        scope.responseBody = payload;
+      }
+      hookDone(null, payload);
+    });
+
+    fastify.addHook('onError', (request, _reply, error, hookDone) => {
+      const scope = scopes.get(request);
+      if (scope) {
+        logging.logError(scope, error);
+      }
+      hookDone();
+    });
+
+    fastify.addHook('onResponse', (request, reply, hookDone) => {
+      const scope = scopes.get(request);
+      if (scope) {
+        const contentType = reply.getHeader('content-type');
+        logging.logResponse(
+          scope,
+          reply.statusCode,
+          contentType === undefined ? '' : String(contentType),
+          scope.responseBody
+        );
+      }
+      hookDone();
+    });
+
+    done();
+  };
+
+  // Same as wrapping with fastify-plugin: apply hooks outside the plugin scope
+  return Object.assign(plugin, {
+    [Symbol.for('skip-override')]: true,
+    [Symbol.for('fastify.display-name')]: 'glean-logger',
+  });
+}
+
+// ============================================================================
+// Next.js / fetch-style handlers
+// ============================================================================
+
+/**
+ * Wrap a Next.js route handler (or any `(Request) => Response` handler) with
+ * request logging. The request-scoped logger is available as request.log.
+ * Response bodies are read from a clone after the response is returned, so
+ * streaming responses are not delayed; event streams are never read.
+ *
+ * @example
+ * ```typescript
+ * // app/api/users/route.ts
+ * export const GET = withRequestLogging(async request => {
+ *   request.log.info('Listing users');
+ *   return Response.json(await db.users.findMany());
+ * });
+ * ```
+ */
+export function withRequestLogging<C = unknown>(
+  handler: (request: Request & { log: IServerLogger }, context: C) => Response | Promise<Response>,
+  options?: RequestLoggingOptions
+): (request: Request, context: C) => Promise<Response> {
+  const logging = new RequestLogging(options);
+
+  return async function loggedHandler(request, context) {
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    const scope = logging.begin({ method: request.method, url: request.url, headers });
+
+    logging.logRequest(scope, await readRequestBodyForLog(request, logging.config));
+
+    let response: Response;
+    try {
+      response = await runWithContext(scope.context, () =>
+        handler(Object.assign(request, { log: scope.log }), context)
+      );
+    } catch (error) {
+      logging.logError(scope, error);
+      throw error;
+    }
+
+    try {
+      response.headers.set(logging.requestIdHeader, scope.requestId);
+    } catch {
+      // Headers of Response.redirect() and fetched responses are immutable
+    }
+
+    void logResponseLater(logging, scope, response);
+
+    return response;
+  };
+}
+
+/**
+ * Log a fetch-style response once its body has been read from a clone
+ */
+async function logResponseLater(
+  logging: RequestLogging,
+  scope: RequestScope,
+  response: Response
+): Promise<void> {
+  const contentType = response.headers.get('content-type') ?? '';
+  let body: unknown;
+
+  if (scope.sampled && !contentType.includes('text/event-stream')) {
+    // Sampling was already decided for this request
+    const parsed = await parseResponseBodyForLog(response, {
+      ...logging.config,
+      sampling: undefined,
+    });
+    body = parsed?.body;
+  }
+
+  logging.logResponse(scope, response.status, contentType, body);
+}
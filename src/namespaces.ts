@@ -0,0 +1,145 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Logger Namespaces
+ *
+ * DEBUG-style namespace patterns that map logger names to levels.
+ *
+ * Provides:
+ * - Parsing of level specs such as "db=debug,api:*=warn,*=info"
+ * - Wildcard matching of logger names
+ * - Most-specific-match level lookup
+ */
+
+import { isLogLevel } from './types';
+import type { LogLevel } from './types';
+
+/**
+ * Characters allowed in a namespace pattern
+ */
+const PATTERN_CHARS = /^[\w.:/@*-]+$/;
+
+/**
+ * Compiled patterns, by pattern
+ */
+const compiled = new Map<string, RegExp>();
+
+function toRegExp(pattern: string): RegExp {
+  let regex = compiled.get(pattern);
+
+  if (!regex) {
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('.*');
+    regex = new RegExp(`^${source}$`);
+    compiled.set(pattern, regex);
+  }
+
+  return regex;
+}
+
+/**
+ * Check if a string is a valid namespace pattern
+ */
+export function isNamespacePattern(pattern: string): boolean {
+  return PATTERN_CHARS.test(pattern);
+}
+
+/**
+ * Check if a logger name matches a namespace pattern.
+ * `*` matches any run of characters, including `:` separators.
+ *
+ * @example
+ * ```typescript
+ * matchNamespace('api:*', 'api:users'); // true
+ * matchNamespace('api:*', 'api'); // false
+ * ```
+ */
+export function matchNamespace(pattern: string, name: string): boolean {
+  return pattern === name || (pattern.includes('*') && toRegExp(pattern).test(name));
+}
+
+/**
+ * Rank a pattern: exact names first, then wildcards by their literal length
+ */
+function specificity(pattern: string): number {
+  return pattern.includes('*') ? pattern.replace(/\*/g, '').length : Infinity;
+}
+
+/**
+ * Find the level of the most specific pattern matching a logger name.
+ * On a tie the pattern listed last wins.
+ */
+export function findNamespaceLevel(
+  levels: Iterable<[string, LogLevel]>,
+  name: string
+): LogLevel | undefined {
+  let best: { level: LogLevel; rank: number } | undefined;
+
+  for (const [pattern, level] of levels) {
+    if (!matchNamespace(pattern, name)) {
+      continue;
+    }
+
+    const rank = specificity(pattern);
+    if (!best || rank >= best.rank) {
+      best = { level, rank };
+    }
+  }
+
+  return best?.level;
+}
+
+/**
+ * Parse a level spec such as "db=debug,api:*=warn,*=info" into levels by pattern
+ *
+ * @throws Error naming the first invalid entry
+ */
+export function parseLevelSpec(spec: string): Record<string, LogLevel> {
+  const levels: Record<string, LogLevel> = {};
+
+  for (const entry of spec.split(',')) {
+    const trimmed = entry.trim();
+    if (trimmed === '') {
+      continue;
+    }
+
+    const separator = trimmed.lastIndexOf('=');
+    const pattern = trimmed.slice(0, separator).trim();
+    const level = trimmed
+      .slice(separator + 1)
+      .trim()
+      .toLowerCase();
+
+    if (separator <= 0 || !isNamespacePattern(pattern) || !isLogLevel(level)) {
+      throw new Error(`Invalid level spec entry: ${trimmed}`);
+    }
+
+    levels[pattern] = level;
+  }
+
+  return levels;
+}
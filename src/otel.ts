@@ -0,0 +1,316 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * OpenTelemetry Logs Export
+ *
+ * Maps log records onto the OpenTelemetry Logs data model and ships them
+ * to a collector as OTLP/HTTP JSON. Browser-safe.
+ *
+ * Provides:
+ * - getSeverityNumber() (SeverityNumber from getLogLevelPriority)
+ * - toOtlpLogRecord() / toOtlpLogsRequest() (ExportLogsServiceRequest JSON)
+ * - OtlpTransport (batched export to /v1/logs)
+ *
+ * @see https://opentelemetry.io/docs/specs/otel/logs/data-model/
+ * @see https://opentelemetry.io/docs/specs/otlp/#otlphttp
+ */
+
+import { getEnvironment } from './config';
+import { HttpTransport } from './transports';
+import type { HttpTransportOptions } from './transports';
+import { getLogLevelPriority } from './types';
+import type { LogLevel, LogRecord } from './types';
+
+// ============================================================================
+// OTLP JSON Types
+// ============================================================================
+
+/**
+ * OTLP AnyValue (exactly one field is set)
+ */
+export interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string;
+  doubleValue?: number;
+  arrayValue?: { values: OtlpAnyValue[] };
+  kvlistValue?: { values: OtlpKeyValue[] };
+}
+
+/**
+ * OTLP KeyValue attribute
+ */
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+/**
+ * OTLP LogRecord
+ */
+export interface OtlpLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OtlpAnyValue;
+  attributes: OtlpKeyValue[];
+  traceId?: string;
+  spanId?: string;
+}
+
+/**
+ * OTLP ExportLogsServiceRequest
+ */
+export interface OtlpLogsRequest {
+  resourceLogs: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeLogs: Array<{
+      scope: { name: string };
+      logRecords: OtlpLogRecord[];
+    }>;
+  }>;
+}
+
+/**
+ * Resource describing the service that produced the logs
+ */
+export interface OtlpResourceOptions {
+  /** service.name (default: OTEL_SERVICE_NAME or 'unknown_service') */
+  serviceName?: string;
+  /** service.version */
+  serviceVersion?: string;
+  /** deployment.environment.name (default: NODE_ENV or 'development') */
+  environment?: string;
+  /** Extra resource attributes */
+  resourceAttributes?: Record<string, string | number | boolean>;
+}
+
+// ============================================================================
+// Data Model Mapping
+// ============================================================================
+
+const MAX_ATTRIBUTE_DEPTH = 10;
+const TRACE_ID_REGEX = /^[0-9a-f]{32}$/;
+const SPAN_ID_REGEX = /^[0-9a-f]{16}$/;
+
+/**
+ * Map a level to its OpenTelemetry SeverityNumber (DEBUG=5 ... FATAL=21)
+ */
+export function getSeverityNumber(level: LogLevel): number {
+  return 5 + getLogLevelPriority(level) * 4;
+}
+
+/**
+ * Convert a value to an OTLP AnyValue. Nested objects become kvlists;
+ * cycles and anything deeper than MAX_ATTRIBUTE_DEPTH become strings.
+ */
+export function toOtlpAnyValue(
+  value: unknown,
+  depth = 0,
+  seen = new WeakSet<object>()
+): OtlpAnyValue {
+  if (typeof value === 'string') {
+    return { stringValue: value };
+  }
+
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      return { intValue: String(value) };
+    }
+    return Number.isFinite(value) ? { doubleValue: value } : { stringValue: String(value) };
+  }
+
+  if (typeof value === 'bigint') {
+    return { intValue: value.toString() };
+  }
+
+  if (value === null || value === undefined) {
+    return {};
+  }
+
+  if (value instanceof Date) {
+    return { stringValue: value.toISOString() };
+  }
+
+  if (value instanceof Error) {
+    return { stringValue: value.stack ?? `${value.name}: ${value.message}` };
+  }
+
+  if (typeof value !== 'object') {
+    return { stringValue: String(value) };
+  }
+
+  if (seen.has(value) || depth >= MAX_ATTRIBUTE_DEPTH) {
+    return { stringValue: seen.has(value) ? '[Circular]' : '[Object]' };
+  }
+
+  seen.add(value);
+  const result: OtlpAnyValue = Array.isArray(value)
+    ? { arrayValue: { values: value.map(item => toOtlpAnyValue(item, depth + 1, seen)) } }
+    : {
+        kvlistValue: {
+          values: toOtlpAttributes(value as Record<string, unknown>, depth + 1, seen),
+        },
+      };
+  seen.delete(value);
+
+  return result;
+}
+
+/**
+ * Convert a flat or nested record to OTLP attributes, skipping undefined values
+ */
+export function toOtlpAttributes(
+  values: Record<string, unknown>,
+  depth = 0,
+  seen = new WeakSet<object>()
+): OtlpKeyValue[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: toOtlpAnyValue(value, depth, seen) }));
+}
+
+/**
+ * Map a log record onto the OpenTelemetry Logs data model.
+ * The record's trace and the context's spanId become TraceId/SpanId.
+ */
+export function toOtlpLogRecord(record: LogRecord, observedAt = Date.now()): OtlpLogRecord {
+  const { traceId, spanId, ...attributes } = record.context ?? {};
+  const trace = record.trace ?? (typeof traceId === 'string' ? traceId : undefined);
+  const otlpRecord: OtlpLogRecord = {
+    timeUnixNano: `${Math.trunc(record.timestamp)}000000`,
+    observedTimeUnixNano: `${Math.trunc(observedAt)}000000`,
+    severityNumber: getSeverityNumber(record.level),
+    severityText: record.level.toUpperCase(),
+    body: { stringValue: record.message },
+    attributes: toOtlpAttributes(attributes),
+  };
+
+  if (trace && TRACE_ID_REGEX.test(trace)) {
+    otlpRecord.traceId = trace;
+
+    if (typeof spanId === 'string' && SPAN_ID_REGEX.test(spanId)) {
+      otlpRecord.spanId = spanId;
+    }
+  } else {
+    // Not a W3C trace: keep the values as plain attributes
+    otlpRecord.attributes.push(...toOtlpAttributes({ traceId, spanId }));
+  }
+
+  return otlpRecord;
+}
+
+/**
+ * Build the resource attributes for a service
+ */
+export function toOtlpResource(options?: OtlpResourceOptions): { attributes: OtlpKeyValue[] } {
+  const env = typeof process !== 'undefined' ? process.env : {};
+
+  return {
+    attributes: toOtlpAttributes({
+      'service.name': options?.serviceName ?? env['OTEL_SERVICE_NAME'] ?? 'unknown_service',
+      'service.version': options?.serviceVersion,
+      'deployment.environment.name': options?.environment ?? getEnvironment(),
+      ...options?.resourceAttributes,
+    }),
+  };
+}
+
+/**
+ * Build an ExportLogsServiceRequest, one scope per logger name
+ */
+export function toOtlpLogsRequest(
+  records: LogRecord[],
+  resource: { attributes: OtlpKeyValue[] } = toOtlpResource()
+): OtlpLogsRequest {
+  const observedAt = Date.now();
+  const scopes = new Map<string, OtlpLogRecord[]>();
+
+  for (const record of records) {
+    const name = record.logger ?? 'glean-logger';
+    const logRecords = scopes.get(name) ?? [];
+    logRecords.push(toOtlpLogRecord(record, observedAt));
+    scopes.set(name, logRecords);
+  }
+
+  return {
+    resourceLogs: [
+      {
+        resource,
+        scopeLogs: Array.from(scopes, ([name, logRecords]) => ({ scope: { name }, logRecords })),
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// OTLP Transport
+// ============================================================================
+
+/**
+ * Options for OtlpTransport
+ */
+export interface OtlpTransportOptions
+  extends Omit<HttpTransportOptions, 'url' | 'format'>, OtlpResourceOptions {
+  /** OTLP/HTTP logs endpoint (default: http://localhost:4318/v1/logs) */
+  url?: string;
+}
+
+/**
+ * Ships records to an OpenTelemetry collector as OTLP/HTTP JSON batches.
+ * Batching, buffering and retries work as in HttpTransport.
+ *
+ * @example
+ * ```typescript
+ * const otlp = new OtlpTransport({
+ *   url: 'http://otel-collector:4318/v1/logs',
+ *   serviceName: 'checkout-api',
+ *   serviceVersion: '2.3.1',
+ * });
+ * const log = createServerLogger({ transports: [otlp] });
+ * ```
+ */
+export class OtlpTransport extends HttpTransport {
+  override readonly name: string = 'otlp';
+  private resource: { attributes: OtlpKeyValue[] };
+
+  constructor(options?: OtlpTransportOptions) {
+    super({ ...options, url: options?.url ?? 'http://localhost:4318/v1/logs' });
+    this.resource = toOtlpResource(options);
+  }
+
+  protected override createRequest(batch: LogRecord[]): RequestInit {
+    return {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(toOtlpLogsRequest(batch, this.resource)),
+    };
+  }
+}
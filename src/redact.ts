@@ -29,16 +29,48 @@
  * User Story 4: Sensitive Data Redaction
  *
  * Provides:
- * - Key-based redaction (field names)
- * - Value-based redaction (regex patterns)
- * - Extensible redaction configuration
- * - Support for PII, PCI, PHI patterns
+ * - RedactionPolicy engine shared by every logger and by body logging
+ * - Key-based redaction (field and header names)
+ * - Value-based redaction (detectors and regex patterns, optionally scoped to fields)
+ * - Path rules with wildcards (remove, mask, hash, truncate, keep)
+ * - Strategies: constant masks, SHA-256/HMAC digests, partial and length-preserving masks
+ * - Circular reference and depth handling
+ * - Process-wide default policy, honoring the redactSensitive config flag
  */
 
-import type { RedactionPattern, LogContext } from './types';
+import { getConfig } from './config';
+import { DEFAULT_DETECTORS, DETECTORS, getDetectors, PII_DETECTORS } from './detectors';
+import { isError, serializeContextErrors, serializeError } from './errors';
+import { hmacSha256, sha256Hex, toHex } from './hash';
+import type {
+  BodyLoggingConfig,
+  LogContext,
+  RedactionPattern,
+  RedactionPolicy,
+  RedactionReportEntry,
+  RedactionReportOptions,
+  RedactionResult,
+  RedactionRule,
+  RedactionStats,
+  RedactionStrategy,
+} from './types';
+
+// ============================================================================
+// Defaults
+// ============================================================================
 
 /**
- * Default sensitive field names to redact by key
+ * Replacement for cyclic references
+ */
+export const CIRCULAR_REPLACEMENT = '[REDACTED-CIRCULAR]';
+
+/**
+ * Replacement for values nested deeper than the policy's maxDepth
+ */
+export const MAX_DEPTH_REPLACEMENT = '[MAX_DEPTH_EXCEEDED]';
+
+/**
+ * Default sensitive field names to redact by key (lowercase)
  */
 export const SENSITIVE_KEYS = new Set([
   'password',
@@ -46,248 +78,828 @@ export const SENSITIVE_KEYS = new Set([
   'pwd',
   'secret',
   'token',
-  'accessToken',
-  'refreshToken',
-  'apiKey',
+  'accesstoken',
+  'refreshtoken',
   'apikey',
-  'authToken',
+  'authtoken',
   'authorization',
   'cookie',
   'ssn',
-  'socialSecurity',
-  'creditCard',
-  'cardNumber',
+  'socialsecurity',
+  'creditcard',
+  'cardnumber',
   'cvv',
   'cvc',
   'pin',
-  'privateKey',
+  'privatekey',
   'private_key',
 ]);
 
 /**
- * High-sensitivity keys that should ALWAYS be redacted by key
- * regardless of redactValues setting (e.g., passwords, secrets)
+ * Keys redact() always hides by key, even with custom keys or
+ * `redactValues: false` (lowercase)
  */
 const HIGH_SENSITIVITY_KEYS = new Set([
   'password',
   'passwd',
   'pwd',
   'secret',
-  'privateKey',
+  'privatekey',
   'private_key',
 ]);
 
 /**
- * Default regex patterns for value-based redaction
+ * Default sensitive header names to redact (lowercase)
+ */
+export const SENSITIVE_HEADERS = new Set([
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-auth-token',
+  'x-forwarded-for',
+]);
+
+/**
+ * Default value patterns: SSNs in the fields that hold them, and the
+ * default detectors everywhere
  */
 export const DEFAULT_PATTERNS: RedactionPattern[] = [
-  {
-    name: 'SSN',
-    pattern: /..{3}[-.]?.{2}[-.]?.{4}./g,
-    replacement: '***-**-****',
-  },
-  {
-    name: 'CreditCard',
-    pattern: /.(?:.{4}[-.]?){3}.{4}./g,
-    replacement: '****-****-****-****',
-  },
-  {
-    name: 'Email',
-    pattern: /.[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+.[A-Z|a-z]{2,}./g,
-    replacement: '[EMAIL_REDACTED]',
-  },
-  {
-    name: 'IPv4',
-    pattern: /.(?:.{1,3}.){3}.{1,3}./g,
-    replacement: '[IP_REDACTED]',
-  },
-  {
-    name: 'BearerToken',
-    pattern: /Bearer.+[a-zA-Z0-9_..]+/gi,
-    replacement: 'Bearer [REDACTED]',
-  },
-  {
-    name: 'APIKey',
-    pattern: /.(sk|live|test|pk)_[a-zA-Z0-9]{20,}./gi,
-    replacement: '[API_KEY_REDACTED]',
-  },
-  {
-    name: 'JWT',
-    pattern: /eyJ[a-zA-Z0-9_-]*.eyJ[a-zA-Z0-9_-]*.[a-zA-Z0-9_-]*/g,
-    replacement: '[JWT_REDACTED]',
-  },
+  { ...DETECTORS.ssn, fieldNames: ['ssn', 'socialsecuritynumber', 'taxid'] },
+  ...getDetectors(DEFAULT_DETECTORS),
 ];
 
 /**
- * Check if a value matches any redaction pattern
+ * Patterns for personal data in free text (emails, phone numbers, IPs, SSNs).
+ * Emails and IPs are already in DEFAULT_PATTERNS; add these for the rest.
  */
-function valueMatchesPattern(value: unknown, patterns: RedactionPattern[]): boolean {
-  if (typeof value !== 'string') {
-    return false;
+export const PII_PATTERNS: RedactionPattern[] = getDetectors(PII_DETECTORS);
+
+/**
+ * Policy used when no other policy is set
+ */
+export const DEFAULT_REDACTION_POLICY: Readonly<RedactionPolicy> = Object.freeze({
+  enabled: true,
+  keys: Array.from(SENSITIVE_KEYS),
+  headers: Array.from(SENSITIVE_HEADERS),
+  patterns: DEFAULT_PATTERNS,
+  replacement: '[REDACTED]',
+  maxDepth: 10,
+});
+
+let activePolicy: RedactionPolicy = DEFAULT_REDACTION_POLICY;
+
+// ============================================================================
+// Policy Management
+// ============================================================================
+
+/**
+ * Create a policy from the defaults. Given lists replace the default lists.
+ *
+ * @example
+ * ```typescript
+ * const policy = createRedactionPolicy({
+ *   keys: [...DEFAULT_REDACTION_POLICY.keys, 'dateofbirth'],
+ *   patterns: [...DEFAULT_PATTERNS, ...PII_PATTERNS],
+ * });
+ * ```
+ */
+export function createRedactionPolicy(overrides?: Partial<RedactionPolicy>): RedactionPolicy {
+  return { ...DEFAULT_REDACTION_POLICY, ...overrides };
+}
+
+/**
+ * Set the process-wide policy used by loggers created without one
+ */
+export function setRedactionPolicy(policy: RedactionPolicy): void {
+  activePolicy = policy;
+}
+
+/**
+ * Get the process-wide policy
+ */
+export function getRedactionPolicy(): RedactionPolicy {
+  return activePolicy;
+}
+
+/**
+ * Resolve a logger's redaction option to the policy to apply, or null when
+ * redaction is off (option false, policy disabled, or redactSensitive=false)
+ */
+export function resolveRedactionPolicy(policy?: RedactionPolicy | false): RedactionPolicy | null {
+  if (policy === false || !getConfig().redactSensitive) {
+    return null;
   }
-  return patterns.some(pattern => pattern.pattern.test(value));
+
+  const resolved = policy ?? activePolicy;
+
+  return resolved.enabled ? resolved : null;
 }
 
+const bodyPolicies = new WeakMap<
+  BodyLoggingConfig,
+  { base: RedactionPolicy; policy: RedactionPolicy }
+>();
+
 /**
- * Redact an object by key (field names)
+ * Policy for body logging: the active policy extended with the config's
+ * sensitive fields, headers and patterns
  */
-export function redactByKey(obj: unknown, keys?: Set<string>): unknown {
-  if (!obj || typeof obj !== 'object') {
-    return obj;
+export function policyFromBodyConfig(config: BodyLoggingConfig): RedactionPolicy {
+  const base = resolveRedactionPolicy();
+
+  if (!base) {
+    return { ...activePolicy, enabled: false };
   }
 
-  if (Array.isArray(obj)) {
-    return obj.map(item => redactByKey(item, keys));
+  const cached = bodyPolicies.get(config);
+  if (cached?.base === base) {
+    return cached.policy;
   }
 
-  const result: Record<string, unknown> = {};
+  const policy: RedactionPolicy = {
+    ...base,
+    keys: [...base.keys, ...config.sensitiveFields],
+    headers: [...base.headers, ...config.sensitiveHeaders],
+    patterns: [...base.patterns, ...config.redactionPatterns],
+    rules: [...(config.redactionRules ?? []), ...(base.rules ?? [])],
+    maxDepth: config.maxDepth ?? base.maxDepth,
+  };
+  bodyPolicies.set(config, { base, policy });
 
-  for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-    if (keys?.has(key.toLowerCase())) {
-      result[key] = '[REDACTED]';
-    } else if (typeof value === 'object' && value !== null) {
-      result[key] = redactByKey(value, keys);
-    } else {
-      result[key] = value;
+  return policy;
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+/**
+ * Marks a value removed by a 'remove' rule
+ */
+const REMOVED = Symbol('removed');
+
+interface CompiledRule {
+  segments: string[];
+  rule: RedactionRule;
+}
+
+interface CompiledPolicy {
+  keys: Set<string>;
+  headers: Set<string>;
+  rules: CompiledRule[];
+}
+
+/**
+ * Parse a rule path into lowercase segments: `a.b[*].c['x.y']` becomes
+ * ['a', 'b', '*', 'c', 'x.y']
+ *
+ * @throws Error when the path has an empty segment
+ */
+export function parseRedactionPath(path: string): string[] {
+  const segments: string[] = [];
+
+  for (const match of path.matchAll(/\[(?:'([^']*)'|"([^"]*)"|([^\]]*))\]|[^.[\]]+/g)) {
+    segments.push((match[1] ?? match[2] ?? match[3] ?? match[0]).toLowerCase());
+  }
+
+  if (
+    segments.length === 0 ||
+    segments.some(segment => segment === '') ||
+    /^\.|\.\.|\.$/.test(path)
+  ) {
+    throw new Error(`Invalid redaction path: ${path}`);
+  }
+
+  return segments;
+}
+
+/**
+ * Match path segments against lowercase rule segments with `*` and `**`
+ */
+function matchPath(pattern: string[], path: string[], pi = 0, si = 0): boolean {
+  if (pi === pattern.length) {
+    return si === path.length;
+  }
+
+  const segment = pattern[pi];
+
+  if (segment === '**') {
+    for (let next = si; next <= path.length; next++) {
+      if (matchPath(pattern, path, pi + 1, next)) {
+        return true;
+      }
     }
+    return false;
   }
 
-  return result;
+  if (si === path.length || (segment !== '*' && segment !== path[si]?.toLowerCase())) {
+    return false;
+  }
+
+  return matchPath(pattern, path, pi + 1, si + 1);
 }
 
 /**
- * Redact an object by value (regex patterns)
+ * Compiled key sets and rules per policy, so hot paths don't rebuild them
  */
-export function redactByValue(obj: unknown, patterns: RedactionPattern[]): unknown {
-  if (!obj) {
-    return obj;
+const compiledPolicies = new WeakMap<RedactionPolicy, CompiledPolicy>();
+
+function compilePolicy(policy: RedactionPolicy): CompiledPolicy {
+  let compiled = compiledPolicies.get(policy);
+
+  if (!compiled) {
+    compiled = {
+      keys: new Set(policy.keys.map(key => key.toLowerCase())),
+      headers: new Set(policy.headers.map(header => header.toLowerCase())),
+      rules: (policy.rules ?? []).map(rule => ({
+        segments: parseRedactionPath(rule.path),
+        rule,
+      })),
+    };
+    compiledPolicies.set(policy, compiled);
   }
 
-  if (typeof obj === 'string') {
-    let result = obj;
+  return compiled;
+}
 
-    for (const pattern of patterns) {
-      result = result.replace(pattern.pattern, pattern.replacement);
+/**
+ * First rule matching the path, tried with and without the root segment
+ */
+function findRule(
+  compiled: CompiledPolicy,
+  path: string[],
+  root?: string
+): RedactionRule | undefined {
+  return compiled.rules.find(
+    ({ segments }) =>
+      matchPath(segments, path) || (root !== undefined && matchPath(segments, [root, ...path]))
+  )?.rule;
+}
+
+function stringifyForRule(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+let warnedMissingSecret = false;
+
+/**
+ * Format-preserving mask: emails keep their first character and domain,
+ * anything else keeps separators and its last `visible` letters and digits.
+ * Values too short to reveal part of safely are masked entirely.
+ *
+ * @example
+ * ```typescript
+ * partialMask('4111 1111 1111 1111'); // '**** **** **** 1111'
+ * partialMask('jane@example.com'); // 'j***@example.com'
+ * ```
+ */
+export function partialMask(value: string, visible = 4): string {
+  const email = /^([^@\s])[^@\s]*(@[^@\s]+)$/.exec(value);
+  if (email) {
+    return `${email[1]}***${email[2]}`;
+  }
+
+  const characters = Array.from(value);
+  const alphanumeric = characters.filter(char => /[A-Za-z0-9]/.test(char)).length;
+  let shown = alphanumeric >= visible * 2 ? visible : 0;
+
+  return characters
+    .reverse()
+    .map(char => {
+      if (!/[A-Za-z0-9]/.test(char)) {
+        return char;
+      }
+      if (shown > 0) {
+        shown--;
+        return char;
+      }
+      return '*';
+    })
+    .reverse()
+    .join('');
+}
+
+/**
+ * Replace a matched string with a strategy
+ */
+function applyStrategy(
+  value: string,
+  strategy: RedactionStrategy,
+  policy: RedactionPolicy,
+  replacement: string,
+  length?: number
+): string {
+  switch (strategy) {
+    case 'hash':
+      return `sha256:${sha256Hex(value).slice(0, 16)}`;
+    case 'hmac': {
+      const secret = policy.secret ?? getConfig().redactSecret;
+      if (secret) {
+        return `hmac:${toHex(hmacSha256(secret, value)).slice(0, 16)}`;
+      }
+      if (!warnedMissingSecret) {
+        warnedMissingSecret = true;
+        console.warn(
+          '[Redaction] hmac strategy needs a policy secret or API_LOG_REDACT_SECRET; masking instead'
+        );
+      }
+      return replacement;
     }
+    case 'partial':
+      return partialMask(value, length);
+    case 'preserveLength':
+      return '*'.repeat(Array.from(value).length);
+    default:
+      return replacement;
+  }
+}
 
-    return result;
+/**
+ * Apply a rule's action
+ */
+function applyRule(value: unknown, rule: RedactionRule, policy: RedactionPolicy): unknown {
+  switch (rule.action) {
+    case 'remove':
+      return REMOVED;
+    case 'keep':
+      return value;
+    case 'truncate': {
+      const text = stringifyForRule(value);
+      const length = rule.length ?? 4;
+      return text.length > length ? `${text.slice(0, length)}...` : text;
+    }
+    default:
+      return applyStrategy(
+        stringifyForRule(value),
+        rule.action,
+        policy,
+        rule.replacement ?? policy.replacement,
+        rule.length
+      );
   }
+}
+
+/**
+ * Called with the reason and number of replacements for each redaction
+ */
+type RedactionListener = (reason: string, count: number) => void;
 
-  if (Array.isArray(obj)) {
-    return obj.map(item => redactByValue(item, patterns));
+/**
+ * Apply the patterns that are global or scoped to this field
+ */
+/**
+ * Count the matches replace() will substitute: every match for global
+ * patterns, the first one otherwise
+ */
+function countMatches(value: string, pattern: RegExp): number {
+  if (!pattern.global) {
+    return value.search(pattern) === -1 ? 0 : 1;
   }
+  return value.match(pattern)?.length ?? 0;
+}
 
-  if (typeof obj === 'object') {
-    const result: Record<string, unknown> = {};
+function redactString(
+  value: string,
+  policy: RedactionPolicy,
+  key?: string,
+  onRedact?: RedactionListener
+): string {
+  const normalizedKey = key?.toLowerCase();
+  let result = value;
+
+  for (const pattern of policy.patterns) {
+    if (
+      pattern.fieldNames &&
+      (normalizedKey === undefined ||
+        !pattern.fieldNames.some(field => field.toLowerCase() === normalizedKey))
+    ) {
+      continue;
+    }
 
-    for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-      result[key] = redactByValue(value, patterns);
+    const { validate, strategy } = pattern;
+    let count = 0;
+
+    if (validate || strategy) {
+      result = result.replace(pattern.pattern, match => {
+        if (validate && !validate(match)) {
+          return match;
+        }
+        count++;
+        return applyStrategy(match, strategy ?? 'mask', policy, pattern.replacement);
+      });
+    } else {
+      count = onRedact ? countMatches(result, pattern.pattern) : 0;
+      result = result.replace(pattern.pattern, pattern.replacement);
     }
 
-    return result;
+    if (count > 0) {
+      onRedact?.(`pattern:${pattern.name ?? pattern.pattern.source}`, count);
+    }
   }
 
-  return obj;
+  return result;
 }
 
 /**
- * Redact an object by both key and value
+ * State shared by one applyRedactionPolicy call
  */
-export function redact(
-  obj: unknown,
-  options?: {
-    keys?: Set<string>;
-    patterns?: RedactionPattern[];
-    redactKeys?: boolean;
-    redactValues?: boolean;
+interface Walk {
+  policy: RedactionPolicy;
+  compiled: CompiledPolicy;
+  root?: string;
+  ancestors: WeakSet<object>;
+  onRedact?: (path: string[], reason: string, count: number) => void;
+}
+
+/**
+ * Report a redaction at `path`, when someone is listening
+ */
+function listenerFor(walk: Walk, path: string[]): RedactionListener | undefined {
+  const { onRedact } = walk;
+
+  return onRedact && ((reason, count) => onRedact(path, reason, count));
+}
+
+/**
+ * Redact the value at `path`: a matching rule first, then keys, then the value itself
+ */
+function redactEntry(
+  walk: Walk,
+  value: unknown,
+  path: string[],
+  field: string | undefined,
+  depth: number
+): unknown {
+  const rule = walk.compiled.rules.length ? findRule(walk.compiled, path, walk.root) : undefined;
+
+  if (rule?.action === 'keep') {
+    return typeof value === 'string' ? value : redactValue(walk, value, path, field, depth);
+  }
+
+  if (rule) {
+    walk.onRedact?.(path, `rule:${rule.path}`, 1);
+    return applyRule(value, rule, walk.policy);
+  }
+
+  // Keys apply to object fields, not to the items of an array field
+  const key = path[path.length - 1];
+  if (key !== undefined && key === field && walk.compiled.keys.has(key.toLowerCase())) {
+    walk.onRedact?.(path, `key:${key.toLowerCase()}`, 1);
+    return walk.policy.replacement;
   }
+
+  return redactValue(walk, value, path, field, depth);
+}
+
+function redactValue(
+  walk: Walk,
+  value: unknown,
+  path: string[],
+  field: string | undefined,
+  depth: number
 ): unknown {
-  const keys = options?.keys ?? SENSITIVE_KEYS;
-  const patterns = options?.patterns ?? DEFAULT_PATTERNS;
-  const redactKeys = options?.redactKeys ?? true;
-  const redactValues = options?.redactValues ?? true;
+  if (typeof value === 'string') {
+    return redactString(value, walk.policy, field, listenerFor(walk, path));
+  }
 
-  if (!redactKeys && !redactValues) {
-    return obj;
+  if (!value || typeof value !== 'object') {
+    return value;
   }
 
-  if (!obj || typeof obj !== 'object') {
-    return obj;
+  if (depth > walk.policy.maxDepth) {
+    return MAX_DEPTH_REPLACEMENT;
   }
 
-  if (Array.isArray(obj)) {
-    return obj.map(item => redact(item, options));
+  if (walk.ancestors.has(value)) {
+    return CIRCULAR_REPLACEMENT;
   }
 
-  const result: Record<string, unknown> = {};
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
 
-  for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-    const isSensitiveKey = keys.has(key.toLowerCase());
-    const isHighSensitivityKey = HIGH_SENSITIVITY_KEYS.has(key.toLowerCase());
+  if (value instanceof RegExp) {
+    return value.source;
+  }
 
-    // High-sensitivity keys (password, secret, etc.): always redact by key if redactKeys=true
-    // These fields should ALWAYS be hidden regardless of redactValues setting
-    if (isHighSensitivityKey) {
-      if (redactKeys) {
-        result[key] = '[REDACTED]';
-      } else if (
-        redactValues &&
-        typeof value === 'string' &&
-        valueMatchesPattern(value, patterns)
-      ) {
-        result[key] = redactByValue(value, patterns);
-      } else {
-        result[key] = value;
+  walk.ancestors.add(value);
+
+  let result: unknown;
+  if (isError(value)) {
+    // Error fields are not enumerable, so walk the serialized error
+    result = redactValue(
+      walk,
+      serializeError(value, { stack: getConfig().includeStackTrace }),
+      path,
+      field,
+      depth
+    );
+  } else if (Array.isArray(value)) {
+    // Items keep the enclosing field name for pattern scoping
+    result = value
+      .map((item, index) => redactEntry(walk, item, [...path, String(index)], field, depth))
+      .filter(item => item !== REMOVED);
+  } else {
+    const redacted: Record<string, unknown> = {};
+
+    for (const [name, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+      const entry = redactEntry(walk, fieldValue, [...path, name], name, depth + 1);
+      if (entry !== REMOVED) {
+        redacted[name] = entry;
       }
     }
-    // Other sensitive keys:
-    // - If redactValues is false: don't redact (preserve for auditing)
-    // - If redactValues is true and value matches pattern: use value-based redaction
-    // - If redactValues is true and value doesn't match pattern: use key-based redaction
-    else if (isSensitiveKey) {
-      if (!redactValues) {
-        // redactValues is false - don't redact sensitive keys at all
-        result[key] = value;
-      } else if (typeof value === 'string' && valueMatchesPattern(value, patterns)) {
-        // Value matches a pattern - use value-based redaction
-        result[key] = redactByValue(value, patterns);
-      } else if (redactKeys) {
-        // Value doesn't match pattern or not a string - use key-based redaction
-        result[key] = '[REDACTED]';
-      } else {
-        result[key] = value;
+
+    result = redacted;
+  }
+
+  walk.ancestors.delete(value);
+
+  return result;
+}
+
+function walkPolicy(
+  value: unknown,
+  policy: RedactionPolicy,
+  root?: string,
+  onRedact?: Walk['onRedact']
+): unknown {
+  return redactValue(
+    { policy, compiled: compilePolicy(policy), root, ancestors: new WeakSet(), onRedact },
+    value,
+    [],
+    undefined,
+    0
+  );
+}
+
+/**
+ * Redact any value with a policy. Returns a redacted copy; the input is not
+ * modified. Cycles become '[REDACTED-CIRCULAR]', values deeper than maxDepth
+ * become '[MAX_DEPTH_EXCEEDED]'. Rules may also be written with `root` as
+ * their first segment (e.g. 'body' for request bodies).
+ */
+export function applyRedactionPolicy(
+  value: unknown,
+  policy: RedactionPolicy,
+  root?: string
+): unknown {
+  if (!policy.enabled) {
+    return value;
+  }
+
+  return walkPolicy(value, policy, root);
+}
+
+/**
+ * Format path segments as `user.items[0].card`
+ */
+function formatPath(path: string[], root?: string): string {
+  let formatted = root ?? '';
+
+  for (const segment of path) {
+    formatted += /^\d+$/.test(segment) ? `[${segment}]` : formatted ? `.${segment}` : segment;
+  }
+
+  return formatted || '$';
+}
+
+/**
+ * Redact a value and report what was redacted: each path with the rule,
+ * key or pattern responsible and its number of replacements. With dryRun
+ * the input is returned unchanged alongside the report.
+ *
+ * @example
+ * ```typescript
+ * const { report } = redactWithReport(samplePayload, getRedactionPolicy(), { dryRun: true });
+ * // report.entries: [{ path: 'user.password', reason: 'key:password', count: 1 }, ...]
+ * ```
+ */
+export function redactWithReport(
+  value: unknown,
+  policy: RedactionPolicy,
+  options?: { root?: string; dryRun?: boolean }
+): RedactionResult {
+  const entries = new Map<string, RedactionReportEntry>();
+  let total = 0;
+
+  const redacted = policy.enabled
+    ? walkPolicy(value, policy, options?.root, (path, reason, count) => {
+        const formatted = formatPath(path, options?.root);
+        const id = `${formatted}\u0000${reason}`;
+        const entry = entries.get(id);
+
+        total += count;
+        if (entry) {
+          entry.count += count;
+        } else {
+          entries.set(id, { path: formatted, reason, count });
+        }
+      })
+    : value;
+
+  return {
+    value: options?.dryRun ? value : redacted,
+    report: { total, entries: Array.from(entries.values()) },
+  };
+}
+
+/**
+ * Redact header values with a policy. Header rules may be prefixed with 'headers.'.
+ */
+export function redactHeadersWithPolicy(
+  headers: Record<string, string>,
+  policy: RedactionPolicy
+): Record<string, string> {
+  if (!policy.enabled) {
+    return headers;
+  }
+
+  const compiled = compilePolicy(policy);
+  const redacted: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    const normalized = name.toLowerCase();
+    const rule = compiled.rules.length ? findRule(compiled, [name], 'headers') : undefined;
+
+    if (rule?.action === 'keep') {
+      redacted[name] = value;
+    } else if (rule) {
+      const result = applyRule(value, rule, policy);
+      if (result !== REMOVED) {
+        redacted[name] = String(result);
       }
-    }
-    // Non-sensitive keys: redact by value if redactValues=true
-    else if (typeof value === 'string' && redactValues) {
-      result[key] = redactByValue(value, patterns);
-    } else if (typeof value === 'object' && value !== null) {
-      result[key] = redact(value, options);
     } else {
-      result[key] = value;
+      redacted[name] = compiled.headers.has(normalized)
+        ? policy.replacement
+        : redactString(value, policy, name);
     }
   }
 
-  return result;
+  return redacted;
+}
+
+/**
+ * Empty redaction counters for a logger
+ */
+export function createRedactionStats(): RedactionStats {
+  return { checked: 0, redacted: 0, hits: {} };
+}
+
+/**
+ * Redact a log context with a logger's redaction option (default: the
+ * process-wide policy). Returns the context unchanged when redaction is off.
+ * When `stats` is given, counts the context and each hit by reason.
+ */
+export function redactContext(
+  context: LogContext | undefined,
+  policy?: RedactionPolicy | false,
+  stats?: RedactionStats
+): LogContext | undefined {
+  const resolved = resolveRedactionPolicy(policy);
+
+  if (!context) {
+    return context;
+  }
+
+  // JSON.stringify drops error fields, so errors are serialized even without redaction
+  if (!resolved) {
+    return serializeContextErrors(context);
+  }
+
+  if (!stats) {
+    return walkPolicy(context, resolved) as LogContext;
+  }
+
+  let hits = 0;
+  const redacted = walkPolicy(context, resolved, undefined, (_path, reason, count) => {
+    hits += count;
+    stats.hits[reason] = (stats.hits[reason] ?? 0) + count;
+  });
+
+  stats.checked++;
+  if (hits > 0) {
+    stats.redacted++;
+  }
+
+  return redacted as LogContext;
+}
+
+// ============================================================================
+// Legacy Helpers
+// ============================================================================
+
+/**
+ * Redact an object by key (field names)
+ */
+export function redactByKey(obj: unknown, keys?: Set<string>): unknown {
+  return applyRedactionPolicy(
+    obj,
+    createRedactionPolicy({ keys: Array.from(keys ?? []), patterns: [] })
+  );
+}
+
+/**
+ * Redact an object by value (regex patterns)
+ */
+export function redactByValue(obj: unknown, patterns: RedactionPattern[]): unknown {
+  return applyRedactionPolicy(obj, createRedactionPolicy({ keys: [], patterns }));
+}
+
+/**
+ * Options for redact()
+ */
+interface RedactOptions {
+  keys?: Set<string>;
+  patterns?: RedactionPattern[];
+  rules?: RedactionRule[];
+  redactKeys?: boolean;
+  redactValues?: boolean;
+}
+
+/**
+ * Redact an object by both key and value. With `report` or `dryRun`, returns
+ * the value with a report of what was (or would be) redacted.
+ *
+ * Passwords, secrets and private keys are always redacted by key. With
+ * `redactValues: false`, other sensitive keys are kept for auditing.
+ *
+ * @example
+ * ```typescript
+ * const { report } = redact(samplePayload, { dryRun: true });
+ * ```
+ */
+export function redact(
+  obj: unknown,
+  options: RedactOptions & RedactionReportOptions & ({ report: true } | { dryRun: true })
+): RedactionResult;
+export function redact(obj: unknown, options?: RedactOptions & RedactionReportOptions): unknown;
+export function redact(obj: unknown, options?: RedactOptions & RedactionReportOptions): unknown {
+  const redactKeys = options?.redactKeys ?? true;
+  const redactValues = options?.redactValues ?? true;
+  const keys = redactValues
+    ? [...(options?.keys ?? SENSITIVE_KEYS), ...HIGH_SENSITIVITY_KEYS]
+    : [...HIGH_SENSITIVITY_KEYS];
+  const policy = createRedactionPolicy({
+    enabled: redactKeys || redactValues,
+    keys: redactKeys ? keys : [],
+    patterns: redactValues ? (options?.patterns ?? DEFAULT_PATTERNS) : [],
+    rules: options?.rules,
+  });
+
+  if (options?.report || options?.dryRun) {
+    return redactWithReport(obj, policy, { dryRun: options.dryRun });
+  }
+
+  return applyRedactionPolicy(obj, policy);
 }
 
 /**
  * Create a custom redaction configuration
+ *
+ * @example
+ * ```typescript
+ * const config = createRedactionConfig({
+ *   rules: [
+ *     { path: 'user.*.ssn', action: 'mask' },
+ *     { path: 'items[*].card.number', action: 'truncate', length: 4 },
+ *     { path: 'pagination.token', action: 'keep' },
+ *   ],
+ * });
+ * redact(payload, config);
+ * ```
  */
 export function createRedactionConfig(options?: {
   keys?: string[];
   patterns?: RedactionPattern[];
+  rules?: RedactionRule[];
   redactKeys?: boolean;
   redactValues?: boolean;
 }): {
   keys: Set<string>;
   patterns: RedactionPattern[];
+  rules: RedactionRule[];
   redactKeys: boolean;
   redactValues: boolean;
 } {
+  options?.rules?.forEach(rule => parseRedactionPath(rule.path));
+
   return {
     keys: new Set(options?.keys ?? Array.from(SENSITIVE_KEYS)),
     patterns: options?.patterns ?? [...DEFAULT_PATTERNS],
+    rules: options?.rules ?? [],
     redactKeys: options?.redactKeys ?? true,
     redactValues: options?.redactValues ?? true,
   };
@@ -0,0 +1,71 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Logger Registry
+ *
+ * Holds the named loggers returned by logger(), so repeated calls with the
+ * same name and level return the same instance.
+ */
+
+import type { LogLevel } from './types';
+
+const loggers = new Map<string, unknown>();
+
+function registryKey(name: string, level?: LogLevel): string {
+  return level ? `${name}\u0000${level}` : name;
+}
+
+/**
+ * Get the registered logger for a name and level, creating it on first use
+ */
+export function getOrCreateLogger<T>(
+  name: string,
+  level: LogLevel | undefined,
+  create: () => T
+): T {
+  const key = registryKey(name, level);
+  let logger = loggers.get(key) as T | undefined;
+
+  if (!logger) {
+    logger = create();
+    loggers.set(key, logger);
+  }
+
+  return logger;
+}
+
+/**
+ * Get the names of all registered loggers
+ */
+export function getLoggerNames(): string[] {
+  return [...new Set([...loggers.keys()].map(key => key.split('\u0000')[0] ?? key))];
+}
+
+/**
+ * Forget every registered logger (useful for testing)
+ */
+export function resetLoggerRegistry(): void {
+  loggers.clear();
+}
@@ -263,3 +263,68 @@ export function validateLogEntry(entry: unknown): { valid: boolean; errors: stri
     errors,
   };
 }
+
+/**
+ * UUID format check for browser entry ids
+ */
+/**
+ * Largest Unix millisecond timestamp a Date can hold
+ */
+const MAX_TIMESTAMP = 8.64e15;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validate a browser log entry against BROWSER_LOG_ENTRY_SCHEMA
+ */
+export function validateBrowserLogEntry(entry: unknown): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return { valid: false, errors: ['Entry must be an object'] };
+  }
+
+  const e = entry as Record<string, unknown>;
+
+  // Check required fields
+  for (const field of BROWSER_LOG_ENTRY_SCHEMA.required) {
+    if (e[field] === undefined || e[field] === null) {
+      errors.push(`Missing required field: ${field}`);
+    }
+  }
+
+  if (e.id !== undefined && (typeof e.id !== 'string' || !UUID_REGEX.test(e.id))) {
+    errors.push('Invalid id: must be a UUID string');
+  }
+
+  if (
+    e.timestamp !== undefined &&
+    (typeof e.timestamp !== 'number' ||
+      !Number.isFinite(e.timestamp) ||
+      Math.abs(e.timestamp) > MAX_TIMESTAMP)
+  ) {
+    errors.push('Invalid timestamp: must be a number (Unix milliseconds) within the Date range');
+  }
+
+  // Validate level
+  const validLevels = BROWSER_LOG_ENTRY_SCHEMA.properties.level.enum;
+  if (e.level !== undefined && !validLevels.includes(e.level as string)) {
+    errors.push(`Invalid level: ${String(e.level)}. Must be one of: ${validLevels.join(', ')}`);
+  }
+
+  if (e.message !== undefined && (typeof e.message !== 'string' || e.message.length === 0)) {
+    errors.push('Invalid message: must be a non-empty string');
+  }
+
+  if (
+    e.context !== undefined &&
+    (e.context === null || typeof e.context !== 'object' || Array.isArray(e.context))
+  ) {
+    errors.push('Invalid context: must be an object');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
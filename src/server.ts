@@ -23,111 +23,231 @@
  */
 
 /**
- * Server-side Winston logger implementation
+ * Server-side logger implementation
  *
  * Feature: 011-api-logger
  * User Story 2: Server-Side Winston File Logging
  *
  * This module provides:
- * - IServerLogger interface implementation using Winston
+ * - IServerLogger interface implementation
  * - Child logger support for persistent context
- * - Console output (colored in dev, JSON in prod)
- * - File output with daily rotation
+ * - Request-scoped context from runWithContext()
+ * - Context redaction with the active RedactionPolicy
+ * - Fan-out to pluggable transports
+ * - Winston console + daily rotating files when no transports are given
  */
 
-import winston from 'winston';
-
-import { shouldLog, getConfig, isDevelopment } from './config';
-import type { IServerLogger, LogContext, LogLevel } from './types';
-import { getWinstonConfig } from './winston.config';
+import { getContext } from './context';
+import { resolveErrorLogArgs } from './errors';
+import { resolveLevel } from './levels';
+import { createRedactionStats, redactContext } from './redact';
+import { closeTransports, flushTransports, writeToTransports } from './transports';
+import { getLogLevelPriority } from './types';
+import type {
+  ChildLoggerOptions,
+  FatalOptions,
+  IServerLogger,
+  LogContext,
+  LogLevel,
+  LogRecord,
+  RedactionPolicy,
+  RedactionStats,
+  Transport,
+} from './types';
+import { WinstonTransport } from './winston.config';
 
 /**
- * Add context to log entry
+ * Options for createServerLogger
  */
-function addContext(entry: Record<string, unknown>, context?: LogContext): void {
-  if (context && Object.keys(context).length > 0) {
-    Object.assign(entry, context);
-  }
+export interface ServerLoggerOptions {
+  /** Logger name */
+  name?: string;
+  /**
+   * Minimum log level (defaults to the configured level).
+   * Runtime levels from setLevel() take precedence.
+   */
+  level?: LogLevel;
+  /**
+   * Outputs for this logger. Replaces the default Winston console and
+   * daily-rotate file outputs when given.
+   */
+  transports?: Transport[];
+  /** Redaction policy for context, false to disable (default: the active policy) */
+  redaction?: RedactionPolicy | false;
 }
 
 /**
  * Server logger implementation
  */
 class ServerLoggerImpl implements IServerLogger {
-  private winston: winston.Logger;
+  private transports: Transport[];
   private context: Record<string, unknown> = {};
   private loggerName: string;
+  private level?: LogLevel;
+  private redaction?: RedactionPolicy | false;
+  private redactionStats = createRedactionStats();
 
-  constructor(options?: { name?: string; level?: LogLevel }) {
-    const config = getConfig();
+  constructor(options?: ServerLoggerOptions) {
     this.loggerName = options?.name || 'server-logger';
-
-    this.winston = winston.createLogger({
-      ...getWinstonConfig(),
-      level: options?.level ?? config.level,
-      defaultMeta: () => this.context,
-    });
+    this.level = options?.level;
+    this.transports = options?.transports ?? [new WinstonTransport()];
+    this.redaction = options?.redaction;
   }
 
   debug(message: string, context?: LogContext): void {
-    this.winston.debug(message, this.formatContext(context));
+    this.log('debug', message, context);
   }
 
   info(message: string, context?: LogContext): void {
-    this.winston.info(message, this.formatContext(context));
+    this.log('info', message, context);
   }
 
   warn(message: string, context?: LogContext): void {
-    this.winston.warn(message, this.formatContext(context));
+    this.log('warn', message, context);
   }
 
-  error(message: string, context?: LogContext): void {
-    this.winston.error(message, this.formatContext(context));
+  error(message: string, context?: LogContext): void;
+  error(error: unknown, message?: string, context?: LogContext): void;
+  error(
+    errorOrMessage: unknown,
+    messageOrContext?: string | LogContext,
+    context?: LogContext
+  ): void {
+    const args = resolveErrorLogArgs(errorOrMessage, messageOrContext, context);
+    this.log('error', args.message, args.context);
   }
 
-  fatal(message: string, context?: LogContext): void {
-    // Winston doesn't have fatal, use error instead
-    this.winston.error(message, this.formatContext(context));
+  fatal(message: string, context?: LogContext, options?: FatalOptions): void {
+    this.log('fatal', message, context);
+
+    if (options?.exit) {
+      void this.exitAfterClose(options);
+    }
   }
 
-  child(context: LogContext): IServerLogger {
+  child(context: LogContext, options?: ChildLoggerOptions): IServerLogger {
+    // Children share the parent's transports instead of opening new ones
     const child = new ServerLoggerImpl({
-      name: this.loggerName,
+      name: options?.name ?? this.loggerName,
+      level: options?.level ?? this.level,
+      transports: this.transports,
+      redaction: options?.redaction !== undefined ? options.redaction : this.redaction,
     });
 
     child.context = { ...this.context, ...context };
+    child.redactionStats = this.redactionStats;
 
     return child;
   }
 
   with(context: LogContext): IServerLogger {
-    const child = new ServerLoggerImpl({
-      name: this.loggerName,
+    return this.child(context);
+  }
+
+  flush(): Promise<void> {
+    return flushTransports(this.transports);
+  }
+
+  close(): Promise<void> {
+    return closeTransports(this.transports);
+  }
+
+  getRedactionStats(): RedactionStats {
+    return { ...this.redactionStats, hits: { ...this.redactionStats.hits } };
+  }
+
+  /**
+   * Get the transports this logger writes to
+   */
+  getTransports(): Transport[] {
+    return [...this.transports];
+  }
+
+  /**
+   * Build a record and hand it to every transport that accepts its level
+   */
+  private log(level: LogLevel, message: string, context?: LogContext): void {
+    // Resolved per call so setLevel() and config reloads apply to live loggers
+    if (
+      getLogLevelPriority(level) < getLogLevelPriority(resolveLevel(this.loggerName, this.level))
+    ) {
+      return;
+    }
+
+    const merged = this.formatContext(context);
+    const record: LogRecord = {
+      level,
+      message,
+      timestamp: Date.now(),
+      context: redactContext(merged, this.redaction, this.redactionStats),
+      logger: this.loggerName,
+    };
+
+    if (typeof merged?.traceId === 'string') {
+      record.trace = merged.traceId;
+    }
+
+    writeToTransports(this.transports, record);
+  }
+
+  /**
+   * Close every transport (bounded by flushTimeout), then exit the process
+   */
+  private async exitAfterClose(options: FatalOptions): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, options.flushTimeout ?? 5000);
     });
 
-    child.context = { ...this.context, ...context };
+    await Promise.race([this.close(), deadline]);
+    clearTimeout(timer);
 
-    return child;
+    process.exit(options.exitCode ?? 1);
   }
 
-  private formatContext(context?: LogContext): Record<string, unknown> | undefined {
-    if (!context || Object.keys(context).length === 0) {
+  /**
+   * Merge request context, then child context, then call-site context
+   */
+  private formatContext(context?: LogContext): LogContext | undefined {
+    const merged = { ...getContext(), ...this.context, ...context } as LogContext;
+
+    if (Object.keys(merged).length === 0) {
       return undefined;
     }
 
-    return context;
+    return merged;
   }
+}
 
-  static flush(): void {
-    // Winston loggers container doesn't have forEach, skip flush for now
-    // The loggers will flush automatically when the process exits
-  }
+/**
+ * Root logger behind logger() and child(), created on first use
+ */
+let rootLogger: IServerLogger | null = null;
+
+/**
+ * Get the root logger. It owns the default Winston outputs; named loggers
+ * and children derive from it and share them.
+ */
+function getRootLogger(): IServerLogger {
+  rootLogger ??= new ServerLoggerImpl({ name: 'server' });
+  return rootLogger;
 }
 
 /**
  * Create server logger instance
+ *
+ * @example
+ * ```typescript
+ * const log = createServerLogger({
+ *   name: 'api',
+ *   transports: [
+ *     new ConsoleTransport({ level: 'info' }),
+ *     new RotatingFileTransport({ dirname: './_logs', filename: 'api', maxFiles: 14 }),
+ *   ],
+ * });
+ * ```
  */
-function createServerLogger(options?: { name?: string; level?: LogLevel }): IServerLogger {
+function createServerLogger(options?: ServerLoggerOptions): IServerLogger {
   return new ServerLoggerImpl(options);
 }
 
@@ -135,4 +255,4 @@ function createServerLogger(options?: { name?: string; level?: LogLevel }): ISer
  * Export server logger
  */
 export default createServerLogger;
-export { createServerLogger, ServerLoggerImpl };
+export { createServerLogger, getRootLogger, ServerLoggerImpl };
@@ -0,0 +1,193 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Graceful Shutdown
+ *
+ * Flushes server loggers when the process is asked to stop, so tail logs
+ * are not lost on SIGTERM in containers.
+ *
+ * Provides:
+ * - installShutdownHooks() for SIGTERM/SIGINT/beforeExit
+ * - A deadline after which remaining transports are abandoned
+ * - A report of which transports finished and which were dropped
+ */
+
+import type { IServerLogger, Transport } from './types';
+
+/**
+ * Options for installShutdownHooks
+ */
+export interface ShutdownHookOptions {
+  /** Signals that trigger a shutdown (default: ['SIGTERM', 'SIGINT']) */
+  signals?: NodeJS.Signals[];
+  /** Also close loggers on 'beforeExit' (default: true) */
+  beforeExit?: boolean;
+  /** Maximum time to wait for transports in ms (default: 5000) */
+  timeout?: number;
+  /** Exit code used after a signal-triggered shutdown (default: 0) */
+  exitCode?: number;
+  /** Called with the outcome before the process exits */
+  onShutdown?: (report: ShutdownReport) => void;
+}
+
+/**
+ * Outcome of a shutdown
+ */
+export interface ShutdownReport {
+  /** Signal name or 'beforeExit' */
+  reason: string;
+  /** Time spent closing transports in ms */
+  duration: number;
+  /** Names of transports that closed within the deadline */
+  closed: string[];
+  /** Names of transports still pending at the deadline (their tail logs may be lost) */
+  dropped: string[];
+  /** Names of transports whose close() rejected */
+  failed: string[];
+}
+
+/**
+ * Transports of a logger when it exposes them, so they can be reported individually
+ */
+function getTransports(logger: IServerLogger): Transport[] | null {
+  const withTransports = logger as IServerLogger & { getTransports?: () => Transport[] };
+  return typeof withTransports.getTransports === 'function' ? withTransports.getTransports() : null;
+}
+
+/**
+ * Close loggers within a deadline and report the outcome per transport
+ */
+export async function shutdownLoggers(
+  loggers: IServerLogger[],
+  timeout: number,
+  reason = 'manual'
+): Promise<ShutdownReport> {
+  const start = Date.now();
+  const report: ShutdownReport = { reason, duration: 0, closed: [], dropped: [], failed: [] };
+
+  // Child loggers share transports with their parent, so close each one once
+  const targets = new Map<object, { name: string; close: () => Promise<void> }>();
+  loggers.forEach((logger, index) => {
+    const transports = getTransports(logger);
+    if (transports) {
+      for (const transport of transports) {
+        targets.set(transport, { name: transport.name, close: () => transport.close() });
+      }
+    } else {
+      targets.set(logger, { name: `logger-${index}`, close: () => logger.close() });
+    }
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, timeout);
+  });
+
+  const settled = new Set<object>();
+  const closing = Array.from(targets.entries()).map(async ([key, { name, close }]) => {
+    try {
+      await close();
+      report.closed.push(name);
+    } catch {
+      report.failed.push(name);
+    } finally {
+      settled.add(key);
+    }
+  });
+
+  await Promise.race([Promise.all(closing), deadline]);
+  clearTimeout(timer);
+
+  report.dropped = Array.from(targets.entries())
+    .filter(([key]) => !settled.has(key))
+    .map(([, { name }]) => name);
+  report.duration = Date.now() - start;
+  return report;
+}
+
+/**
+ * Flush and close loggers when the process receives SIGTERM/SIGINT or is about to exit.
+ * Returns a function that removes the hooks again.
+ *
+ * @example
+ * ```typescript
+ * const log = createServerLogger({ name: 'api' });
+ * installShutdownHooks(log, {
+ *   timeout: 3000,
+ *   onShutdown: report => {
+ *     if (report.dropped.length > 0) console.error('Lost logs from', report.dropped);
+ *   },
+ * });
+ * ```
+ */
+export function installShutdownHooks(
+  loggers: IServerLogger | IServerLogger[],
+  options?: ShutdownHookOptions
+): () => void {
+  const targets = Array.isArray(loggers) ? loggers : [loggers];
+  const signals = options?.signals ?? ['SIGTERM', 'SIGINT'];
+  const timeout = options?.timeout ?? 5000;
+  let shuttingDown = false;
+
+  const run = async (reason: string, exit: boolean): Promise<void> => {
+    // beforeExit fires again once our own async work drains, so only run once
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    const report = await shutdownLoggers(targets, timeout, reason);
+    options?.onShutdown?.(report);
+
+    if (exit) {
+      process.exit(options?.exitCode ?? 0);
+    }
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    // A second signal during a slow drain means "stop now", as Ctrl-C twice usually does
+    if (shuttingDown) {
+      process.exit(options?.exitCode ?? 0);
+    }
+    void run(signal, true);
+  };
+  const onBeforeExit = () => {
+    void run('beforeExit', false);
+  };
+
+  for (const signal of signals) {
+    process.on(signal, onSignal);
+  }
+  if (options?.beforeExit !== false) {
+    process.on('beforeExit', onBeforeExit);
+  }
+
+  return () => {
+    for (const signal of signals) {
+      process.off(signal, onSignal);
+    }
+    process.off('beforeExit', onBeforeExit);
+  };
+}
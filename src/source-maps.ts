@@ -0,0 +1,479 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Source Map Resolution (server-only)
+ *
+ * Resolves stack frames from bundled or minified code to their original
+ * sources using local `.map` files.
+ *
+ * Provides:
+ * - Source map v3 parsing with a built-in VLQ decoder
+ * - Lookup of maps through sourceMappingURL comments (files and data URLs) or `<file>.map`
+ * - Mapping of browser bundle URLs to local build directories
+ * - installSourceMapSupport() for every serialized server error
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { setStackFrameResolver } from './errors';
+import { parseStack } from './stack';
+import type { StackFrame } from './stack';
+
+/**
+ * Original position of a generated location. Lines and columns are 1-based.
+ */
+export interface OriginalPosition {
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+}
+
+/**
+ * A parsed source map
+ */
+export interface SourceMap {
+  /** Look up the original position of a 1-based generated line and column */
+  originalPositionFor(line: number, column: number): OriginalPosition | null;
+}
+
+/**
+ * Options for createSourceMapResolver
+ */
+export interface SourceMapResolverOptions {
+  /**
+   * Local build directories by URL prefix, for frames from browser bundles
+   * (e.g. { 'https://app.example.com/_next/': '.next/' })
+   */
+  urlRoots?: Record<string, string>;
+  /**
+   * Resolve frames that point at local paths and file:// URLs (default: true).
+   * Turn off when resolving untrusted input such as ingested browser logs.
+   */
+  localFiles?: boolean;
+  /** Custom mapping from a frame's file to a local generated file, or null to skip it */
+  resolvePath?: (file: string) => string | null | undefined;
+}
+
+/**
+ * Source map resolver interface
+ */
+export interface SourceMapResolver {
+  /** Map frames to their original positions; unresolved frames are returned unchanged */
+  resolveFrames(frames: StackFrame[]): StackFrame[];
+  /** Resolve the frames of a serialized error, its causes and aggregated errors, in place */
+  resolveError<T>(error: T): T;
+  /** Forget every loaded source map */
+  clear(): void;
+}
+
+// ============================================================================
+// VLQ Decoding
+// ============================================================================
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode one base64 VLQ mapping segment
+ *
+ * @throws Error on characters outside the base64 alphabet
+ */
+export function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid VLQ character: ${char}`);
+    }
+
+    value += (digit & 31) * 2 ** shift;
+
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    const magnitude = Math.floor(value / 2);
+    values.push(value % 2 === 1 ? -magnitude : magnitude);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
+
+// ============================================================================
+// Source Maps
+// ============================================================================
+
+interface Segment {
+  column: number;
+  source?: number;
+  line?: number;
+  sourceColumn?: number;
+  name?: number;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let source = 0;
+  let line = 0;
+  let sourceColumn = 0;
+  let name = 0;
+
+  for (const text of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let column = 0;
+
+    for (const part of text.split(',')) {
+      if (part === '') {
+        continue;
+      }
+
+      const values = decodeVlq(part);
+      column += values[0] ?? 0;
+      const segment: Segment = { column };
+
+      if (values.length >= 4) {
+        source += values[1] ?? 0;
+        line += values[2] ?? 0;
+        sourceColumn += values[3] ?? 0;
+        Object.assign(segment, { source, line, sourceColumn });
+
+        if (values.length >= 5) {
+          name += values[4] ?? 0;
+          segment.name = name;
+        }
+      }
+
+      segments.push(segment);
+    }
+
+    lines.push(segments.sort((a, b) => a.column - b.column));
+  }
+
+  return lines;
+}
+
+/**
+ * Source map implementation (mappings are decoded on first lookup)
+ */
+class SourceMapImpl implements SourceMap {
+  private mappings: string;
+  private sources: string[];
+  private names: string[];
+  private lines: Segment[][] | null = null;
+
+  constructor(mappings: string, sources: string[], names: string[]) {
+    this.mappings = mappings;
+    this.sources = sources;
+    this.names = names;
+  }
+
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    this.lines ??= decodeMappings(this.mappings);
+
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) {
+      return null;
+    }
+
+    // Last segment starting at or before the column
+    let match: Segment | undefined;
+    for (const segment of segments) {
+      if (segment.column > column - 1) {
+        break;
+      }
+      match = segment;
+    }
+
+    if (match?.source === undefined || match.line === undefined) {
+      return null;
+    }
+
+    const source = this.sources[match.source];
+    if (source === undefined) {
+      return null;
+    }
+
+    return {
+      source,
+      line: match.line + 1,
+      column: (match.sourceColumn ?? 0) + 1,
+      ...(match.name !== undefined &&
+        this.names[match.name] !== undefined && { name: this.names[match.name] }),
+    };
+  }
+}
+
+/**
+ * Parse a source map (v3). Relative sources are resolved against the map's
+ * directory when mapPath is given.
+ *
+ * @throws Error when the map is not a v3 source map with mappings
+ */
+export function parseSourceMap(input: string | object, mapPath?: string): SourceMap {
+  const raw = (typeof input === 'string' ? JSON.parse(input) : input) as {
+    version?: unknown;
+    mappings?: unknown;
+    sources?: unknown;
+    sourceRoot?: unknown;
+    names?: unknown;
+  };
+
+  if (raw.version !== 3 || typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) {
+    throw new Error('Invalid source map: expected a version 3 map with mappings and sources');
+  }
+
+  const root = typeof raw.sourceRoot === 'string' ? raw.sourceRoot : '';
+  const sources = (raw.sources as unknown[]).map(source => {
+    const joined = root ? `${root.replace(/\/$/, '')}/${String(source)}` : String(source);
+
+    // Keep URLs and bundler schemes (webpack://) as they are
+    if (!mapPath || /^[a-z][\w+.-]*:/i.test(joined) || path.isAbsolute(joined)) {
+      return joined;
+    }
+    return path.resolve(path.dirname(mapPath), joined);
+  });
+  const names = Array.isArray(raw.names) ? raw.names.map(String) : [];
+
+  return new SourceMapImpl(raw.mappings, sources, names);
+}
+
+// ============================================================================
+// Resolver
+// ============================================================================
+
+/**
+ * Matches sourceMappingURL comments; the last one in a file applies
+ */
+const SOURCE_MAPPING_URL = /\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/gm;
+
+/**
+ * Resolver implementation
+ */
+class SourceMapResolverImpl implements SourceMapResolver {
+  private options: SourceMapResolverOptions;
+  private maps = new Map<string, SourceMap | null>();
+
+  constructor(options?: SourceMapResolverOptions) {
+    this.options = options ?? {};
+  }
+
+  resolveFrames(frames: StackFrame[]): StackFrame[] {
+    return frames.map(frame => this.resolveFrame(frame));
+  }
+
+  resolveError<T>(error: T): T {
+    this.resolveErrorIn(error, new Set());
+    return error;
+  }
+
+  clear(): void {
+    this.maps.clear();
+  }
+
+  private resolveErrorIn(error: unknown, seen: Set<unknown>): void {
+    if (!error || typeof error !== 'object' || seen.has(error)) {
+      return;
+    }
+    seen.add(error);
+
+    const target = error as {
+      stack?: unknown;
+      frames?: unknown;
+      cause?: unknown;
+      errors?: unknown;
+    };
+
+    if (Array.isArray(target.frames)) {
+      target.frames = this.resolveFrames(target.frames as StackFrame[]);
+    } else if (typeof target.stack === 'string') {
+      target.frames = this.resolveFrames(parseStack(target.stack));
+    }
+
+    this.resolveErrorIn(target.cause, seen);
+    if (Array.isArray(target.errors)) {
+      target.errors.forEach(item => this.resolveErrorIn(item, seen));
+    }
+  }
+
+  private resolveFrame(frame: StackFrame): StackFrame {
+    if (frame.generated || frame.line === undefined || typeof frame.file !== 'string') {
+      return frame;
+    }
+
+    const file = this.localPath(frame.file);
+    const map = file ? this.load(file) : null;
+    const original = map?.originalPositionFor(frame.line, frame.column ?? 1);
+
+    if (!original) {
+      return frame;
+    }
+
+    return {
+      file: original.source,
+      line: original.line,
+      column: original.column,
+      ...((original.name ?? frame.function) && { function: original.name ?? frame.function }),
+      generated: {
+        file: frame.file,
+        line: frame.line,
+        ...(frame.column !== undefined && { column: frame.column }),
+      },
+    };
+  }
+
+  /**
+   * Map a frame's file to a local generated file
+   */
+  private localPath(file: string): string | null {
+    const custom = this.options.resolvePath?.(file);
+    if (custom !== undefined) {
+      return custom;
+    }
+
+    for (const [prefix, dir] of Object.entries(this.options.urlRoots ?? {})) {
+      if (file.startsWith(prefix)) {
+        const relative = file.slice(prefix.length).split(/[?#]/)[0] ?? '';
+        const root = path.resolve(dir);
+        let target: string;
+        try {
+          target = path.resolve(root, decodeURIComponent(relative));
+        } catch {
+          return null;
+        }
+
+        // Never leave the build directory
+        return target.startsWith(root + path.sep) ? target : null;
+      }
+    }
+
+    if (this.options.localFiles === false) {
+      return null;
+    }
+
+    if (file.startsWith('file://')) {
+      try {
+        return fileURLToPath(file);
+      } catch {
+        return null;
+      }
+    }
+
+    return path.isAbsolute(file) ? file : null;
+  }
+
+  /**
+   * Load (and cache) the source map of a generated file
+   */
+  private load(file: string): SourceMap | null {
+    if (this.maps.has(file)) {
+      return this.maps.get(file) ?? null;
+    }
+
+    let map: SourceMap | null = null;
+    try {
+      map = this.read(file);
+    } catch (error) {
+      console.warn(
+        `[SourceMaps] Unable to load source map for ${file}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    this.maps.set(file, map);
+    return map;
+  }
+
+  private read(file: string): SourceMap | null {
+    let reference: string | undefined;
+
+    if (fs.existsSync(file)) {
+      const code = fs.readFileSync(file, 'utf8');
+      for (const match of code.matchAll(SOURCE_MAPPING_URL)) {
+        reference = match[1];
+      }
+    }
+
+    if (reference?.startsWith('data:')) {
+      const comma = reference.indexOf(',');
+      const data = reference.slice(comma + 1);
+      const json = reference.slice(0, comma).endsWith(';base64')
+        ? Buffer.from(data, 'base64').toString('utf8')
+        : decodeURIComponent(data);
+      return parseSourceMap(json, file);
+    }
+
+    const mapPath = reference
+      ? path.resolve(path.dirname(file), decodeURIComponent(reference))
+      : `${file}.map`;
+
+    if (!fs.existsSync(mapPath)) {
+      return null;
+    }
+
+    return parseSourceMap(fs.readFileSync(mapPath, 'utf8'), mapPath);
+  }
+}
+
+/**
+ * Create a resolver that maps stack frames through local source maps.
+ * Maps are read synchronously on first use and cached.
+ *
+ * @example
+ * ```typescript
+ * // Resolve ingested browser stacks against the Next.js build output
+ * const sourceMaps = createSourceMapResolver({
+ *   urlRoots: { 'https://app.example.com/_next/': '.next/' },
+ *   localFiles: false,
+ * });
+ * const ingest = createLogIngestHandler({ sourceMaps });
+ * ```
+ */
+export function createSourceMapResolver(options?: SourceMapResolverOptions): SourceMapResolver {
+  return new SourceMapResolverImpl(options);
+}
+
+/**
+ * Resolve the frames of every serialized error through local source maps.
+ * Returns the resolver; call setStackFrameResolver(null) to uninstall.
+ *
+ * @example
+ * ```typescript
+ * installSourceMapSupport();
+ * log.error(err); // error.frames point at the original TypeScript sources
+ * ```
+ */
+export function installSourceMapSupport(options?: SourceMapResolverOptions): SourceMapResolver {
+  const resolver = createSourceMapResolver(options);
+  setStackFrameResolver(frames => resolver.resolveFrames(frames));
+  return resolver;
+}
@@ -0,0 +1,167 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Stack Trace Parsing
+ *
+ * Normalizes stack traces from V8 (Chrome, Node.js, Edge), SpiderMonkey
+ * (Firefox) and JavaScriptCore (Safari) into structured frames.
+ */
+
+/**
+ * A parsed stack frame. Lines and columns are 1-based.
+ */
+export interface StackFrame {
+  /** File path or URL */
+  file: string;
+  line?: number;
+  column?: number;
+  /** Function name, if the engine reported one */
+  function?: string;
+  /** Position in the generated file, set when the frame was resolved through a source map */
+  generated?: { file: string; line?: number; column?: number };
+}
+
+/**
+ * V8: "    at fn (file:1:2)", "    at file:1:2", "    at async fn (file:1:2)"
+ */
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?)(?::(\d+))?(?::(\d+))?\)?\s*$/;
+
+/**
+ * SpiderMonkey and JavaScriptCore: "fn@file:1:2", "@file:1:2", "file:1:2"
+ */
+const GECKO_FRAME = /^\s*(?:(.*?)@)?(.+?)(?::(\d+))?(?::(\d+))?\s*$/;
+
+/**
+ * V8 eval frames point at the caller: "eval at fn (file:1:2), <anonymous>:3:4"
+ */
+const V8_EVAL = /^eval at .*?\((.+?)(?::(\d+))?(?::(\d+))?\)/;
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : parseInt(value, 10);
+}
+
+function frame(
+  file: string,
+  line: string | undefined,
+  column: string | undefined,
+  fn: string | undefined
+): StackFrame {
+  return {
+    file,
+    ...(line !== undefined && { line: toNumber(line) }),
+    ...(column !== undefined && { column: toNumber(column) }),
+    ...(fn && { function: fn }),
+  };
+}
+
+function parseV8Line(line: string): StackFrame | null {
+  const match = V8_FRAME.exec(line);
+  if (!match?.[2]) {
+    return null;
+  }
+
+  const [, fn, location = '', lineNo, column] = match;
+
+  if (location.startsWith('eval at ')) {
+    const evalMatch = V8_EVAL.exec(location);
+    return evalMatch?.[1] ? frame(evalMatch[1], evalMatch[2], evalMatch[3], fn ?? 'eval') : null;
+  }
+
+  if (location === 'native' || location === '<anonymous>') {
+    return frame(location, undefined, undefined, fn);
+  }
+
+  return frame(location, lineNo, column, fn?.replace(/^async /, ''));
+}
+
+function parseGeckoLine(line: string): StackFrame | null {
+  const match = GECKO_FRAME.exec(line);
+  if (!match?.[2]) {
+    return null;
+  }
+
+  const [, fn, location = '', lineNo, column] = match;
+
+  // JavaScriptCore reports built-ins as "fn@[native code]"
+  if (location === '[native code]') {
+    return frame('native', undefined, undefined, fn);
+  }
+
+  // Firefox eval frames: "fn@file line 5 > eval:1:2"; report the caller
+  const evalIndex = location.indexOf(' line ');
+  if (evalIndex !== -1 && / > (?:eval|Function)/.test(location)) {
+    const caller = / line (\d+) > /.exec(location);
+    return frame(location.slice(0, evalIndex), caller?.[1], undefined, fn || 'eval');
+  }
+
+  // Message lines and other text without a position are not frames
+  if (lineNo === undefined) {
+    return null;
+  }
+
+  return frame(location, lineNo, column, fn || undefined);
+}
+
+/**
+ * Parse a stack trace into frames, skipping the message lines
+ *
+ * @example
+ * ```typescript
+ * parseStack(new Error('boom').stack);
+ * // [{ file: '/app/dist/server.js', line: 10, column: 15, function: 'handler' }, ...]
+ * ```
+ */
+export function parseStack(stack: string | undefined): StackFrame[] {
+  if (!stack) {
+    return [];
+  }
+
+  const lines = stack.split('\n');
+  const isV8 = lines.some(line => /^\s*at /.test(line));
+  const frames: StackFrame[] = [];
+
+  for (const line of lines) {
+    if (isV8) {
+      if (/^\s*at /.test(line)) {
+        const parsed = parseV8Line(line);
+        if (parsed) {
+          frames.push(parsed);
+        }
+      }
+      continue;
+    }
+
+    if (line.trim() === '') {
+      continue;
+    }
+
+    const parsed = parseGeckoLine(line);
+    if (parsed) {
+      frames.push(parsed);
+    }
+  }
+
+  return frames;
+}
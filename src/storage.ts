@@ -0,0 +1,520 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Browser Log Storage
+ *
+ * Backends that persist browser log entries until they are shipped.
+ *
+ * Provides:
+ * - localStorage and sessionStorage stores (synchronous, entry-capped)
+ * - An in-memory store for tests and non-persistent pages
+ * - An IndexedDB store with async appends, byte and age caps and cursor reads
+ */
+
+import type { BrowserLogEntry, BrowserLogStorage, StoredLogs } from './types';
+import { isBrowser } from './utils';
+
+/**
+ * Default storage key for Web Storage backends
+ */
+const STORAGE_KEY = 'glean_api_logs';
+
+/**
+ * Default number of entries kept by Web Storage and memory backends
+ */
+const MAX_ENTRIES = 100;
+
+/**
+ * Default IndexedDB database name
+ */
+const DB_NAME = 'glean-logger';
+
+/**
+ * Default IndexedDB byte cap (5MB)
+ */
+const MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Default IndexedDB entry cap
+ */
+const MAX_DB_ENTRIES = 10000;
+
+// ============================================================================
+// Web Storage
+// ============================================================================
+
+/**
+ * Options for the localStorage and sessionStorage backends
+ */
+export interface WebStorageLogStorageOptions {
+  /** Storage key (default: 'glean_api_logs') */
+  key?: string;
+  /** Maximum number of entries, oldest are dropped first (default: 100) */
+  maxEntries?: number;
+}
+
+/**
+ * Stores all entries as one JSON document under a Web Storage key.
+ * The document is re-read on every write so tabs sharing localStorage
+ * don't overwrite each other's entries.
+ */
+class WebStorageLogStorage implements BrowserLogStorage {
+  readonly name: string;
+  private key: string;
+  private maxEntries: number;
+  private getStorage: () => Storage;
+
+  constructor(name: string, getStorage: () => Storage, options: WebStorageLogStorageOptions = {}) {
+    this.name = name;
+    this.getStorage = getStorage;
+    this.key = options.key ?? STORAGE_KEY;
+    this.maxEntries = options.maxEntries ?? MAX_ENTRIES;
+  }
+
+  append(entry: BrowserLogEntry): void {
+    if (!isBrowser()) {
+      return;
+    }
+
+    const stored = this.load();
+    stored.entries.push(entry);
+
+    if (stored.entries.length > this.maxEntries) {
+      stored.entries.splice(0, stored.entries.length - this.maxEntries);
+    }
+
+    stored.lastUpdated = entry.timestamp;
+
+    try {
+      this.save(stored);
+    } catch (error) {
+      if (!isQuotaError(error) || stored.entries.length <= 1) {
+        throw error;
+      }
+
+      // Out of quota: drop the older half and try once more
+      stored.entries.splice(0, Math.floor(stored.entries.length / 2));
+      this.save(stored);
+    }
+  }
+
+  read(limit?: number): BrowserLogEntry[] {
+    const entries = this.load().entries.sort((a, b) => a.timestamp - b.timestamp);
+    return limit === undefined ? entries : entries.slice(0, limit);
+  }
+
+  remove(ids: string[]): void {
+    if (!isBrowser()) {
+      return;
+    }
+
+    const removed = new Set(ids);
+    const stored = this.load();
+    const entries = stored.entries.filter(entry => !removed.has(entry.id));
+
+    if (entries.length === 0) {
+      this.getStorage().removeItem(this.key);
+    } else if (entries.length !== stored.entries.length) {
+      this.save({ ...stored, entries });
+    }
+  }
+
+  clear(): void {
+    if (isBrowser()) {
+      this.getStorage().removeItem(this.key);
+    }
+  }
+
+  private load(): StoredLogs {
+    if (!isBrowser()) {
+      return { entries: [], lastUpdated: 0, version: 1 };
+    }
+
+    try {
+      const stored = this.getStorage().getItem(this.key);
+      if (!stored) {
+        return { entries: [], lastUpdated: 0, version: 1 };
+      }
+
+      const parsed = JSON.parse(stored);
+      return {
+        entries: Array.isArray(parsed.entries) ? parsed.entries : [],
+        lastUpdated: parsed.lastUpdated || 0,
+        version: parsed.version || 1,
+      };
+    } catch {
+      return { entries: [], lastUpdated: 0, version: 1 };
+    }
+  }
+
+  private save(stored: StoredLogs): void {
+    this.getStorage().setItem(this.key, JSON.stringify(stored));
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  const name = (error as { name?: unknown } | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+/**
+ * Create a store backed by localStorage
+ *
+ * @example
+ * ```typescript
+ * const storage = createLocalStorageLogStorage({ key: 'app-logs', maxEntries: 200 });
+ * ```
+ */
+export function createLocalStorageLogStorage(
+  options?: WebStorageLogStorageOptions
+): BrowserLogStorage {
+  return new WebStorageLogStorage('localStorage', () => localStorage, options);
+}
+
+/**
+ * Create a store backed by sessionStorage (entries are dropped with the tab)
+ */
+export function createSessionStorageLogStorage(
+  options?: WebStorageLogStorageOptions
+): BrowserLogStorage {
+  return new WebStorageLogStorage('sessionStorage', () => sessionStorage, options);
+}
+
+// ============================================================================
+// Memory
+// ============================================================================
+
+/**
+ * Options for the in-memory backend
+ */
+export interface MemoryLogStorageOptions {
+  /** Maximum number of entries, oldest are dropped first (default: 100) */
+  maxEntries?: number;
+}
+
+/**
+ * Keeps entries in memory for the lifetime of the page
+ */
+class MemoryLogStorage implements BrowserLogStorage {
+  readonly name = 'memory';
+  private entries: BrowserLogEntry[] = [];
+  private maxEntries: number;
+
+  constructor(options: MemoryLogStorageOptions = {}) {
+    this.maxEntries = options.maxEntries ?? MAX_ENTRIES;
+  }
+
+  append(entry: BrowserLogEntry): void {
+    this.entries.push(entry);
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  read(limit?: number): BrowserLogEntry[] {
+    return this.entries.slice(0, limit);
+  }
+
+  remove(ids: string[]): void {
+    const removed = new Set(ids);
+    this.entries = this.entries.filter(entry => !removed.has(entry.id));
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+/**
+ * Create a store that keeps entries in memory
+ */
+export function createMemoryLogStorage(options?: MemoryLogStorageOptions): BrowserLogStorage {
+  return new MemoryLogStorage(options);
+}
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+/**
+ * Options for the IndexedDB backend
+ */
+export interface IndexedDbLogStorageOptions {
+  /** Database name (default: 'glean-logger') */
+  dbName?: string;
+  /** Maximum total size of stored entries in bytes (default: 5MB) */
+  maxBytes?: number;
+  /** Maximum number of entries (default: 10000) */
+  maxEntries?: number;
+  /** Drop entries older than this many ms (default: no limit) */
+  maxAge?: number;
+}
+
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const TOTALS_KEY = 'totals';
+
+/**
+ * Row in the entries object store. `seq` is auto-incremented, so key
+ * order is insertion order.
+ */
+interface EntryRecord {
+  seq?: number;
+  id: string;
+  timestamp: number;
+  size: number;
+  entry: BrowserLogEntry;
+}
+
+/**
+ * Running totals, updated in the same transaction as the entries so
+ * caps stay exact when several tabs write to the database
+ */
+interface Totals {
+  bytes: number;
+  count: number;
+}
+
+/**
+ * Stores entries as individual IndexedDB records.
+ *
+ * Every operation awaits the same connection promise before opening its
+ * transaction, and IndexedDB runs overlapping transactions in creation
+ * order, so a read always sees the appends issued before it.
+ */
+class IndexedDbLogStorage implements BrowserLogStorage {
+  readonly name = 'indexedDB';
+  private dbName: string;
+  private maxBytes: number;
+  private maxEntries: number;
+  private maxAge?: number;
+  private connection: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDbLogStorageOptions = {}) {
+    this.dbName = options.dbName ?? DB_NAME;
+    this.maxBytes = options.maxBytes ?? MAX_BYTES;
+    this.maxEntries = options.maxEntries ?? MAX_DB_ENTRIES;
+    this.maxAge = options.maxAge;
+  }
+
+  async append(entry: BrowserLogEntry): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const meta = tx.objectStore(META_STORE);
+
+    const totals: Totals = (await request(meta.get(TOTALS_KEY))) ?? { bytes: 0, count: 0 };
+    const size = byteLength(JSON.stringify(entry));
+    const record: EntryRecord = { id: entry.id, timestamp: entry.timestamp, size, entry };
+
+    entries.add(record);
+    totals.bytes += size;
+    totals.count++;
+
+    const evict = (cursor: IDBCursorWithValue): void => {
+      const evicted = cursor.value as EntryRecord;
+      totals.bytes -= evicted.size;
+      totals.count--;
+      cursor.delete();
+    };
+
+    if (this.maxAge !== undefined) {
+      const expired = IDBKeyRange.upperBound(Date.now() - this.maxAge, true);
+      await walk(entries.index('timestamp').openCursor(expired), cursor => {
+        evict(cursor);
+        return true;
+      });
+    }
+
+    // Oldest first until the caps are met; an entry larger than maxBytes evicts itself
+    await walk(entries.openCursor(), cursor => {
+      if (totals.bytes <= this.maxBytes && totals.count <= this.maxEntries) {
+        return false;
+      }
+      evict(cursor);
+      return true;
+    });
+
+    meta.put(totals, TOTALS_KEY);
+    await complete(tx);
+  }
+
+  async read(limit = Infinity): Promise<BrowserLogEntry[]> {
+    const db = await this.open();
+    const tx = db.transaction(ENTRIES_STORE, 'readonly');
+    const result: BrowserLogEntry[] = [];
+    const cutoff = this.maxAge === undefined ? -Infinity : Date.now() - this.maxAge;
+
+    await walk(tx.objectStore(ENTRIES_STORE).openCursor(), cursor => {
+      const record = cursor.value as EntryRecord;
+      if (record.timestamp >= cutoff) {
+        result.push(record.entry);
+      }
+      return result.length < limit;
+    });
+
+    return result;
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const meta = tx.objectStore(META_STORE);
+    const byId = entries.index('id');
+
+    const totals: Totals = (await request(meta.get(TOTALS_KEY))) ?? { bytes: 0, count: 0 };
+
+    for (const id of ids) {
+      const key = await request(byId.getKey(id));
+      if (key === undefined) {
+        continue;
+      }
+
+      const record = (await request(entries.get(key))) as EntryRecord;
+      entries.delete(key);
+      totals.bytes -= record.size;
+      totals.count--;
+    }
+
+    meta.put(totals, TOTALS_KEY);
+    await complete(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+    tx.objectStore(ENTRIES_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await complete(tx);
+  }
+
+  /**
+   * Close the connection; the next operation reopens it
+   */
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+
+    if (connection) {
+      (await connection).close();
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      this.connection = this.connect();
+    }
+    return this.connection;
+  }
+
+  private async connect(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB is not available');
+    }
+
+    const open = indexedDB.open(this.dbName, 1);
+
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'seq', autoIncrement: true });
+      entries.createIndex('id', 'id', { unique: true });
+      entries.createIndex('timestamp', 'timestamp');
+      db.createObjectStore(META_STORE);
+    };
+
+    try {
+      const db = await request(open);
+      // Let another tab upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        this.connection = null;
+      };
+      return db;
+    } catch (error) {
+      this.connection = null;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create a store backed by IndexedDB
+ *
+ * @example
+ * ```typescript
+ * const storage = createIndexedDbLogStorage({ maxBytes: 2 * 1024 * 1024, maxAge: 86400000 });
+ * const log = createBrowserLogger({ storage, endpoint: '/api/logs' });
+ * ```
+ */
+export function createIndexedDbLogStorage(
+  options?: IndexedDbLogStorageOptions
+): BrowserLogStorage & { close(): Promise<void> } {
+  return new IndexedDbLogStorage(options);
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+/**
+ * Visit cursor positions until `visit` returns false or the cursor ends
+ */
+function walk(
+  req: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => boolean
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (cursor && visit(cursor)) {
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
@@ -0,0 +1,233 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BreadcrumbBuffer, instrumentBreadcrumbs, stripUrl } from '../breadcrumbs';
+import type { Breadcrumb } from '../types';
+
+function crumb(message: string): Breadcrumb {
+  return { timestamp: 1000, category: 'log', message };
+}
+
+describe('breadcrumbs.ts', () => {
+  describe('BreadcrumbBuffer', () => {
+    it('should keep the most recent breadcrumbs oldest first', () => {
+      const buffer = new BreadcrumbBuffer(3);
+      for (const message of ['a', 'b', 'c', 'd', 'e']) {
+        buffer.add(crumb(message));
+      }
+
+      expect(buffer.size).toBe(3);
+      expect(buffer.toArray().map(b => b.message)).toEqual(['c', 'd', 'e']);
+    });
+
+    it('should keep nothing when the capacity is 0', () => {
+      const buffer = new BreadcrumbBuffer(0);
+      buffer.add(crumb('a'));
+
+      expect(buffer.toArray()).toEqual([]);
+    });
+
+    it('should clear', () => {
+      const buffer = new BreadcrumbBuffer(2);
+      buffer.add(crumb('a'));
+      buffer.clear();
+      buffer.add(crumb('b'));
+
+      expect(buffer.toArray().map(b => b.message)).toEqual(['b']);
+    });
+  });
+
+  describe('stripUrl', () => {
+    it('should drop the query string and fragment', () => {
+      expect(stripUrl('/api/users?token=secret#top')).toBe('/api/users');
+      expect(stripUrl('https://example.com/a#b')).toBe('https://example.com/a');
+      expect(stripUrl('/plain')).toBe('/plain');
+    });
+  });
+
+  describe('instrumentBreadcrumbs', () => {
+    let recorded: Array<Omit<Breadcrumb, 'timestamp'>>;
+    let windowListeners: Map<string, (event: unknown) => void>;
+    let documentListeners: Map<string, (event: unknown) => void>;
+    let location: { href: string };
+
+    const record = (breadcrumb: Omit<Breadcrumb, 'timestamp'>) => recorded.push(breadcrumb);
+
+    beforeEach(() => {
+      recorded = [];
+      windowListeners = new Map();
+      documentListeners = new Map();
+      location = { href: 'https://app.example.com/' };
+
+      vi.stubGlobal('window', {
+        location,
+        addEventListener: (type: string, fn: (event: unknown) => void) =>
+          windowListeners.set(type, fn),
+        removeEventListener: (type: string) => windowListeners.delete(type),
+      });
+      vi.stubGlobal('document', {
+        addEventListener: (type: string, fn: (event: unknown) => void) =>
+          documentListeners.set(type, fn),
+        removeEventListener: (type: string) => documentListeners.delete(type),
+      });
+      vi.stubGlobal('history', {
+        pushState: (_data: unknown, _unused: string, url: string) => {
+          location.href = `https://app.example.com${url}`;
+        },
+        replaceState: () => {},
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should record pushState and popstate navigation without query strings', () => {
+      const stop = instrumentBreadcrumbs(record, { fetch: false, xhr: false });
+
+      history.pushState({}, '', '/cart?session=abc');
+      location.href = 'https://app.example.com/';
+      windowListeners.get('popstate')?.({});
+
+      expect(recorded).toEqual([
+        {
+          category: 'navigation',
+          message: 'pushState https://app.example.com/cart',
+          data: { from: 'https://app.example.com/', to: 'https://app.example.com/cart' },
+        },
+        expect.objectContaining({ message: 'popstate https://app.example.com/' }),
+      ]);
+
+      stop();
+      expect(windowListeners.has('popstate')).toBe(false);
+    });
+
+    it('should record clicks on the nearest element with data attributes', () => {
+      instrumentBreadcrumbs(record, { navigation: false, fetch: false, xhr: false });
+
+      const button = { tagName: 'BUTTON', dataset: { action: 'checkout' }, parentElement: null };
+      const icon = { tagName: 'SVG', dataset: {}, parentElement: button };
+      documentListeners.get('click')?.({ target: icon });
+      documentListeners.get('click')?.({ target: { tagName: 'DIV', dataset: {} } });
+
+      expect(recorded).toEqual([
+        {
+          category: 'click',
+          message: 'Clicked button',
+          data: { tag: 'button', action: 'checkout' },
+        },
+      ]);
+    });
+
+    it('should record fetch calls with status and restore fetch on stop', async () => {
+      const original = vi.fn((input: RequestInfo | URL) =>
+        String(input).includes('missing')
+          ? Promise.resolve(new Response(null, { status: 404 }))
+          : Promise.reject(new TypeError('Failed to fetch'))
+      );
+      vi.stubGlobal('fetch', original);
+
+      const stop = instrumentBreadcrumbs(
+        record,
+        { navigation: false, clicks: false, xhr: false },
+        url => url === '/api/logs'
+      );
+
+      await fetch('/api/missing?id=1', { method: 'post' });
+      await expect(fetch('https://down.example.com/')).rejects.toThrow('Failed to fetch');
+      await fetch('/api/logs').catch(() => {});
+
+      expect(recorded).toEqual([
+        {
+          category: 'fetch',
+          message: 'POST /api/missing 404',
+          data: { method: 'POST', url: '/api/missing', status: 404, duration: expect.any(Number) },
+        },
+        expect.objectContaining({
+          message: 'GET https://down.example.com/ failed',
+          data: expect.objectContaining({ error: 'TypeError: Failed to fetch' }),
+        }),
+      ]);
+
+      stop();
+      expect(globalThis.fetch).toBe(original);
+    });
+
+    it('should leave later wrappers in place on stop and pass calls through', async () => {
+      const original = vi.fn(() => Promise.resolve(new Response(null, { status: 200 })));
+      vi.stubGlobal('fetch', original);
+
+      const stop = instrumentBreadcrumbs(record, { navigation: false, clicks: false, xhr: false });
+      const ours = globalThis.fetch;
+      const later = vi.fn((input: RequestInfo | URL, init?: RequestInit) => ours(input, init));
+      globalThis.fetch = later;
+
+      stop();
+      await fetch('/api/users');
+
+      expect(globalThis.fetch).toBe(later);
+      expect(original).toHaveBeenCalledTimes(1);
+      expect(recorded).toEqual([]);
+    });
+
+    it('should record XHR calls when they finish', () => {
+      class FakeXhr {
+        status = 0;
+        private listeners: Array<() => void> = [];
+        open(): void {}
+        send(): void {
+          this.status = 500;
+          this.listeners.forEach(listener => listener());
+        }
+        addEventListener(_type: string, listener: () => void): void {
+          this.listeners.push(listener);
+        }
+      }
+      const { open, send } = FakeXhr.prototype;
+      vi.stubGlobal('XMLHttpRequest', FakeXhr);
+
+      const stop = instrumentBreadcrumbs(record, {
+        navigation: false,
+        clicks: false,
+        fetch: false,
+      });
+      const xhr = new XMLHttpRequest();
+      xhr.open('get', '/api/report?format=csv');
+      xhr.send();
+
+      expect(recorded).toEqual([
+        {
+          category: 'xhr',
+          message: 'GET /api/report 500',
+          data: { method: 'GET', url: '/api/report', status: 500, duration: expect.any(Number) },
+        },
+      ]);
+
+      stop();
+      expect(FakeXhr.prototype.open).toBe(open);
+      expect(FakeXhr.prototype.send).toBe(send);
+    });
+  });
+});
@@ -22,8 +22,12 @@
  * SOFTWARE.
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { BrowserLoggerImpl } from '../browser';
+import { configure, resetConfig } from '../config';
+import { createRedactionPolicy, DEFAULT_PATTERNS, PII_PATTERNS } from '../redact';
+import { createIndexedDbLogStorage, createMemoryLogStorage } from '../storage';
 
 describe('browser.ts', () => {
   describe('BrowserLoggerImpl', () => {
@@ -89,6 +93,483 @@ describe('browser.ts', () => {
       it('should exist and be callable', () => {
         expect(typeof logger.flush).toBe('function');
       });
+
+      it('should resolve without an endpoint', async () => {
+        await expect(logger.flush()).resolves.toBeUndefined();
+      });
+    });
+  });
+
+  describe('log shipping', () => {
+    let store: Map<string, string>;
+    let listeners: Record<string, () => void>;
+
+    beforeEach(() => {
+      store = new Map();
+      listeners = {};
+      vi.stubGlobal('window', {
+        addEventListener: (type: string, fn: () => void) => {
+          listeners[type] = fn;
+        },
+        removeEventListener: (type: string, fn: () => void) => {
+          if (listeners[type] === fn) {
+            delete listeners[type];
+          }
+        },
+      });
+      vi.stubGlobal('document', { visibilityState: 'visible' });
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    function createShippingLogger(
+      options: { batchSize?: number; maxRetries?: number; flushInterval?: number } = {}
+    ) {
+      return new BrowserLoggerImpl({
+        consoleEnabled: false,
+        storageKey: 'ship-logs',
+        endpoint: '/api/logs',
+        flushInterval: 0,
+        retryDelay: 1,
+        ...options,
+      });
+    }
+
+    it('should POST stored entries in batches and clear them after 2xx', async () => {
+      const fetchMock = vi.fn(() => Promise.resolve(new Response(null, { status: 204 })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const shipper = createShippingLogger({ batchSize: 2 });
+      shipper.info('one');
+      shipper.info('two');
+      shipper.info('three');
+
+      await shipper.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('/api/logs');
+      expect(init.method).toBe('POST');
+      const payload = JSON.parse(init.body as string);
+      expect(payload.entries.map((e: { message: string }) => e.message)).toEqual(['one', 'two']);
+      expect(shipper.getStoredLogs()).toHaveLength(0);
+    });
+
+    it('should retry failed batches and keep entries when retries are exhausted', async () => {
+      const fetchMock = vi.fn(() => Promise.resolve(new Response(null, { status: 503 })));
+      vi.stubGlobal('fetch', fetchMock);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const shipper = createShippingLogger({ maxRetries: 2 });
+      shipper.error('boom');
+
+      await shipper.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(shipper.getStoredLogs()).toHaveLength(1);
+    });
+
+    it('should drop refused batches and warn about rejected entries', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(
+          Response.json({ status: 400, accepted: 0, rejectedCount: 1 }, { status: 400 })
+        )
+        .mockResolvedValueOnce(Response.json({ status: 200, accepted: 1, rejectedCount: 1 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const shipper = createShippingLogger({ batchSize: 1 });
+      shipper.info('refused');
+      shipper.info('partly rejected');
+      await shipper.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(shipper.getStoredLogs()).toHaveLength(0);
+      expect(warn).toHaveBeenCalledWith('[BrowserLogger] Log endpoint refused 1 log entries (400)');
+      expect(warn).toHaveBeenCalledWith('[BrowserLogger] Log endpoint rejected 1 of 1 entries');
+    });
+
+    it('should succeed after a transient failure', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue(new Response(null, { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const shipper = createShippingLogger();
+      shipper.warn('flaky');
+
+      await shipper.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(shipper.getStoredLogs()).toHaveLength(0);
+    });
+
+    it('should use sendBeacon on pagehide without removing entries', () => {
+      const sendBeacon = vi.fn(() => true);
+      vi.stubGlobal('navigator', { sendBeacon });
+
+      const shipper = createShippingLogger();
+      shipper.info('leaving');
+      listeners['pagehide']?.();
+
+      expect(sendBeacon).toHaveBeenCalledWith('/api/logs', expect.any(Blob));
+      expect(shipper.getStoredLogs()).toHaveLength(1);
+    });
+
+    it('should beacon each entry once and not resend it on the next flush', async () => {
+      const sendBeacon = vi.fn(() => true);
+      const fetchMock = vi.fn(() => Promise.resolve(new Response(null, { status: 204 })));
+      vi.stubGlobal('navigator', { sendBeacon });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const shipper = createShippingLogger();
+      shipper.info('first');
+      listeners['pagehide']?.();
+      listeners['pagehide']?.();
+      shipper.info('second');
+      listeners['pagehide']?.();
+
+      expect(sendBeacon).toHaveBeenCalledTimes(2);
+
+      await shipper.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(0);
+      expect(shipper.getStoredLogs()).toHaveLength(0);
+    });
+
+    it('should stop the timer and page listeners on close', async () => {
+      const clear = vi.spyOn(globalThis, 'clearInterval');
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(() => Promise.resolve(new Response(null, { status: 204 })))
+      );
+
+      const shipper = createShippingLogger({ flushInterval: 60000 });
+      expect(Object.keys(listeners).sort()).toEqual(['pagehide', 'visibilitychange']);
+
+      shipper.info('last');
+      await shipper.close();
+
+      expect(clear).toHaveBeenCalledTimes(1);
+      expect(listeners).toEqual({});
+      expect(shipper.getStoredLogs()).toHaveLength(0);
+    });
+  });
+
+  describe('captureGlobalErrors', () => {
+    let store: Map<string, string>;
+    let listeners: Map<string, Set<(event: unknown) => void>>;
+    let logger: BrowserLoggerImpl;
+
+    function dispatch(type: string, event: unknown): void {
+      for (const listener of listeners.get(type) ?? []) {
+        listener(event);
+      }
+    }
+
+    beforeEach(() => {
+      store = new Map();
+      listeners = new Map();
+      vi.stubGlobal('window', {
+        location: { href: 'https://app.example.com/checkout?session=abc#pay' },
+        addEventListener: (type: string, fn: (event: unknown) => void) => {
+          if (!listeners.has(type)) listeners.set(type, new Set());
+          listeners.get(type)!.add(fn);
+        },
+        removeEventListener: (type: string, fn: (event: unknown) => void) => {
+          listeners.get(type)?.delete(fn);
+        },
+      });
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+      });
+      logger = new BrowserLoggerImpl({ consoleEnabled: false, storageKey: 'capture-logs' });
+    });
+
+    afterEach(() => {
+      resetConfig();
+      vi.unstubAllGlobals();
+    });
+
+    it('should persist uncaught errors with the serialized error and page URL', () => {
+      const stop = logger.captureGlobalErrors();
+      dispatch('error', { error: new TypeError('x is undefined'), message: 'ignored' });
+
+      const [entry] = logger.getStoredLogs();
+      expect(entry?.level).toBe('error');
+      expect(entry?.message).toBe('Uncaught TypeError: x is undefined');
+      expect(entry?.context).toMatchObject({
+        type: 'uncaught-error',
+        url: 'https://app.example.com/checkout',
+        error: { name: 'TypeError', message: 'x is undefined' },
+        fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+      });
+
+      stop();
+    });
+
+    it('should build an error from the event when the error object is missing', () => {
+      logger.captureGlobalErrors();
+      dispatch('error', {
+        error: null,
+        message: 'Script error.',
+        filename: 'https://cdn.example.com/widget.js',
+        lineno: 12,
+        colno: 4,
+      });
+
+      const [entry] = logger.getStoredLogs();
+      expect(entry?.context?.error).toMatchObject({
+        message: 'Script error.',
+        frames: [{ file: 'https://cdn.example.com/widget.js', line: 12, column: 4 }],
+      });
+    });
+
+    it('should capture unhandled rejections and CSP violations', () => {
+      logger.captureGlobalErrors();
+      dispatch('unhandledrejection', { reason: new Error('fetch failed') });
+      dispatch('securitypolicyviolation', {
+        blockedURI: 'https://evil.example.com/x.js',
+        violatedDirective: 'script-src-elem',
+        effectiveDirective: 'script-src-elem',
+        disposition: 'enforce',
+        sourceFile: 'https://app.example.com/',
+        lineNumber: 1,
+        columnNumber: 1,
+      });
+
+      const [rejection, violation] = logger.getStoredLogs();
+      expect(rejection?.message).toBe('Unhandled rejection: fetch failed');
+      expect(rejection?.context?.type).toBe('unhandled-rejection');
+      expect(violation?.level).toBe('warn');
+      expect(violation?.context).toMatchObject({
+        type: 'csp-violation',
+        violation: { blockedURI: 'https://evil.example.com/x.js' },
+      });
+    });
+
+    it('should deduplicate repeats and report the count when the window closes', () => {
+      vi.useFakeTimers();
+      try {
+        logger.captureGlobalErrors({ dedupeWindow: 1000 });
+        const error = new Error('render loop');
+        for (let i = 0; i < 5; i++) {
+          dispatch('error', { error });
+        }
+        expect(logger.getStoredLogs()).toHaveLength(1);
+
+        vi.advanceTimersByTime(1001);
+
+        const entries = logger.getStoredLogs();
+        expect(entries).toHaveLength(2);
+        expect(entries[1]?.message).toBe('Uncaught Error: render loop');
+        expect(entries[1]?.context).toMatchObject({
+          repeats: 4,
+          fingerprint: entries[0]?.context?.fingerprint,
+        });
+
+        dispatch('error', { error });
+        expect(logger.getStoredLogs()).toHaveLength(3);
+        expect(logger.getStoredLogs()[2]?.context?.repeats).toBeUndefined();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should report pending repeats when capture stops', () => {
+      const stop = logger.captureGlobalErrors();
+      const error = new Error('render loop');
+      dispatch('error', { error });
+      dispatch('error', { error });
+
+      stop();
+
+      const entries = logger.getStoredLogs();
+      expect(entries).toHaveLength(2);
+      expect(entries[1]?.context?.repeats).toBe(1);
+    });
+
+    it('should fingerprint by stack location even when stacks are left out', () => {
+      configure({ includeStackTrace: false });
+      logger.captureGlobalErrors();
+      const here = new Error('same message');
+      const there = (() => new Error('same message'))();
+      dispatch('error', { error: here });
+      dispatch('error', { error: there });
+
+      const [first, second] = logger.getStoredLogs();
+      expect(first?.context?.error).not.toHaveProperty('stack');
+      expect(first?.context?.fingerprint).not.toBe(second?.context?.fingerprint);
+    });
+
+    it('should leave other listeners in place and remove its own on stop', () => {
+      const existing = vi.fn();
+      window.addEventListener('error', existing);
+
+      const stop = logger.captureGlobalErrors();
+      expect(logger.captureGlobalErrors()).toBe(stop);
+      expect(listeners.get('error')?.size).toBe(2);
+
+      stop();
+      dispatch('error', { error: new Error('after stop') });
+
+      expect(existing).toHaveBeenCalledTimes(1);
+      expect(logger.getStoredLogs()).toHaveLength(0);
+    });
+
+    it('should only install the requested listeners', () => {
+      logger.captureGlobalErrors({ rejections: false, securityPolicyViolations: false });
+
+      expect(listeners.has('error')).toBe(true);
+      expect(listeners.has('unhandledrejection')).toBe(false);
+      expect(listeners.has('securitypolicyviolation')).toBe(false);
+    });
+  });
+
+  describe('breadcrumbs', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.unstubAllGlobals();
+    });
+
+    it('should attach recent debug and info calls to error entries', () => {
+      const store = new Map<string, string>();
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+      });
+
+      const logger = new BrowserLoggerImpl({
+        consoleEnabled: false,
+        storageKey: 'crumb-logs',
+        level: 'warn',
+        maxBreadcrumbs: 2,
+      });
+      logger.debug('opened cart');
+      logger.info('applied coupon', { code: 'SAVE10' });
+      logger.info('clicked pay', { password: 'hunter2' });
+      logger.warn('slow response');
+      logger.error('payment failed');
+
+      const entries = logger.getStoredLogs();
+      expect(entries.map(e => e.message)).toEqual(['slow response', 'payment failed']);
+      expect(entries[0]?.context?.breadcrumbs).toBeUndefined();
+
+      const breadcrumbs = entries[1]?.context?.breadcrumbs as Array<Record<string, unknown>>;
+      expect(breadcrumbs.map(b => b.message)).toEqual(['applied coupon', 'clicked pay']);
+      expect(breadcrumbs[0]).toMatchObject({
+        category: 'log',
+        level: 'info',
+        data: { code: 'SAVE10' },
+      });
+      expect(breadcrumbs[1]?.data).toEqual({ password: '[REDACTED]' });
+    });
+
+    it('should redact instrumented breadcrumb data', () => {
+      let click: ((event: unknown) => void) | undefined;
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('document', {
+        addEventListener: (_type: string, fn: (event: unknown) => void) => {
+          click = fn;
+        },
+        removeEventListener: () => {},
+      });
+
+      const logger = new BrowserLoggerImpl({
+        consoleEnabled: false,
+        persistenceEnabled: false,
+        redaction: createRedactionPolicy({ patterns: [...DEFAULT_PATTERNS, ...PII_PATTERNS] }),
+      });
+      const stop = logger.captureBreadcrumbs({ navigation: false, fetch: false, xhr: false });
+      click?.({
+        target: {
+          tagName: 'BUTTON',
+          dataset: { email: 'ada@example.com', token: 'abc123', action: 'invite' },
+        },
+      });
+      stop();
+
+      const [breadcrumb] = logger.getBreadcrumbs();
+      expect(breadcrumb?.data).toMatchObject({ tag: 'button', action: 'invite' });
+      expect(JSON.stringify(breadcrumb?.data)).not.toContain('ada@example.com');
+      expect(JSON.stringify(breadcrumb?.data)).not.toContain('abc123');
+    });
+
+    it('should not record breadcrumbs when disabled', () => {
+      const logger = new BrowserLoggerImpl({ consoleEnabled: false, maxBreadcrumbs: 0 });
+      logger.info('hello');
+
+      expect(logger.getBreadcrumbs()).toEqual([]);
+    });
+  });
+
+  describe('storage', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should persist to a custom storage without a browser', () => {
+      const logger = new BrowserLoggerImpl({
+        consoleEnabled: false,
+        storage: createMemoryLogStorage(),
+      });
+      logger.info('kept in memory');
+
+      expect(logger.getStoredLogs().map(e => e.message)).toEqual(['kept in memory']);
+    });
+
+    it('should ship and remove entries from IndexedDB', async () => {
+      vi.stubGlobal('window', { addEventListener: () => {} });
+      const fetchMock = vi.fn(() => Promise.resolve(new Response(null, { status: 204 })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const storage = createIndexedDbLogStorage({ dbName: 'browser-logger-ship' });
+      const logger = new BrowserLoggerImpl({
+        consoleEnabled: false,
+        storage,
+        endpoint: '/api/logs',
+        flushInterval: 0,
+        batchSize: 2,
+      });
+      logger.info('one');
+      logger.info('two');
+      logger.info('three');
+
+      expect(logger.getStoredLogs()).toEqual([]);
+      expect((await logger.readStoredLogs()).map(e => e.message)).toEqual(['one', 'two', 'three']);
+
+      await logger.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(await logger.readStoredLogs()).toEqual([]);
+      await storage.close();
+    });
+
+    it('should warn when the storage fails', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const storage = createMemoryLogStorage();
+      vi.spyOn(storage, 'append').mockRejectedValue(new Error('disk full'));
+
+      const logger = new BrowserLoggerImpl({ consoleEnabled: false, storage });
+      logger.info('lost');
+      await logger.readStoredLogs();
+
+      expect(warn).toHaveBeenCalledWith('[BrowserLogger] Failed to persist log entry to memory');
     });
   });
 });
@@ -0,0 +1,210 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+
+import {
+  configure,
+  getConfig,
+  getEffectiveConfig,
+  reloadConfig,
+  resetConfig,
+  setFileConfig,
+} from '../config';
+import { findConfigFile, loadConfig } from '../config-loader';
+
+describe('config.ts', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    resetConfig();
+  });
+
+  it('should use defaults when nothing else is set', () => {
+    expect(getConfig()).toMatchObject({
+      enabled: true,
+      includeStackTrace: true,
+      maxFileSize: 10 * 1024 * 1024,
+      maxFiles: 14,
+      logDir: './_logs',
+      jsonFormat: true,
+    });
+    expect(getEffectiveConfig().jsonFormat).toEqual({ value: true, source: 'default' });
+  });
+
+  it('should read prefixed env vars before the older names', () => {
+    vi.stubEnv('GLEAN_LOG_LEVEL', 'warn');
+    vi.stubEnv('NEXT_PUBLIC_LOG_LEVEL', 'error');
+    vi.stubEnv('LOG_MAX_SIZE', '5m');
+    vi.stubEnv('GLEAN_LOG_JSON_FORMAT', 'no');
+    vi.stubEnv('GLEAN_LOG_INCLUDE_STACK_TRACE', '0');
+
+    expect(getConfig()).toMatchObject({
+      level: 'warn',
+      maxFileSize: 5 * 1024 * 1024,
+      jsonFormat: false,
+      includeStackTrace: false,
+    });
+    expect(getEffectiveConfig().level).toEqual({
+      value: 'warn',
+      source: 'env',
+      origin: 'GLEAN_LOG_LEVEL',
+    });
+  });
+
+  it('should read NEXT_PUBLIC_* vars and skip env vars without process', () => {
+    vi.stubEnv('LOG_LEVEL', '');
+    vi.stubEnv('NEXT_PUBLIC_LOG_LEVEL', 'error');
+    expect(getEffectiveConfig().level).toMatchObject({
+      value: 'error',
+      origin: 'NEXT_PUBLIC_LOG_LEVEL',
+    });
+
+    resetConfig();
+    vi.stubGlobal('process', undefined);
+    try {
+      expect(() => reloadConfig()).not.toThrow();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should report every invalid env var at once and fall back', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('GLEAN_LOG_LEVEL', 'verbose');
+    vi.stubEnv('GLEAN_LOG_ENABLED', 'maybe');
+    vi.stubEnv('GLEAN_LOG_MAX_FILES', '-3');
+    setFileConfig({ level: 'info' }, 'glean-logger.config.json');
+
+    const config = getConfig();
+
+    expect(config.level).toBe('info');
+    expect(config.enabled).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(1);
+    const message = String(warn.mock.calls[0]?.[0]);
+    expect(message).toContain('GLEAN_LOG_LEVEL: must be one of debug, info, warn, error, fatal');
+    expect(message).toContain('GLEAN_LOG_ENABLED: must be a boolean, got "maybe"');
+    expect(message).toContain('GLEAN_LOG_MAX_FILES');
+  });
+
+  it('should layer file, env and overrides in order', () => {
+    vi.stubEnv('LOG_LEVEL', '');
+    setFileConfig({ level: 'info', logDir: '/from/file', maxFiles: '2w' }, '/app/config.json');
+    vi.stubEnv('GLEAN_LOG_DIR', '/from/env');
+    configure({ level: 'error' });
+
+    expect(getEffectiveConfig()).toMatchObject({
+      level: { value: 'error', source: 'override' },
+      logDir: { value: '/from/env', source: 'env', origin: 'GLEAN_LOG_DIR' },
+      maxFiles: { value: 14, source: 'file', origin: '/app/config.json' },
+    });
+  });
+
+  it('should reject invalid overrides with all errors and keep the previous config', () => {
+    configure({ level: 'warn' });
+
+    expect(() =>
+      configure({ level: 'loud' as never, maxFileSize: 'huge', colour: true } as never)
+    ).toThrow(
+      [
+        'Invalid logger configuration:',
+        '  - configure(): level must be one of debug, info, warn, error, fatal, got "loud"',
+        '  - configure(): maxFileSize must be a positive size such as 10485760 or "10m", got "huge"',
+        '  - configure(): unknown option "colour"',
+      ].join('\n')
+    );
+    expect(getConfig().level).toBe('warn');
+  });
+
+  it('should cache until the config changes or is reloaded', () => {
+    const first = getConfig();
+    vi.stubEnv('GLEAN_LOG_LEVEL', 'fatal');
+
+    expect(getConfig()).toBe(first);
+    expect(reloadConfig().level).toBe('fatal');
+    expect(configure({ enabled: false }).enabled).toBe(false);
+  });
+
+  describe('loadConfig', () => {
+    let dir: string;
+
+    // The test setup sets LOG_LEVEL, which would win over the file
+    beforeEach(() => {
+      vi.stubEnv('LOG_LEVEL', '');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should find and load a JSON config file', async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-config-'));
+      const file = path.join(dir, 'glean-logger.config.json');
+      fs.writeFileSync(file, JSON.stringify({ level: 'info', maxFileSize: '1k' }));
+
+      expect(findConfigFile(dir)).toBe(file);
+      const config = await loadConfig({ cwd: dir, overrides: { jsonFormat: false } });
+
+      expect(config).toMatchObject({ level: 'info', maxFileSize: 1024, jsonFormat: false });
+      expect(getEffectiveConfig().maxFileSize.origin).toBe(file);
+    });
+
+    it('should load the default export of a JS config file', async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-config-'));
+      fs.writeFileSync(
+        path.join(dir, 'glean-logger.config.mjs'),
+        "export default { level: 'error', developmentFormat: false };"
+      );
+
+      expect(await loadConfig({ cwd: dir })).toMatchObject({
+        level: 'error',
+        developmentFormat: false,
+      });
+    });
+
+    it('should fail with the file path on invalid files', async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-config-'));
+      const file = path.join(dir, 'glean-logger.config.json');
+      fs.writeFileSync(file, '{ level: ');
+
+      await expect(loadConfig({ cwd: dir })).rejects.toThrow(
+        `Failed to load logger config file ${file}`
+      );
+
+      fs.writeFileSync(file, JSON.stringify({ maxFiles: 0 }));
+      await expect(loadConfig({ cwd: dir })).rejects.toThrow(`${file}: maxFiles must be`);
+    });
+
+    it('should skip the file layer when none exists', async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-config-'));
+
+      expect(findConfigFile(dir)).toBeNull();
+      expect((await loadConfig({ cwd: dir })).level).toBe('debug');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { getContext, runWithContext } from '../context';
+import { createLoggedFetch } from '../http';
+import { createServerLogger } from '../server';
+import { MemoryTransport } from '../transports';
+
+describe('context.ts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('runWithContext', () => {
+    it('should expose the context across awaits and be gone afterwards', async () => {
+      await runWithContext({ requestId: 'req-1' }, async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        expect(getContext()).toEqual({ requestId: 'req-1' });
+      });
+
+      expect(getContext()).toBeUndefined();
+    });
+
+    it('should merge nested contexts over the outer one', () => {
+      runWithContext({ requestId: 'req-1', userId: 1 }, () => {
+        runWithContext({ userId: 2 }, () => {
+          expect(getContext()).toEqual({ requestId: 'req-1', userId: 2 });
+        });
+        expect(getContext()).toEqual({ requestId: 'req-1', userId: 1 });
+      });
+    });
+
+    it('should keep concurrent runs isolated', async () => {
+      const seen = await Promise.all(
+        ['a', 'b'].map(id =>
+          runWithContext({ requestId: id }, async () => {
+            await new Promise(resolve => setTimeout(resolve, id === 'a' ? 5 : 1));
+            return getContext()?.requestId;
+          })
+        )
+      );
+
+      expect(seen).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('server logger', () => {
+    it('should merge the active context below child and call-site context', () => {
+      const memory = new MemoryTransport();
+      const log = createServerLogger({ transports: [memory] }).child({ module: 'db' });
+
+      runWithContext({ requestId: 'req-1', module: 'http' }, () => {
+        log.info('query', { rows: 3 });
+      });
+      log.info('outside');
+
+      const [inside, outside] = memory.getRecords();
+      expect(inside?.context).toEqual({ requestId: 'req-1', module: 'db', rows: 3 });
+      expect(outside?.context).toEqual({ module: 'db' });
+    });
+  });
+
+  describe('createLoggedFetch', () => {
+    it('should reuse the active requestId for X-Request-ID', async () => {
+      const fetchMock = vi.fn((_input: RequestInfo | URL, _init?: RequestInit) =>
+        Promise.resolve(new Response('ok'))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const logger = { logRequest: vi.fn(), logResponse: vi.fn(), logError: vi.fn() };
+      const loggedFetch = createLoggedFetch({ logger });
+
+      await runWithContext({ requestId: 'req-inbound' }, () =>
+        loggedFetch('https://api.example.com/users')
+      );
+
+      const init = fetchMock.mock.calls[0]?.[1] ?? {};
+      expect((init.headers as Record<string, string>)['X-Request-ID']).toBe('req-inbound');
+      expect(logger.logRequest.mock.calls[0]?.[0]).toMatchObject({ requestId: 'req-inbound' });
+
+      vi.unstubAllGlobals();
+    });
+
+    it('should generate a requestId outside of any context', async () => {
+      const fetchMock = vi.fn((_input: RequestInfo | URL, _init?: RequestInit) =>
+        Promise.resolve(new Response('ok'))
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const logger = { logRequest: vi.fn(), logResponse: vi.fn(), logError: vi.fn() };
+
+      await createLoggedFetch({ logger })('https://api.example.com/users');
+
+      const init = fetchMock.mock.calls[0]?.[1] ?? {};
+      expect((init.headers as Record<string, string>)['X-Request-ID']).toMatch(/^[0-9a-f-]{36}$/);
+
+      vi.unstubAllGlobals();
+    });
+  });
+});
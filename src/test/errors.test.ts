@@ -0,0 +1,263 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { createBrowserLogger } from '../browser';
+import { configure, resetConfig } from '../config';
+import {
+  CIRCULAR_ERROR,
+  isError,
+  resolveErrorLogArgs,
+  serializeContextErrors,
+  serializeError,
+  setStackFrameResolver,
+} from '../errors';
+import { formatJsonRecord } from '../formatters';
+import { redactContext } from '../redact';
+import { createServerLogger } from '../server';
+import { MemoryTransport } from '../transports';
+
+describe('errors.ts', () => {
+  afterEach(() => {
+    resetConfig();
+    setStackFrameResolver(null);
+  });
+
+  describe('serializeError', () => {
+    it('should keep name, message, stack and own enumerable fields', () => {
+      const error = Object.assign(new TypeError('upstream failed'), {
+        code: 'ECONNRESET',
+        statusCode: 502,
+        errno: -104,
+      });
+
+      expect(serializeError(error)).toEqual({
+        name: 'TypeError',
+        message: 'upstream failed',
+        stack: error.stack,
+        code: 'ECONNRESET',
+        statusCode: 502,
+        errno: -104,
+      });
+    });
+
+    it('should add parsed frames only with a resolver installed or on request', () => {
+      const error = new Error('boom');
+
+      expect(serializeError(error).frames).toBeUndefined();
+      expect(serializeError(error, { frames: true }).frames?.[0]?.file).toContain('errors.test.ts');
+
+      setStackFrameResolver(frames => frames.slice(0, 1));
+      expect(serializeError(error).frames).toHaveLength(1);
+      expect(serializeError(error, { frames: false }).frames).toBeUndefined();
+    });
+
+    it('should follow cause chains', () => {
+      const root = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      const error = new Error('request failed', {
+        cause: new Error('retry failed', { cause: root }),
+      });
+
+      const serialized = serializeError(error, { stack: false });
+
+      expect(serialized).toEqual({
+        name: 'Error',
+        message: 'request failed',
+        cause: {
+          name: 'Error',
+          message: 'retry failed',
+          cause: { name: 'Error', message: 'socket hang up', code: 'ECONNRESET' },
+        },
+      });
+    });
+
+    it('should keep non-error causes as they are', () => {
+      expect(serializeError(new Error('failed', { cause: { attempt: 3 } })).cause).toEqual({
+        attempt: 3,
+      });
+    });
+
+    it('should serialize AggregateError members', () => {
+      const error = new AggregateError([new Error('a'), new RangeError('b')], 'all failed');
+
+      expect(serializeError(error, { stack: false })).toEqual({
+        name: 'AggregateError',
+        message: 'all failed',
+        errors: [
+          { name: 'Error', message: 'a' },
+          { name: 'RangeError', message: 'b' },
+        ],
+      });
+    });
+
+    it('should keep DOMException codes', () => {
+      const error = new DOMException('The operation was aborted.', 'AbortError');
+
+      expect(isError(error)).toBe(true);
+      expect(serializeError(error, { stack: false })).toMatchObject({
+        name: 'AbortError',
+        message: 'The operation was aborted.',
+        code: 20,
+      });
+    });
+
+    it('should be cycle-safe', () => {
+      const a = new Error('a') as Error & { cause?: unknown; self?: unknown };
+      const b = new Error('b', { cause: a });
+      a.cause = b;
+      a.self = a;
+
+      const serialized = serializeError(a, { stack: false });
+
+      expect(serialized).toEqual({
+        name: 'Error',
+        message: 'a',
+        self: CIRCULAR_ERROR,
+        cause: { name: 'Error', message: 'b', cause: CIRCULAR_ERROR },
+      });
+      expect(() => JSON.stringify(serialized)).not.toThrow();
+    });
+
+    it('should copy cyclic and deeply nested property values safely', () => {
+      const request: Record<string, unknown> = { method: 'GET', headers: ['accept'] };
+      request.self = request;
+      const error = Object.assign(new Error('request failed'), {
+        request,
+        deep: { a: { b: { c: 1 } } },
+      });
+
+      const serialized = serializeError(error, { stack: false, maxDepth: 2 });
+
+      expect(serialized.request).toEqual({
+        method: 'GET',
+        headers: ['accept'],
+        self: CIRCULAR_ERROR,
+      });
+      expect(serialized.deep).toEqual({ a: { b: '[Object]' } });
+      expect(() => JSON.stringify(serialized)).not.toThrow();
+    });
+
+    it('should stop at maxDepth', () => {
+      let error = new Error('0');
+      for (let i = 1; i <= 5; i++) {
+        error = new Error(String(i), { cause: error });
+      }
+
+      const serialized = serializeError(error, { stack: false, maxDepth: 2 });
+
+      expect(serialized.cause).toEqual({
+        name: 'Error',
+        message: '4',
+        cause: { name: 'Error', message: '3', cause: { name: 'Error', message: '2' } },
+      });
+    });
+
+    it('should describe thrown non-errors', () => {
+      expect(serializeError('boom')).toEqual({ name: 'Error', message: 'boom' });
+      expect(serializeError({ status: 500 })).toEqual({ name: 'Error', message: '{"status":500}' });
+      expect(serializeError(undefined)).toEqual({ name: 'Error', message: 'undefined' });
+    });
+  });
+
+  describe('resolveErrorLogArgs', () => {
+    it('should pass message calls through', () => {
+      expect(resolveErrorLogArgs('failed', { id: 1 })).toEqual({
+        message: 'failed',
+        context: { id: 1 },
+      });
+    });
+
+    it('should default the message to the error message', () => {
+      const { message, context } = resolveErrorLogArgs(new Error('boom'), undefined, { id: 1 });
+
+      expect(message).toBe('boom');
+      expect(context).toMatchObject({ id: 1, error: { name: 'Error', message: 'boom' } });
+    });
+
+    it('should leave out stacks when includeStackTrace is off', () => {
+      configure({ includeStackTrace: false });
+
+      const { context } = resolveErrorLogArgs(new Error('boom'), 'failed');
+
+      expect(context?.error).toEqual({ name: 'Error', message: 'boom' });
+    });
+
+    it('should leave out stacks of errors passed in context when includeStackTrace is off', () => {
+      configure({ includeStackTrace: false });
+      const context = { failure: new Error('boom') };
+
+      expect(serializeContextErrors(context)).toEqual({
+        failure: { name: 'Error', message: 'boom' },
+      });
+      expect(redactContext(context)).toEqual({ failure: { name: 'Error', message: 'boom' } });
+    });
+  });
+
+  describe('loggers', () => {
+    it('should log errors on the server logger', () => {
+      const memory = new MemoryTransport();
+      const log = createServerLogger({ transports: [memory] });
+      const error = Object.assign(new Error('db down', { cause: new Error('timeout') }), {
+        code: 'E_DB',
+      });
+
+      log.error(error, 'Query failed', { table: 'users' });
+      log.error('plain message', { id: 1 });
+
+      const [first, second] = memory.getRecords();
+      expect(first).toMatchObject({
+        level: 'error',
+        message: 'Query failed',
+        context: {
+          table: 'users',
+          error: { message: 'db down', code: 'E_DB', cause: { message: 'timeout' } },
+        },
+      });
+      expect(second).toMatchObject({ message: 'plain message', context: { id: 1 } });
+    });
+
+    it('should log errors on the browser logger', () => {
+      const memory = new MemoryTransport();
+      const log = createBrowserLogger({ transports: [memory], persistenceEnabled: false });
+
+      log.error(new RangeError('out of range'));
+
+      expect(memory.getRecords()[0]).toMatchObject({
+        message: 'out of range',
+        context: { error: { name: 'RangeError', message: 'out of range' } },
+      });
+    });
+
+    it('should keep Error values in JSON output when redaction is off', () => {
+      const context = redactContext({ failure: new Error('boom') }, false);
+
+      const line = JSON.parse(
+        formatJsonRecord({ level: 'error', message: 'x', timestamp: 1000, context })
+      );
+
+      expect(line.context.failure).toMatchObject({ name: 'Error', message: 'boom' });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { configure, resetConfig } from '../config';
+import { formatErrorStack, formatForConsole, formatMessage, formatRecord } from '../formatters';
+import { redactContext } from '../redact';
+
+describe('formatters.ts', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  describe('formatMessage', () => {
+    it('should append context as key=value pairs', () => {
+      expect(formatMessage('hello', { user: 'ada', tags: ['a'] })).toBe(
+        'hello user=ada tags=["a"]'
+      );
+    });
+
+    it('should color keys when asked', () => {
+      expect(formatMessage('hello', { user: 'ada' }, { color: true })).toBe(
+        'hello \x1b[2muser=\x1b[0mada'
+      );
+    });
+
+    it('should survive circular values', () => {
+      const value: Record<string, unknown> = {};
+      value.self = value;
+
+      expect(formatMessage('hello', { value })).toBe('hello value=[Unable to stringify]');
+    });
+  });
+
+  describe('formatErrorStack', () => {
+    it('should print the stack followed by each cause', () => {
+      const root = new Error('timeout');
+      const error = new Error('connection reset', { cause: root });
+
+      const lines = formatErrorStack(error).split('\n');
+
+      expect(lines[0]).toBe('Error: connection reset');
+      expect(lines.some(line => line === 'Caused by: Error: timeout')).toBe(true);
+    });
+
+    it('should stop at circular causes and print non-error causes', () => {
+      const error = new Error('loop') as Error & { cause?: unknown };
+      error.cause = error;
+      expect(formatErrorStack(error).match(/Caused by/g)).toBeNull();
+
+      const coded = new Error('failed', { cause: { code: 'E42' } });
+      expect(formatErrorStack(coded)).toContain('Caused by: {"code":"E42"}');
+    });
+
+    it('should list AggregateError members indented', () => {
+      const first = new Error('a');
+      first.stack = 'Error: a';
+      const error = new AggregateError([first], 'all failed');
+      error.stack = 'AggregateError: all failed';
+
+      expect(formatErrorStack(error).split('\n')).toEqual([
+        'AggregateError: all failed',
+        '    [0] Error: a',
+      ]);
+    });
+
+    it('should accept errors copied to plain objects by redaction', () => {
+      const context = redactContext({ error: new Error('boom', { cause: new Error('inner') }) });
+
+      expect(formatErrorStack(context?.error)).toMatch(
+        /^Error: boom[\s\S]*Caused by: Error: inner/
+      );
+    });
+  });
+
+  describe('formatForConsole', () => {
+    it('should print timestamp, aligned level, logger name and context', () => {
+      const line = formatForConsole('info', 'ready', { port: 3000 }, 1000, 'api', { color: false });
+
+      expect(line).toBe('[1970-01-01T00:00:01.000Z] INFO  [api] ready port=3000');
+    });
+
+    it('should print errors below the line, indented', () => {
+      const error = new Error('boom');
+      error.stack = 'Error: boom\n    at handler (app.ts:1:1)';
+
+      const output = formatForConsole('error', 'failed', { error, id: 7 }, 1000, undefined, {
+        color: false,
+      });
+
+      expect(output.split('\n')).toEqual([
+        '[1970-01-01T00:00:01.000Z] ERROR failed id=7',
+        '    Error: boom',
+        '        at handler (app.ts:1:1)',
+      ]);
+    });
+
+    it('should keep errors on the line when stack traces are disabled', () => {
+      configure({ includeStackTrace: false });
+
+      const output = formatForConsole(
+        'error',
+        'failed',
+        { error: new TypeError('bad') },
+        1000,
+        'db',
+        {
+          color: false,
+        }
+      );
+
+      expect(output).toBe('[1970-01-01T00:00:01.000Z] ERROR [db] failed error=TypeError: bad');
+    });
+  });
+
+  describe('formatRecord', () => {
+    const record = { level: 'info' as const, message: 'ready', timestamp: 0 };
+
+    it('should print JSON in production unless jsonFormat is off', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      expect(JSON.parse(formatRecord(record)).message).toBe('ready');
+
+      configure({ jsonFormat: false });
+      expect(formatRecord(record)).not.toMatch(/^\{/);
+      expect(formatRecord(record)).toContain('ready');
+    });
+
+    it('should print JSON in development when developmentFormat is off', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      expect(formatRecord(record)).not.toMatch(/^\{/);
+
+      configure({ developmentFormat: false });
+      expect(JSON.parse(formatRecord(record)).message).toBe('ready');
+    });
+  });
+});
@@ -42,7 +42,9 @@ import {
   DEFAULT_BODY_LOGGING_CONFIG,
   ApiLoggerBuilder,
   createLoggedFetch,
+  createFetchInterceptor,
 } from '../http';
+import { runWithContext } from '../context';
 
 // Mock Response class for testing
 class MockResponse {
@@ -749,7 +751,7 @@ describe('Request Body Redaction', () => {
     const redacted = redactBody(body);
     expect((redacted as Record<string, unknown>).username).toBe('testuser');
     expect((redacted as Record<string, unknown>).password).toBe('[REDACTED]');
-    expect((redacted as Record<string, unknown>).email).toBe('test@example.com');
+    expect((redacted as Record<string, unknown>).email).toBe('[REDACTED-EMAIL]');
   });
 });
 
@@ -1418,3 +1420,157 @@ describe('Request Body String Handling', () => {
     expect(mockLogger.logRequest).toHaveBeenCalled();
   });
 });
+
+// ============================================================================
+// Fetch Interceptor
+// ============================================================================
+
+describe('createFetchInterceptor', () => {
+  function createMockLogger() {
+    return { logRequest: vi.fn(), logResponse: vi.fn(), logError: vi.fn() };
+  }
+
+  it('should add correlation headers and log the request body', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({ logger });
+    const payload = JSON.stringify({ user: 'ada', password: 'secret' });
+
+    const request = await interceptor.request(
+      new Request('https://api.example.com/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: payload,
+      })
+    );
+
+    const requestId = request.headers.get('X-Request-ID');
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(request.headers.get('traceparent')).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(await request.text()).toBe(payload);
+    expect(logger.logRequest.mock.calls[0]?.[0]).toMatchObject({
+      requestId,
+      method: 'POST',
+      url: 'https://api.example.com/login',
+      body: { user: 'ada', password: '[REDACTED]' },
+    });
+  });
+
+  it('should log a prefix of request bodies of unknown length', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({
+      logger,
+      bodyLoggingConfig: { ...DEFAULT_BODY_LOGGING_CONFIG, maxSize: 16 },
+    });
+    const payload = 'x'.repeat(1000);
+
+    const request = await interceptor.request(
+      new Request('https://api.example.com/upload', { method: 'POST', body: payload })
+    );
+
+    expect(await request.text()).toBe(payload);
+    expect(logger.logRequest.mock.calls[0]?.[0]).toMatchObject({
+      body: `${'x'.repeat(16)}... [truncated]`,
+    });
+  });
+
+  it('should log a complete response context', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({ logger });
+    const request = await interceptor.request(new Request('https://api.example.com/users'));
+
+    const response = Response.json({ id: 1, token: 'abc' }, { status: 201 });
+    const returned = await interceptor.response(response, request);
+
+    expect(returned).toBe(response);
+    const context = logger.logResponse.mock.calls[0]?.[0];
+    expect(context).toMatchObject({
+      requestId: request.headers.get('X-Request-ID'),
+      method: 'GET',
+      url: 'https://api.example.com/users',
+      statusCode: 201,
+      body: { id: 1, token: '[REDACTED]' },
+    });
+    expect(context.duration).toBeGreaterThanOrEqual(0);
+    expect(context.traceId).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should log the real error with timing', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({ logger });
+    const request = await interceptor.request(new Request('https://api.example.com/users'));
+    const failure = new TypeError('fetch failed');
+
+    await interceptor.error(failure, request);
+
+    expect(logger.logError).toHaveBeenCalledWith(
+      failure,
+      expect.objectContaining({
+        requestId: request.headers.get('X-Request-ID'),
+        url: 'https://api.example.com/users',
+        duration: expect.any(Number),
+      })
+    );
+  });
+
+  it('should honor the body logging config', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({
+      logger,
+      bodyLoggingConfig: { ...DEFAULT_BODY_LOGGING_CONFIG, enabled: false },
+    });
+    const request = await interceptor.request(new Request('https://api.example.com/users'));
+
+    await interceptor.response(Response.json({ id: 1 }), request);
+
+    expect(logger.logResponse.mock.calls[0]?.[0].body).toBeUndefined();
+  });
+
+  it('should ignore requests it did not start and forget the oldest pending ones', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({ logger, maxPending: 1 });
+    const first = await interceptor.request(new Request('https://api.example.com/a'));
+    const second = await interceptor.request(new Request('https://api.example.com/b'));
+
+    await interceptor.response(new Response('ok'), new Request('https://api.example.com/c'));
+    await interceptor.response(new Response('ok'), first);
+    await interceptor.response(new Response('ok'), second);
+
+    expect(logger.logResponse).toHaveBeenCalledTimes(1);
+    expect(logger.logResponse.mock.calls[0]?.[0].url).toBe('https://api.example.com/b');
+  });
+
+  it('should keep overlapping requests in one context apart', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({ logger });
+
+    await runWithContext({ requestId: 'inbound-1' }, async () => {
+      const a = await interceptor.request(new Request('http://x/a'));
+      const b = await interceptor.request(new Request('http://x/b'));
+
+      await interceptor.response(new Response('a', { status: 201 }), a);
+      await interceptor.response(new Response('b', { status: 200 }), b);
+    });
+
+    const responses = logger.logResponse.mock.calls.map(([context]) => [
+      context.requestId,
+      context.url,
+      context.statusCode,
+    ]);
+    expect(responses).toEqual([
+      ['inbound-1', 'http://x/a', 201],
+      ['inbound-1', 'http://x/b', 200],
+    ]);
+  });
+
+  it('should pass everything through when disabled', async () => {
+    const logger = createMockLogger();
+    const interceptor = createFetchInterceptor({ logger, enabled: false });
+    const original = new Request('https://api.example.com/users');
+
+    expect(await interceptor.request(original)).toBe(original);
+    await interceptor.error(new Error('x'), original);
+
+    expect(logger.logRequest).not.toHaveBeenCalled();
+    expect(logger.logError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { createLogIngestHandler } from '../ingest';
+import type { IServerLogger } from '../types';
+
+function createMockLogger(): IServerLogger {
+  const mock = {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    child: vi.fn(),
+    with: vi.fn(),
+  };
+  return mock as unknown as IServerLogger;
+}
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: Date.UTC(2026, 0, 1),
+    level: 'info',
+    message: 'Button clicked',
+    ...overrides,
+  };
+}
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/api/logs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('ingest.ts', () => {
+  let logger: IServerLogger;
+
+  beforeEach(() => {
+    logger = createMockLogger();
+  });
+
+  describe('ingest', () => {
+    it('should re-emit valid entries at their level with browser metadata', () => {
+      const handler = createLogIngestHandler({ logger });
+      const first = entry({ level: 'warn', context: { count: 2 } });
+
+      const result = handler.ingest({ entries: [first] });
+
+      expect(result).toMatchObject({ status: 200, accepted: 1, duplicates: 0, rejected: [] });
+      expect(logger.warn).toHaveBeenCalledWith('Button clicked', {
+        count: 2,
+        source: 'browser',
+        browserLogId: first.id,
+        browserTimestamp: '2026-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should accept a bare array of entries', () => {
+      const handler = createLogIngestHandler({ logger });
+      expect(handler.ingest([entry(), entry()]).accepted).toBe(2);
+    });
+
+    it('should re-redact entry context', () => {
+      const handler = createLogIngestHandler({ logger });
+
+      handler.ingest([entry({ context: { password: 'hunter2' } })]);
+
+      const context = vi.mocked(logger.info).mock.calls[0]?.[1];
+      expect(context?.password).toBe('[REDACTED]');
+    });
+
+    it('should reject invalid entries individually', () => {
+      const handler = createLogIngestHandler({ logger });
+
+      const result = handler.ingest([entry(), entry({ level: 'verbose' }), { message: 'x' }]);
+
+      expect(result.status).toBe(200);
+      expect(result.accepted).toBe(1);
+      expect(result.rejected.map(r => r.index)).toEqual([1, 2]);
+      expect(result.rejected[0]?.errors[0]).toContain('Invalid level');
+      expect(result.rejectedCount).toBe(2);
+    });
+
+    it('should reject timestamps outside the Date range without failing the batch', async () => {
+      const handler = createLogIngestHandler({ logger });
+
+      const response = await handler.handle(post([entry(), entry({ timestamp: 1e20 })]));
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body).toMatchObject({ accepted: 1, rejectedCount: 1 });
+      expect(body.rejected[0].errors[0]).toContain('Invalid timestamp');
+    });
+
+    it('should answer 400 when every entry fails validation', () => {
+      const handler = createLogIngestHandler({ logger });
+
+      const result = handler.ingest([entry({ level: 'verbose' }), { message: 'x' }]);
+
+      expect(result).toMatchObject({ status: 400, accepted: 0, rejectedCount: 2 });
+      expect(result.error).toBe('All 2 log entries failed validation');
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should skip entries whose id was already ingested', () => {
+      const handler = createLogIngestHandler({ logger });
+      const repeated = entry();
+
+      handler.ingest([repeated]);
+      const result = handler.ingest([repeated, entry()]);
+
+      expect(result.accepted).toBe(1);
+      expect(result.duplicates).toBe(1);
+      expect(logger.info).toHaveBeenCalledTimes(2);
+    });
+
+    it('should forget the oldest ids beyond the dedupe window', () => {
+      const handler = createLogIngestHandler({ logger, dedupeWindow: 1 });
+      const first = entry();
+
+      handler.ingest([first]);
+      handler.ingest([entry()]);
+
+      expect(handler.ingest([first]).accepted).toBe(1);
+    });
+
+    it('should refuse batches over the size limit', () => {
+      const handler = createLogIngestHandler({ logger, maxBatchSize: 1 });
+
+      const result = handler.ingest([entry(), entry()]);
+
+      expect(result.status).toBe(413);
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should refuse payloads without an entries array', () => {
+      const handler = createLogIngestHandler({ logger });
+      expect(handler.ingest({ logs: [] }).status).toBe(400);
+    });
+  });
+
+  describe('handle', () => {
+    it('should respond with the ingest result as JSON', async () => {
+      const handler = createLogIngestHandler({ logger });
+
+      const response = await handler.handle(post({ entries: [entry()] }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ accepted: 1 });
+    });
+
+    it('should refuse bodies over the byte limit', async () => {
+      const handler = createLogIngestHandler({ logger, maxBytes: 64 });
+
+      const response = await handler.handle(post({ entries: [entry()] }));
+
+      expect(response.status).toBe(413);
+    });
+
+    it('should refuse malformed JSON', async () => {
+      const handler = createLogIngestHandler({ logger });
+      const response = await handler.handle(post('{not json'));
+      expect(response.status).toBe(400);
+    });
+
+    it('should refuse non-POST requests', async () => {
+      const handler = createLogIngestHandler({ logger });
+      const response = await handler.handle(new Request('http://localhost/api/logs'));
+      expect(response.status).toBe(405);
+    });
+  });
+});
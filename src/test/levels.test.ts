@@ -0,0 +1,403 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { createLevelAdminHandler, startLevelAdminServer } from '../admin';
+import { createBrowserLogger } from '../browser';
+import { configure, getConfig, resetConfig } from '../config';
+import { loadConfig, watchConfigFile } from '../config-loader';
+import {
+  clearLevel,
+  getLevel,
+  getLevelOverrides,
+  onLevelChange,
+  resetLevels,
+  resolveLevel,
+  setLevel,
+} from '../levels';
+import { createServerLogger } from '../server';
+import { MemoryTransport } from '../transports';
+import type { LevelChange } from '../levels';
+import type { LogLevel } from '../types';
+
+describe('levels.ts', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    resetLevels();
+    resetConfig();
+  });
+
+  describe('setLevel', () => {
+    it('should change live server loggers', () => {
+      configure({ level: 'warn' });
+      const memory = new MemoryTransport();
+      const log = createServerLogger({ transports: [memory] });
+
+      log.debug('before');
+      setLevel('debug');
+      log.debug('after');
+
+      expect(memory.getRecords().map(record => record.message)).toEqual(['after']);
+    });
+
+    it('should apply to children created before the change', () => {
+      configure({ level: 'error' });
+      const memory = new MemoryTransport();
+      const child = createServerLogger({ transports: [memory] }).child({ requestId: 'r1' });
+
+      setLevel('info');
+      child.info('visible');
+
+      expect(memory.getRecords()).toHaveLength(1);
+    });
+
+    it('should target loggers by name', () => {
+      configure({ level: 'warn' });
+      const payments = new MemoryTransport();
+      const other = new MemoryTransport();
+      const paymentsLog = createServerLogger({ name: 'payments', transports: [payments] });
+      const otherLog = createServerLogger({ name: 'other', transports: [other] });
+
+      setLevel('debug', { logger: 'payments' });
+      paymentsLog.debug('payments debug');
+      otherLog.debug('other debug');
+
+      expect(payments.getRecords()).toHaveLength(1);
+      expect(other.getRecords()).toHaveLength(0);
+      expect(getLevel('payments')).toBe('debug');
+      expect(getLevel()).toBe('warn');
+    });
+
+    it('should prefer a named level over the global one and both over the own level', () => {
+      setLevel('error');
+      setLevel('debug', { logger: 'payments' });
+
+      expect(resolveLevel('payments', 'warn')).toBe('debug');
+      expect(resolveLevel('other', 'warn')).toBe('error');
+
+      clearLevel();
+      expect(resolveLevel('other', 'warn')).toBe('warn');
+      expect(resolveLevel(undefined)).toBe(getConfig().level);
+    });
+
+    it('should rank an own level between exact and wildcard configured levels', () => {
+      vi.stubEnv('LOG_LEVEL', '');
+      configure({ level: 'error', levels: { '*': 'info', 'api:*': 'warn', db: 'debug' } });
+
+      expect(resolveLevel('api', 'debug')).toBe('debug');
+      expect(resolveLevel('api:users', 'debug')).toBe('debug');
+      expect(resolveLevel('api:users')).toBe('warn');
+      expect(resolveLevel('db', 'error')).toBe('debug');
+      expect(resolveLevel('worker')).toBe('info');
+
+      setLevel('fatal');
+      expect(resolveLevel('api', 'debug')).toBe('fatal');
+    });
+
+    it('should change live browser loggers', () => {
+      configure({ level: 'error' });
+      const memory = new MemoryTransport();
+      const log = createBrowserLogger({
+        name: 'checkout',
+        transports: [memory],
+        persistenceEnabled: false,
+      });
+
+      log.info('hidden');
+      setLevel('info', { logger: 'checkout' });
+      log.info('shown');
+
+      expect(memory.getRecords().map(record => record.message)).toEqual(['shown']);
+    });
+
+    it('should reject unknown levels', () => {
+      expect(() => setLevel('verbose' as LogLevel)).toThrow('Invalid log level: verbose');
+    });
+
+    it('should revert after the ttl to the level before the first change', () => {
+      vi.useFakeTimers();
+      configure({ level: 'warn' });
+
+      setLevel('info', { ttl: 1000 });
+      setLevel('debug', { ttl: 5000 });
+      expect(getLevel()).toBe('debug');
+
+      vi.advanceTimersByTime(4999);
+      expect(getLevel()).toBe('debug');
+
+      vi.advanceTimersByTime(1);
+      expect(getLevel()).toBe('warn');
+      expect(getLevelOverrides()).toEqual({ loggers: {} });
+    });
+
+    it('should restore an earlier runtime level after a ttl', () => {
+      vi.useFakeTimers();
+
+      setLevel('error', { logger: 'payments' });
+      setLevel('debug', { logger: 'payments', ttl: 1000 });
+      vi.advanceTimersByTime(1000);
+
+      expect(getLevelOverrides()).toEqual({ loggers: { payments: 'error' } });
+    });
+
+    it('should cancel a pending revert when the level is cleared', () => {
+      vi.useFakeTimers();
+      setLevel('debug', { ttl: 1000 });
+      setLevel('error');
+      vi.advanceTimersByTime(1000);
+
+      expect(getLevel()).toBe('error');
+    });
+  });
+
+  describe('onLevelChange', () => {
+    it('should notify listeners with the previous level and source', () => {
+      vi.useFakeTimers();
+      configure({ level: 'warn' });
+      const changes: LevelChange[] = [];
+      const off = onLevelChange(change => changes.push(change));
+
+      setLevel('debug', { logger: 'payments', ttl: 100 });
+      vi.advanceTimersByTime(100);
+      off();
+      setLevel('error');
+
+      expect(changes).toEqual([
+        { logger: 'payments', level: 'debug', previous: 'warn', source: 'api' },
+        { logger: 'payments', level: 'warn', previous: 'debug', source: 'ttl' },
+      ]);
+    });
+
+    it('should not notify when the effective level is unchanged', () => {
+      configure({ level: 'warn' });
+      const listener = vi.fn();
+      onLevelChange(listener);
+
+      setLevel('warn');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep notifying when a listener throws', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const listener = vi.fn();
+      onLevelChange(() => {
+        throw new Error('boom');
+      });
+      onLevelChange(listener);
+
+      setLevel('fatal');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('watchConfigFile', () => {
+    it('should apply a changed config file and notify listeners', async () => {
+      vi.stubEnv('LOG_LEVEL', '');
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-levels-'));
+      const file = path.join(dir, 'glean-logger.config.json');
+      fs.writeFileSync(file, JSON.stringify({ level: 'warn' }));
+      await loadConfig({ cwd: dir });
+
+      let changed: ((current: fs.Stats, previous: fs.Stats) => void) | undefined;
+      vi.spyOn(fs, 'watchFile').mockImplementation(((_file, _options, listener) => {
+        changed = listener as typeof changed;
+      }) as typeof fs.watchFile);
+      const listener = vi.fn();
+      onLevelChange(listener);
+
+      const stop = watchConfigFile(undefined, { cwd: dir });
+      fs.writeFileSync(file, JSON.stringify({ level: 'debug' }));
+      changed?.({ mtimeMs: 2 } as fs.Stats, { mtimeMs: 1 } as fs.Stats);
+      await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+
+      expect(getConfig().level).toBe('debug');
+      expect(listener).toHaveBeenCalledWith({ level: 'debug', previous: 'warn', source: 'file' });
+
+      stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep the current config when the file becomes invalid', async () => {
+      vi.stubEnv('LOG_LEVEL', '');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-levels-'));
+      const file = path.join(dir, 'glean-logger.config.json');
+      fs.writeFileSync(file, JSON.stringify({ level: 'warn' }));
+      await loadConfig({ cwd: dir });
+
+      let changed: ((current: fs.Stats, previous: fs.Stats) => void) | undefined;
+      vi.spyOn(fs, 'watchFile').mockImplementation(((_file, _options, listener) => {
+        changed = listener as typeof changed;
+      }) as typeof fs.watchFile);
+
+      const stop = watchConfigFile(undefined, { cwd: dir });
+      fs.writeFileSync(file, JSON.stringify({ level: 'loud' }));
+      changed?.({ mtimeMs: 2 } as fs.Stats, { mtimeMs: 1 } as fs.Stats);
+      await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+
+      expect(getConfig().level).toBe('warn');
+      expect(String(warn.mock.calls[0]?.[0])).toContain('[Config] Ignoring config file change');
+
+      stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should throw when there is no config file', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-levels-'));
+
+      expect(() => watchConfigFile(undefined, { cwd: dir })).toThrow(
+        'No logger config file to watch'
+      );
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('admin endpoint', () => {
+    it('should report and change levels', async () => {
+      configure({ level: 'warn' });
+      const admin = createLevelAdminHandler();
+
+      const post = await admin.handle(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ level: 'debug', logger: 'payments' }),
+        })
+      );
+      expect(post.status).toBe(200);
+      expect(getLevel('payments')).toBe('debug');
+
+      const get = await admin.handle(new Request('http://localhost/'));
+      expect(await get.json()).toEqual({
+        status: 200,
+        level: 'warn',
+        loggers: { payments: 'debug' },
+      });
+
+      await admin.handle(
+        new Request('http://localhost/', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ logger: 'payments' }),
+        })
+      );
+      expect(getLevel('payments')).toBe('warn');
+    });
+
+    it('should reject invalid requests', () => {
+      const admin = createLevelAdminHandler({ maxTtl: 1000 });
+
+      expect(admin.update('POST', { level: 'loud' }).status).toBe(400);
+      expect(admin.update('POST', { level: 'info', ttl: 5000 }).status).toBe(400);
+      expect(admin.update('POST', { level: 'info', logger: '' }).status).toBe(400);
+      expect(admin.update('POST', [] as unknown).status).toBe(400);
+      expect(admin.update('PATCH', {}).status).toBe(405);
+      expect(getLevelOverrides()).toEqual({ loggers: {} });
+    });
+
+    it('should refuse changes that are not JSON or too large before reading them', async () => {
+      const admin = createLevelAdminHandler();
+      const body = JSON.stringify({ level: 'debug' });
+
+      const plain = await admin.handle(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'text/plain' },
+          body,
+        })
+      );
+      expect(plain.status).toBe(415);
+
+      const declared = await admin.handle(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Content-Length': '100000' },
+          body,
+        })
+      );
+      expect(declared.status).toBe(413);
+
+      const streamed = await admin.handle(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ level: 'debug', padding: 'x'.repeat(10000) }),
+        })
+      );
+      expect(streamed.status).toBe(413);
+      expect(getLevelOverrides()).toEqual({ loggers: {} });
+    });
+
+    it('should require the token when one is set', () => {
+      const admin = createLevelAdminHandler({ token: 'secret' });
+
+      expect(admin.update('GET').status).toBe(401);
+      expect(admin.update('POST', { level: 'info' }, 'Bearer wrong').status).toBe(401);
+      expect(admin.update('POST', { level: 'info' }, 'Bearer secret').status).toBe(200);
+      expect(getLevel()).toBe('info');
+    });
+
+    it('should serve levels on localhost', async () => {
+      const server = await startLevelAdminServer({ token: 'secret' });
+
+      try {
+        const response = await fetch(`http://127.0.0.1:${server.port}/`, {
+          method: 'POST',
+          headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ level: 'error', ttl: 60000 }),
+        });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ level: 'error', global: 'error' });
+
+        const plain = await fetch(`http://127.0.0.1:${server.port}/`, {
+          method: 'POST',
+          headers: { Authorization: 'Bearer secret', 'Content-Type': 'text/plain' },
+          body: JSON.stringify({ level: 'debug' }),
+        });
+        expect(plain.status).toBe(415);
+
+        const large = await fetch(`http://127.0.0.1:${server.port}/`, {
+          method: 'POST',
+          headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+          body: JSON.stringify({ level: 'debug', padding: 'x'.repeat(10000) }),
+        });
+        expect(large.status).toBe(413);
+        expect(getLevel()).toBe('error');
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { getContext } from '../context';
+import { createFetchInterceptor, DEFAULT_BODY_LOGGING_CONFIG } from '../http';
+import {
+  createExpressMiddleware,
+  createFastifyPlugin,
+  createKoaMiddleware,
+  withRequestLogging,
+} from '../middleware';
+import type { FastifyInstanceLike, KoaContextLike, NodeRequestLike } from '../middleware';
+import { createServerLogger } from '../server';
+import { MemoryTransport } from '../transports';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const TRACEPARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+
+function createMocks() {
+  const logger = { logRequest: vi.fn(), logResponse: vi.fn(), logError: vi.fn() };
+  const memory = new MemoryTransport();
+  const baseLogger = createServerLogger({ name: 'test', transports: [memory] });
+
+  return { logger, memory, baseLogger };
+}
+
+describe('middleware.ts', () => {
+  describe('createExpressMiddleware', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise(resolve => server?.close(resolve));
+      server = undefined;
+    });
+
+    async function listen(
+      handler: (req: IncomingMessage & NodeRequestLike, res: ServerResponse) => void
+    ) {
+      server = createServer(handler);
+      await new Promise<void>(resolve => server?.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      return `http://127.0.0.1:${port}`;
+    }
+
+    it('should log the request and the redacted response with the inbound request ID', async () => {
+      const { logger, memory, baseLogger } = createMocks();
+      const middleware = createExpressMiddleware({ logger, baseLogger });
+      let seenContext: unknown;
+
+      const url = await listen((req, res) => {
+        middleware(req, res, () => {
+          seenContext = getContext();
+          req.log?.info('handling');
+          res.setHeader('content-type', 'application/json');
+          res.end(JSON.stringify({ ok: true, password: 'hunter2' }));
+        });
+      });
+
+      const response = await fetch(`${url}/users?page=2`, {
+        headers: { 'X-Request-ID': 'req-inbound', authorization: 'Bearer abc' },
+      });
+      await response.text();
+      await vi.waitFor(() => expect(logger.logResponse).toHaveBeenCalled());
+
+      expect(response.headers.get('x-request-id')).toBe('req-inbound');
+      expect(logger.logRequest.mock.calls[0]?.[0]).toMatchObject({
+        requestId: 'req-inbound',
+        method: 'GET',
+        url: '/users?page=2',
+        headers: expect.objectContaining({ authorization: '[REDACTED]' }),
+      });
+      expect(logger.logResponse.mock.calls[0]?.[0]).toMatchObject({
+        requestId: 'req-inbound',
+        statusCode: 200,
+        body: { ok: true, password: '[REDACTED]' },
+      });
+      expect(seenContext).toMatchObject({ requestId: 'req-inbound' });
+      expect(memory.getRecords()[0]?.context).toMatchObject({ requestId: 'req-inbound' });
+    });
+
+    it('should generate a request ID and continue an inbound trace', async () => {
+      const { logger, baseLogger } = createMocks();
+      const middleware = createExpressMiddleware({ logger, baseLogger });
+
+      const url = await listen((req, res) => middleware(req, res, () => res.end()));
+
+      const response = await fetch(url, {
+        headers: { 'x-request-id': 'not a valid id!', traceparent: TRACEPARENT },
+      });
+      await response.text();
+      await vi.waitFor(() => expect(logger.logResponse).toHaveBeenCalled());
+
+      const request = logger.logRequest.mock.calls[0]?.[0];
+      expect(request.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.headers.get('x-request-id')).toBe(request.requestId);
+      expect(request).toMatchObject({ traceId: TRACE_ID, parentSpanId: '00f067aa0ba902b7' });
+    });
+
+    it('should not log skipped content types', async () => {
+      const { logger, baseLogger } = createMocks();
+      const middleware = createExpressMiddleware({ logger, baseLogger });
+
+      const url = await listen((req, res) =>
+        middleware(req, res, () => {
+          res.setHeader('content-type', 'image/png');
+          res.end(Buffer.from([1, 2, 3]));
+        })
+      );
+
+      await (await fetch(url)).arrayBuffer();
+      await vi.waitFor(() => expect(logger.logResponse).toHaveBeenCalled());
+
+      expect(logger.logResponse.mock.calls[0]?.[0].body).toBeUndefined();
+    });
+  });
+
+  describe('createKoaMiddleware', () => {
+    function createContext(overrides?: Partial<KoaContextLike>): KoaContextLike {
+      const headers: Record<string, string> = {};
+      return {
+        method: 'POST',
+        url: '/login',
+        headers: { 'content-type': 'application/json' },
+        status: 404,
+        request: { body: { user: 'ada', password: 'secret' } },
+        response: { get: name => headers[name.toLowerCase()] ?? '' },
+        set: (name, value) => {
+          headers[name.toLowerCase()] = value;
+        },
+        ...overrides,
+      };
+    }
+
+    it('should log request and response bodies and expose ctx.log', async () => {
+      const { logger, baseLogger } = createMocks();
+      const ctx = createContext();
+
+      await createKoaMiddleware({ logger, baseLogger })(ctx, async () => {
+        expect(getContext()?.requestId).toBeDefined();
+        ctx.status = 200;
+        ctx.set('Content-Type', 'application/json');
+        ctx.body = { token: 'abc', user: 'ada' };
+      });
+
+      expect(ctx.log).toBeDefined();
+      expect(ctx.response.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+      expect(logger.logRequest.mock.calls[0]?.[0].body).toEqual({
+        user: 'ada',
+        password: '[REDACTED]',
+      });
+      expect(logger.logResponse.mock.calls[0]?.[0]).toMatchObject({
+        statusCode: 200,
+        body: { token: '[REDACTED]', user: 'ada' },
+      });
+    });
+
+    it('should log and rethrow downstream errors', async () => {
+      const { logger, baseLogger } = createMocks();
+      const failure = new Error('boom');
+
+      await expect(
+        createKoaMiddleware({ logger, baseLogger })(createContext(), () => Promise.reject(failure))
+      ).rejects.toBe(failure);
+
+      expect(logger.logError).toHaveBeenCalledWith(
+        failure,
+        expect.objectContaining({ url: '/login' })
+      );
+      expect(logger.logResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createFastifyPlugin', () => {
+    it('should register hooks that log the request lifecycle', () => {
+      const { logger, baseLogger } = createMocks();
+      const hooks: Record<string, (...args: unknown[]) => void> = {};
+      const fastify = {
+        addHook: (name: string, hook: (...args: unknown[]) => void) => {
+          hooks[name] = hook;
+        },
+      } as unknown as FastifyInstanceLike;
+      const plugin = createFastifyPlugin({ logger, baseLogger });
+      const done = vi.fn();
+
+      plugin(fastify, {}, done);
+
+      const replyHeaders: Record<string, string> = { 'content-type': 'application/json' };
+      const request = {
+        method: 'POST',
+        url: '/orders',
+        headers: { 'content-type': 'application/json' },
+        body: { item: 'book', apiKey: 'k' },
+      } as {
+        method: string;
+        url: string;
+        headers: Record<string, string>;
+        body: unknown;
+        logger?: unknown;
+      };
+      const reply = {
+        statusCode: 201,
+        header: (name: string, value: string) => {
+          replyHeaders[name] = value;
+        },
+        getHeader: (name: string) => replyHeaders[name],
+      };
+      const next = vi.fn();
+
+      hooks.onRequest?.(request, reply, next);
+      hooks.preHandler?.(request, reply, next);
+      hooks.onSend?.(request, reply, '{"id":1}', next);
+      hooks.onResponse?.(request, reply, next);
+
+      expect(done).toHaveBeenCalled();
+      expect((plugin as unknown as Record<symbol, unknown>)[Symbol.for('skip-override')]).toBe(
+        true
+      );
+      expect(request.logger).toBeDefined();
+      expect(replyHeaders['x-request-id']).toBeDefined();
+      expect(logger.logRequest.mock.calls[0]?.[0].body).toEqual({
+        item: 'book',
+        apiKey: '[REDACTED]',
+      });
+      expect(logger.logResponse.mock.calls[0]?.[0]).toMatchObject({
+        statusCode: 201,
+        body: { id: 1 },
+      });
+      expect(next).toHaveBeenCalledWith(null, '{"id":1}');
+    });
+  });
+
+  describe('withRequestLogging', () => {
+    it('should keep an unsampled inbound trace and its tracestate on outbound calls', async () => {
+      const { logger, memory, baseLogger } = createMocks();
+      const interceptor = createFetchInterceptor({ logger });
+      let outbound: Request | undefined;
+      const handler = withRequestLogging(
+        async request => {
+          request.log.info('calling upstream');
+          outbound = await interceptor.request(new Request('https://api.example.com/users'));
+          return new Response(null, { status: 204 });
+        },
+        { logger, baseLogger }
+      );
+
+      await handler(
+        new Request('https://app.example.com/api/users', {
+          headers: { traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-00`, tracestate: 'vendor=abc' },
+        }),
+        {}
+      );
+
+      expect(memory.getRecords()[0]?.context).toMatchObject({
+        traceId: TRACE_ID,
+        traceFlags: '00',
+        tracestate: 'vendor=abc',
+      });
+      expect(outbound?.headers.get('traceparent')).toMatch(
+        new RegExp(`^00-${TRACE_ID}-[0-9a-f]{16}-00$`)
+      );
+      expect(outbound?.headers.get('tracestate')).toBe('vendor=abc');
+    });
+
+    it('should log the request body, expose request.log and log the response', async () => {
+      const { logger, baseLogger } = createMocks();
+      const handler = withRequestLogging(
+        async request => {
+          request.log.info('creating user');
+          const body = (await request.json()) as { name: string };
+          return Response.json({ id: 1, name: body.name, secret: 'x' }, { status: 201 });
+        },
+        { logger, baseLogger }
+      );
+      const payload = JSON.stringify({ name: 'ada', password: 'p' });
+
+      const response = await handler(
+        new Request('https://app.example.com/api/users', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: payload,
+        }),
+        {}
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+      expect(await response.json()).toEqual({ id: 1, name: 'ada', secret: 'x' });
+      expect(logger.logRequest.mock.calls[0]?.[0].body).toEqual({
+        name: 'ada',
+        password: '[REDACTED]',
+      });
+
+      await vi.waitFor(() => expect(logger.logResponse).toHaveBeenCalled());
+      expect(logger.logResponse.mock.calls[0]?.[0]).toMatchObject({
+        statusCode: 201,
+        body: { id: 1, name: 'ada', secret: '[REDACTED]' },
+      });
+    });
+
+    it('should respect a disabled body logging config', async () => {
+      const { logger, baseLogger } = createMocks();
+      const handler = withRequestLogging(() => Response.json({ ok: true }), {
+        logger,
+        baseLogger,
+        bodyLoggingConfig: { ...DEFAULT_BODY_LOGGING_CONFIG, enabled: false },
+      });
+
+      await handler(new Request('https://app.example.com/api/health'), undefined);
+      await vi.waitFor(() => expect(logger.logResponse).toHaveBeenCalled());
+
+      expect(logger.logResponse.mock.calls[0]?.[0].body).toBeUndefined();
+    });
+
+    it('should log and rethrow handler errors', async () => {
+      const { logger, baseLogger } = createMocks();
+      const handler = withRequestLogging(
+        () => {
+          throw new Error('db down');
+        },
+        { logger, baseLogger }
+      );
+
+      await expect(
+        handler(new Request('https://app.example.com/api/x'), undefined)
+      ).rejects.toThrow('db down');
+      expect(logger.logError).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { configure, getConfig, resetConfig } from '../config';
+import { resetLevels, resolveLevel, setLevel } from '../levels';
+import {
+  findNamespaceLevel,
+  isNamespacePattern,
+  matchNamespace,
+  parseLevelSpec,
+} from '../namespaces';
+import type { LogLevel } from '../types';
+
+describe('namespaces.ts', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    resetLevels();
+    resetConfig();
+  });
+
+  describe('matchNamespace', () => {
+    it('should match exact names and wildcards', () => {
+      expect(matchNamespace('db', 'db')).toBe(true);
+      expect(matchNamespace('db', 'db:pool')).toBe(false);
+      expect(matchNamespace('api:*', 'api:users')).toBe(true);
+      expect(matchNamespace('api:*', 'api:users:get')).toBe(true);
+      expect(matchNamespace('api:*', 'api')).toBe(false);
+      expect(matchNamespace('*:cache', 'db:cache')).toBe(true);
+      expect(matchNamespace('*', 'anything')).toBe(true);
+    });
+
+    it('should treat regex characters literally', () => {
+      expect(matchNamespace('app.db*', 'app.db:pool')).toBe(true);
+      expect(matchNamespace('app.db*', 'appXdb')).toBe(false);
+    });
+  });
+
+  describe('findNamespaceLevel', () => {
+    const levels: [string, LogLevel][] = [
+      ['*', 'info'],
+      ['api:*', 'warn'],
+      ['api:users:*', 'error'],
+      ['db', 'debug'],
+    ];
+
+    it('should use the most specific match', () => {
+      expect(findNamespaceLevel(levels, 'db')).toBe('debug');
+      expect(findNamespaceLevel(levels, 'api:orders')).toBe('warn');
+      expect(findNamespaceLevel(levels, 'api:users:get')).toBe('error');
+      expect(findNamespaceLevel(levels, 'db:pool')).toBe('info');
+    });
+
+    it('should prefer exact names over longer wildcards', () => {
+      expect(
+        findNamespaceLevel(
+          [
+            ['api:users', 'debug'],
+            ['api:users*', 'fatal'],
+          ],
+          'api:users'
+        )
+      ).toBe('debug');
+    });
+
+    it('should return undefined without a match', () => {
+      expect(findNamespaceLevel([['db', 'debug']], 'api')).toBeUndefined();
+    });
+  });
+
+  describe('parseLevelSpec', () => {
+    it('should parse a DEBUG-style spec', () => {
+      expect(parseLevelSpec('db=debug, api:*=WARN,*=info,')).toEqual({
+        db: 'debug',
+        'api:*': 'warn',
+        '*': 'info',
+      });
+    });
+
+    it('should reject invalid entries', () => {
+      expect(() => parseLevelSpec('db=loud')).toThrow('Invalid level spec entry: db=loud');
+      expect(() => parseLevelSpec('=debug')).toThrow('Invalid level spec entry');
+      expect(() => parseLevelSpec('db debug')).toThrow('Invalid level spec entry');
+      expect(() => parseLevelSpec('d b=debug')).toThrow('Invalid level spec entry');
+    });
+
+    it('should validate patterns', () => {
+      expect(isNamespacePattern('@app/api:v1.*')).toBe(true);
+      expect(isNamespacePattern('a b')).toBe(false);
+      expect(isNamespacePattern('')).toBe(false);
+    });
+  });
+
+  describe('configured levels', () => {
+    it('should read LOG_LEVELS', () => {
+      vi.stubEnv('LOG_LEVELS', 'db=debug,api:*=warn,*=info');
+
+      expect(getConfig().levels).toEqual({ db: 'debug', 'api:*': 'warn', '*': 'info' });
+      expect(resolveLevel('db')).toBe('debug');
+      expect(resolveLevel('api:users')).toBe('warn');
+      expect(resolveLevel('worker')).toBe('info');
+    });
+
+    it('should prefer GLEAN_LOG_LEVELS and report invalid specs', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubEnv('GLEAN_LOG_LEVELS', 'db=loud');
+      vi.stubEnv('LOG_LEVELS', 'db=warn');
+
+      expect(getConfig().levels).toEqual({});
+      expect(String(warn.mock.calls[0]?.[0])).toContain('GLEAN_LOG_LEVELS');
+    });
+
+    it('should accept levels as an object', () => {
+      configure({ levels: { 'jobs:*': 'ERROR' as LogLevel } });
+      expect(getConfig().levels).toEqual({ 'jobs:*': 'error' });
+
+      expect(() => configure({ levels: { 'jobs:*': 'loud' as LogLevel } })).toThrow(
+        'levels must be'
+      );
+    });
+
+    it('should rank configured levels between runtime levels and own levels', () => {
+      configure({ level: 'error', levels: 'db=debug' });
+
+      expect(resolveLevel('db', 'warn')).toBe('debug');
+      expect(resolveLevel('api', 'warn')).toBe('warn');
+      expect(resolveLevel('api')).toBe('error');
+
+      setLevel('fatal');
+      expect(resolveLevel('db')).toBe('fatal');
+
+      setLevel('info', { logger: 'db*' });
+      expect(resolveLevel('db:pool')).toBe('info');
+    });
+  });
+});
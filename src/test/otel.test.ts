@@ -0,0 +1,221 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { createServer } from 'http';
+import type { IncomingHttpHeaders, Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import {
+  getSeverityNumber,
+  OtlpTransport,
+  toOtlpAnyValue,
+  toOtlpLogRecord,
+  toOtlpLogsRequest,
+  toOtlpResource,
+} from '../otel';
+import type { OtlpLogsRequest } from '../otel';
+import { createServerLogger } from '../server';
+import type { LogRecord } from '../types';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('otel.ts', () => {
+  describe('getSeverityNumber', () => {
+    it('should map levels onto the OpenTelemetry severity ranges', () => {
+      expect(getSeverityNumber('debug')).toBe(5);
+      expect(getSeverityNumber('info')).toBe(9);
+      expect(getSeverityNumber('warn')).toBe(13);
+      expect(getSeverityNumber('error')).toBe(17);
+      expect(getSeverityNumber('fatal')).toBe(21);
+    });
+  });
+
+  describe('toOtlpAnyValue', () => {
+    it('should map primitives, arrays and objects', () => {
+      expect(toOtlpAnyValue('a')).toEqual({ stringValue: 'a' });
+      expect(toOtlpAnyValue(true)).toEqual({ boolValue: true });
+      expect(toOtlpAnyValue(42)).toEqual({ intValue: '42' });
+      expect(toOtlpAnyValue(1.5)).toEqual({ doubleValue: 1.5 });
+      expect(toOtlpAnyValue(null)).toEqual({});
+      expect(toOtlpAnyValue([1, 'x'])).toEqual({
+        arrayValue: { values: [{ intValue: '1' }, { stringValue: 'x' }] },
+      });
+      expect(toOtlpAnyValue({ a: { b: 1 } })).toEqual({
+        kvlistValue: {
+          values: [
+            {
+              key: 'a',
+              value: { kvlistValue: { values: [{ key: 'b', value: { intValue: '1' } }] } },
+            },
+          ],
+        },
+      });
+    });
+
+    it('should not follow cycles', () => {
+      const value: Record<string, unknown> = { name: 'loop' };
+      value.self = value;
+
+      expect(JSON.stringify(toOtlpAnyValue(value))).toContain('[Circular]');
+    });
+  });
+
+  describe('toOtlpLogRecord', () => {
+    it('should map a record onto the logs data model', () => {
+      const record: LogRecord = {
+        level: 'warn',
+        message: 'slow query',
+        timestamp: 1700000000123,
+        context: { table: 'users', traceId: TRACE_ID, spanId: SPAN_ID },
+        trace: TRACE_ID,
+      };
+
+      expect(toOtlpLogRecord(record, 1700000000200)).toEqual({
+        timeUnixNano: '1700000000123000000',
+        observedTimeUnixNano: '1700000000200000000',
+        severityNumber: 13,
+        severityText: 'WARN',
+        body: { stringValue: 'slow query' },
+        attributes: [{ key: 'table', value: { stringValue: 'users' } }],
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+      });
+    });
+
+    it('should keep non-W3C trace IDs as attributes', () => {
+      const otlp = toOtlpLogRecord({
+        level: 'info',
+        message: 'hi',
+        timestamp: 0,
+        context: { traceId: 'req-1' },
+      });
+
+      expect(otlp.traceId).toBeUndefined();
+      expect(otlp.attributes).toEqual([{ key: 'traceId', value: { stringValue: 'req-1' } }]);
+    });
+  });
+
+  describe('toOtlpLogsRequest', () => {
+    it('should group records into one scope per logger', () => {
+      const request = toOtlpLogsRequest(
+        [
+          { level: 'info', message: 'a', timestamp: 0, logger: 'api' },
+          { level: 'info', message: 'b', timestamp: 0, logger: 'db' },
+          { level: 'info', message: 'c', timestamp: 0, logger: 'api' },
+        ],
+        toOtlpResource({ serviceName: 'svc', serviceVersion: '1.0.0', environment: 'staging' })
+      );
+
+      const [resourceLogs] = request.resourceLogs;
+      expect(resourceLogs?.resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'svc' } },
+        { key: 'service.version', value: { stringValue: '1.0.0' } },
+        { key: 'deployment.environment.name', value: { stringValue: 'staging' } },
+      ]);
+      expect(
+        resourceLogs?.scopeLogs.map(scope => [scope.scope.name, scope.logRecords.length])
+      ).toEqual([
+        ['api', 2],
+        ['db', 1],
+      ]);
+    });
+  });
+
+  describe('OtlpTransport', () => {
+    let server: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise(resolve => server?.close(resolve));
+      server = undefined;
+    });
+
+    /**
+     * Start a stand-in collector that records every export request
+     */
+    async function startCollector(status = 200) {
+      const requests: Array<{ url?: string; headers: IncomingHttpHeaders; body: OtlpLogsRequest }> =
+        [];
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+          res.statusCode = status;
+          res.end('{}');
+        });
+      });
+      await new Promise<void>(resolve => server?.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      return { requests, url: `http://127.0.0.1:${port}/v1/logs` };
+    }
+
+    it('should export batches as OTLP/HTTP JSON', async () => {
+      const collector = await startCollector();
+      const otlp = new OtlpTransport({
+        url: collector.url,
+        serviceName: 'checkout',
+        headers: { 'x-api-key': 'secret' },
+        flushInterval: 0,
+      });
+      const log = createServerLogger({ name: 'checkout', transports: [otlp] });
+
+      log.info('order placed', { orderId: 7, traceId: TRACE_ID, spanId: SPAN_ID });
+      log.error('payment failed');
+      await log.close();
+
+      expect(collector.requests).toHaveLength(1);
+      const [request] = collector.requests;
+      expect(request?.url).toBe('/v1/logs');
+      expect(request?.headers['content-type']).toBe('application/json');
+      expect(request?.headers['x-api-key']).toBe('secret');
+
+      const logRecords = request?.body.resourceLogs[0]?.scopeLogs[0]?.logRecords;
+      expect(logRecords?.map(record => record.severityText)).toEqual(['INFO', 'ERROR']);
+      expect(logRecords?.[0]).toMatchObject({
+        body: { stringValue: 'order placed' },
+        attributes: [{ key: 'orderId', value: { intValue: '7' } }],
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+      });
+    });
+
+    it('should keep records buffered when the collector rejects them', async () => {
+      const collector = await startCollector(503);
+      const otlp = new OtlpTransport({ url: collector.url, flushInterval: 0 });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      otlp.write({ level: 'info', message: 'retry me', timestamp: 0 });
+      await otlp.flush();
+      await otlp.flush();
+      warn.mockRestore();
+
+      expect(collector.requests).toHaveLength(2);
+      expect(collector.requests[1]?.body.resourceLogs[0]?.scopeLogs[0]?.logRecords).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { logger } from '../browser-entry';
+import { getLoggerNames, getOrCreateLogger, resetLoggerRegistry } from '../registry';
+
+describe('registry.ts', () => {
+  afterEach(() => {
+    resetLoggerRegistry();
+  });
+
+  it('should return the same logger for the same name and level', () => {
+    const create = () => ({});
+
+    const first = getOrCreateLogger('db', undefined, create);
+    expect(getOrCreateLogger('db', undefined, create)).toBe(first);
+    expect(getOrCreateLogger('api', undefined, create)).not.toBe(first);
+    expect(getOrCreateLogger('db', 'warn', create)).not.toBe(first);
+    expect(getOrCreateLogger('db', 'warn', create)).toBe(getOrCreateLogger('db', 'warn', create));
+  });
+
+  it('should list registered names once', () => {
+    getOrCreateLogger('db', undefined, () => ({}));
+    getOrCreateLogger('db', 'warn', () => ({}));
+    getOrCreateLogger('api', undefined, () => ({}));
+
+    expect(getLoggerNames()).toEqual(['db', 'api']);
+  });
+
+  it('should register named browser loggers', () => {
+    const api = logger({ name: 'api' });
+
+    expect(logger({ name: 'api' })).toBe(api);
+    expect(logger({ name: 'db' })).not.toBe(api);
+    expect(getLoggerNames()).toEqual(['api', 'db']);
+  });
+});
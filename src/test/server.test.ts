@@ -0,0 +1,283 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { EventEmitter } from 'events';
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import type winston from 'winston';
+
+import { createApiLogger } from '../http';
+import { createLogIngestHandler } from '../ingest';
+import { createServerLogger, getRootLogger } from '../server';
+import { MemoryTransport } from '../transports';
+import {
+  getConsoleTransport,
+  getWinstonConfig,
+  WinstonTransport,
+  WINSTON_LEVELS,
+} from '../winston.config';
+
+describe('server.ts', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('fatal', () => {
+    it('should write records at the fatal level', () => {
+      const memory = new MemoryTransport();
+      const log = createServerLogger({ transports: [memory] });
+
+      log.fatal('database unreachable', { host: 'db-1' });
+
+      expect(memory.getRecords()[0]).toMatchObject({
+        level: 'fatal',
+        message: 'database unreachable',
+      });
+    });
+
+    it('should pass error-level transport filters', () => {
+      const errors = new MemoryTransport({ level: 'error' });
+      const log = createServerLogger({ transports: [errors] });
+
+      log.fatal('boom');
+
+      expect(errors.getRecords()).toHaveLength(1);
+    });
+
+    it('should close transports before exiting when exit is requested', async () => {
+      const memory = new MemoryTransport();
+      const close = vi.spyOn(memory, 'close');
+      const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+      const log = createServerLogger({ transports: [memory] });
+
+      log.fatal('shutting down', undefined, { exit: true, exitCode: 70 });
+      await vi.waitFor(() => expect(exit).toHaveBeenCalled());
+
+      expect(close).toHaveBeenCalled();
+      expect(close.mock.invocationCallOrder[0]).toBeLessThan(exit.mock.invocationCallOrder[0]!);
+      expect(exit).toHaveBeenCalledWith(70);
+    });
+
+    it('should exit after flushTimeout when a transport hangs', async () => {
+      const memory = new MemoryTransport();
+      vi.spyOn(memory, 'close').mockReturnValue(new Promise(() => {}));
+      const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+      const log = createServerLogger({ transports: [memory] });
+
+      log.fatal('stuck', undefined, { exit: true, flushTimeout: 10 });
+
+      await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1));
+    });
+  });
+
+  describe('derived loggers', () => {
+    it('should write the child name to each record and keep the parent name', () => {
+      const memory = new MemoryTransport();
+      const root = createServerLogger({ name: 'server', transports: [memory] });
+
+      root.child({ requestId: 'r1' }, { name: 'api' }).info('request');
+      root.child({}).info('root');
+
+      expect(memory.getRecords().map(record => record.logger)).toEqual(['api', 'server']);
+      expect(memory.getRecords()[0]?.context).toMatchObject({ requestId: 'r1' });
+    });
+
+    it('should give a child its own level', () => {
+      const memory = new MemoryTransport();
+      const root = createServerLogger({ transports: [memory] });
+      const quiet = root.child({}, { name: 'db', level: 'error' });
+
+      quiet.warn('hidden');
+      quiet.child({ query: 'select' }).error('shown');
+      root.warn('root warning');
+
+      expect(memory.getRecords().map(record => record.message)).toEqual(['shown', 'root warning']);
+    });
+
+    it('should create the root logger once', () => {
+      expect(getRootLogger()).toBe(getRootLogger());
+    });
+
+    it('should derive the built-in loggers from the root logger', () => {
+      const memory = new MemoryTransport();
+      const child = vi
+        .spyOn(getRootLogger(), 'child')
+        .mockImplementation((context, options) =>
+          createServerLogger({ transports: [memory] }).child(context, options)
+        );
+
+      createApiLogger({ name: 'payments', redaction: false }).logRequest({
+        requestId: 'r1',
+        method: 'GET',
+        url: '/pay',
+        timestamp: new Date().toISOString(),
+      });
+      const ingest = createLogIngestHandler();
+      expect(child).toHaveBeenCalledTimes(1);
+
+      ingest.ingest({
+        entries: [
+          {
+            id: '00000000-0000-4000-8000-000000000001',
+            timestamp: 1000,
+            level: 'info',
+            message: 'from browser',
+          },
+        ],
+      });
+
+      expect(child.mock.calls.map(([, options]) => options?.name)).toEqual(['payments', 'browser']);
+      expect(memory.getRecords().map(record => record.logger)).toEqual(['payments', 'browser']);
+    });
+  });
+
+  describe('flush and close', () => {
+    it('should flush and close every transport once, shared with children', async () => {
+      const memory = new MemoryTransport();
+      const flush = vi.spyOn(memory, 'flush');
+      const close = vi.spyOn(memory, 'close');
+      const log = createServerLogger({ transports: [memory] });
+
+      await log.child({ module: 'db' }).flush();
+      await log.close();
+
+      expect(flush).toHaveBeenCalledTimes(1);
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should settle even when a transport fails to close', async () => {
+      const memory = new MemoryTransport();
+      vi.spyOn(memory, 'close').mockRejectedValue(new Error('EBADF'));
+      const log = createServerLogger({ transports: [memory] });
+
+      await expect(log.close()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('winston levels', () => {
+    it('should define fatal as the most severe level', () => {
+      expect(getWinstonConfig().levels).toEqual(WINSTON_LEVELS);
+      expect(WINSTON_LEVELS.fatal).toBeLessThan(WINSTON_LEVELS.error);
+    });
+
+    it('should emit uncolored upper-case level names in JSON console output', () => {
+      const transport = getConsoleTransport();
+      const info = {
+        level: 'fatal',
+        [Symbol.for('level')]: 'fatal',
+        message: 'boom',
+      };
+
+      const formatted = transport.format!.transform(info) as Record<string | symbol, unknown>;
+      const line = JSON.parse(formatted[Symbol.for('message')] as string);
+
+      expect(line.level).toBe('FATAL');
+    });
+
+    it('should pass the logger name to Winston and its JSON console output', () => {
+      const log = vi.fn();
+      const transport = new WinstonTransport({ logger: { log } as unknown as winston.Logger });
+
+      transport.write({ level: 'info', message: 'hi', timestamp: 0, logger: 'api' });
+      expect(log).toHaveBeenCalledWith('info', 'hi', { logger: 'api' });
+
+      const formatted = getConsoleTransport().format!.transform({
+        level: 'info',
+        [Symbol.for('level')]: 'info',
+        message: 'hi',
+        logger: 'api',
+      }) as Record<string | symbol, unknown>;
+
+      expect(JSON.parse(formatted[Symbol.for('message')] as string).logger).toBe('api');
+    });
+
+    it('should wait for backed-up Winston streams to drain on flush', async () => {
+      const stream = Object.assign(new EventEmitter(), { writableNeedDrain: true });
+      const logger = Object.assign(new EventEmitter(), {
+        writableNeedDrain: false,
+        transports: [stream],
+      });
+      const transport = new WinstonTransport({ logger: logger as unknown as winston.Logger });
+
+      let flushed = false;
+      const flushing = transport.flush().then(() => (flushed = true));
+      await new Promise(resolve => setImmediate(resolve));
+      expect(flushed).toBe(false);
+
+      stream.emit('drain');
+      await flushing;
+      expect(flushed).toBe(true);
+      expect(stream.listenerCount('drain')).toBe(0);
+    });
+
+    it('should emit the complete JSON entry in production', () => {
+      const formatted = getConsoleTransport().format!.transform({
+        level: 'warn',
+        [Symbol.for('level')]: 'warn',
+        message: 'slow query',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        logger: 'db',
+        trace: 'abc',
+        durationMs: 1200,
+      }) as Record<string | symbol, unknown>;
+
+      expect(JSON.parse(formatted[Symbol.for('message')] as string)).toEqual({
+        '@timestamp': '2026-01-01T00:00:00.000Z',
+        level: 'WARN',
+        message: 'slow query',
+        context: { durationMs: 1200 },
+        logger: 'db',
+        trace: 'abc',
+      });
+    });
+
+    it('should pretty-print context and errors in development', () => {
+      vi.stubEnv('NODE_ENV', 'development');
+
+      const formatted = getConsoleTransport().format!.transform({
+        level: 'error',
+        [Symbol.for('level')]: 'error',
+        message: 'query failed',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        logger: 'db',
+        table: 'users',
+        error: { name: 'Error', message: 'reset', stack: 'Error: reset\n    at q (db.ts:1:1)' },
+      }) as Record<string | symbol, unknown>;
+      const lines = String(formatted[Symbol.for('message')]).split('\n');
+
+      expect(lines[0]).toContain('2026-01-01T00:00:00.000Z');
+      expect(lines[0]).toContain('[db]');
+      expect(lines[0]).toContain('table=');
+      expect(lines.slice(1)).toEqual(['    Error: reset', '        at q (db.ts:1:1)']);
+    });
+
+    it('should timestamp every entry', () => {
+      const info = getWinstonConfig().format!.transform({ level: 'info', message: 'hi' });
+
+      expect(typeof (info as Record<string, unknown>).timestamp).toBe('string');
+    });
+  });
+});
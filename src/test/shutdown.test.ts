@@ -0,0 +1,145 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { PassThrough } from 'stream';
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import winston from 'winston';
+
+import { createServerLogger } from '../server';
+import { installShutdownHooks, shutdownLoggers } from '../shutdown';
+import { MemoryTransport } from '../transports';
+import { WinstonTransport } from '../winston.config';
+
+describe('shutdown.ts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('shutdownLoggers', () => {
+    it('should report closed and dropped transports', async () => {
+      const fast = new MemoryTransport();
+      const slow = new MemoryTransport();
+      vi.spyOn(slow, 'close').mockReturnValue(new Promise(() => {}));
+      const log = createServerLogger({ transports: [fast, slow] });
+
+      const report = await shutdownLoggers([log], 20, 'SIGTERM');
+
+      expect(report.reason).toBe('SIGTERM');
+      expect(report.closed).toEqual(['memory']);
+      expect(report.dropped).toEqual(['memory']);
+      expect(report.failed).toEqual([]);
+    });
+
+    it('should close transports shared by parent and child only once', async () => {
+      const memory = new MemoryTransport();
+      const close = vi.spyOn(memory, 'close');
+      const parent = createServerLogger({ transports: [memory] });
+
+      const report = await shutdownLoggers([parent, parent.child({ module: 'db' })], 100);
+
+      expect(close).toHaveBeenCalledTimes(1);
+      expect(report.closed).toHaveLength(1);
+    });
+
+    it('should settle right away for a Winston transport closed before', async () => {
+      const logger = winston.createLogger({
+        transports: [new winston.transports.Stream({ stream: new PassThrough() })],
+      });
+      const transport = new WinstonTransport({ logger });
+      const log = createServerLogger({ transports: [transport] });
+
+      await log.close();
+      await log.close();
+      const report = await shutdownLoggers([log], 1000, 'beforeExit');
+
+      expect(report.closed).toEqual(['winston']);
+      expect(report.dropped).toEqual([]);
+      expect(report.duration).toBeLessThan(1000);
+    });
+
+    it('should report transports whose close rejects', async () => {
+      const memory = new MemoryTransport();
+      vi.spyOn(memory, 'close').mockRejectedValue(new Error('EBADF'));
+
+      const report = await shutdownLoggers([createServerLogger({ transports: [memory] })], 100);
+
+      expect(report.failed).toEqual(['memory']);
+    });
+  });
+
+  describe('installShutdownHooks', () => {
+    it('should close loggers and exit on a signal', async () => {
+      const memory = new MemoryTransport();
+      const close = vi.spyOn(memory, 'close');
+      const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+      const onShutdown = vi.fn();
+      const uninstall = installShutdownHooks(createServerLogger({ transports: [memory] }), {
+        signals: ['SIGUSR2'],
+        beforeExit: false,
+        exitCode: 3,
+        onShutdown,
+      });
+
+      process.emit('SIGUSR2', 'SIGUSR2');
+      await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(3));
+      uninstall();
+
+      expect(close).toHaveBeenCalled();
+      expect(onShutdown).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'SIGUSR2', closed: ['memory'], dropped: [] })
+      );
+    });
+
+    it('should exit right away on a second signal during a slow drain', async () => {
+      const memory = new MemoryTransport();
+      vi.spyOn(memory, 'close').mockReturnValue(new Promise(() => {}));
+      const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+      const uninstall = installShutdownHooks(createServerLogger({ transports: [memory] }), {
+        signals: ['SIGUSR2'],
+        beforeExit: false,
+        timeout: 200,
+        exitCode: 3,
+      });
+
+      process.emit('SIGUSR2', 'SIGUSR2');
+      expect(exit).not.toHaveBeenCalled();
+      process.emit('SIGUSR2', 'SIGUSR2');
+      uninstall();
+
+      expect(exit).toHaveBeenCalledWith(3);
+    });
+
+    it('should remove its listeners when uninstalled', () => {
+      const before = process.listenerCount('SIGUSR2');
+      const uninstall = installShutdownHooks(createServerLogger({ transports: [] }), {
+        signals: ['SIGUSR2'],
+      });
+
+      expect(process.listenerCount('SIGUSR2')).toBe(before + 1);
+      uninstall();
+      expect(process.listenerCount('SIGUSR2')).toBe(before);
+    });
+  });
+});
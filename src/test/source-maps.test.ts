@@ -0,0 +1,307 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+
+import { serializeError, setStackFrameResolver } from '../errors';
+import { createLogIngestHandler } from '../ingest';
+import {
+  createSourceMapResolver,
+  decodeVlq,
+  installSourceMapSupport,
+  parseSourceMap,
+} from '../source-maps';
+import type { IServerLogger } from '../types';
+
+/**
+ * Encode numbers as a base64 VLQ segment
+ */
+function encodeVlq(values: number[]): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  return values
+    .map(value => {
+      let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+      let out = '';
+      do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) {
+          digit |= 32;
+        }
+        out += chars[digit];
+      } while (vlq > 0);
+      return out;
+    })
+    .join('');
+}
+
+/**
+ * Generated line 1: column 0 maps to src/app.ts 1:1, column 20 to 3:5 (name "handler");
+ * generated line 2 has no mappings
+ */
+const MAP = {
+  version: 3,
+  file: 'app.js',
+  sources: ['../src/app.ts'],
+  names: ['handler'],
+  mappings: `${encodeVlq([0, 0, 0, 0])},${encodeVlq([20, 0, 2, 4, 0])};`,
+};
+
+describe('source-maps.ts', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-maps-'));
+    fs.mkdirSync(path.join(dir, 'dist'));
+  });
+
+  afterEach(() => {
+    setStackFrameResolver(null);
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeBundle(name: string, comment: string): string {
+    const file = path.join(dir, 'dist', name);
+    fs.writeFileSync(file, `function a(){}function handler(){throw new Error('x')}\n${comment}\n`);
+    return file;
+  }
+
+  describe('decodeVlq', () => {
+    it('should decode positive, negative and multi-digit values', () => {
+      expect(decodeVlq('AAAA')).toEqual([0, 0, 0, 0]);
+      expect(decodeVlq('CADF')).toEqual([1, 0, -1, -2]);
+      expect(decodeVlq(encodeVlq([1000, -123456]))).toEqual([1000, -123456]);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => decodeVlq('A!')).toThrow('Invalid VLQ character: !');
+    });
+  });
+
+  describe('parseSourceMap', () => {
+    it('should find the original position of generated locations', () => {
+      const map = parseSourceMap(MAP);
+
+      expect(map.originalPositionFor(1, 1)).toEqual({
+        source: '../src/app.ts',
+        line: 1,
+        column: 1,
+      });
+      expect(map.originalPositionFor(1, 30)).toEqual({
+        source: '../src/app.ts',
+        line: 3,
+        column: 5,
+        name: 'handler',
+      });
+      expect(map.originalPositionFor(2, 1)).toBeNull();
+      expect(map.originalPositionFor(9, 1)).toBeNull();
+    });
+
+    it('should resolve relative sources against the map location', () => {
+      const map = parseSourceMap(JSON.stringify(MAP), '/app/dist/app.js.map');
+
+      expect(map.originalPositionFor(1, 1)?.source).toBe(path.resolve('/app/src/app.ts'));
+    });
+
+    it('should keep bundler URLs and apply sourceRoot', () => {
+      const map = parseSourceMap(
+        { ...MAP, sourceRoot: 'webpack://app/', sources: ['./src/app.ts'] },
+        '/app/dist/app.js.map'
+      );
+
+      expect(map.originalPositionFor(1, 1)?.source).toBe('webpack://app/./src/app.ts');
+    });
+
+    it('should reject maps that are not version 3', () => {
+      expect(() => parseSourceMap({ version: 2, mappings: '', sources: [] })).toThrow(
+        'Invalid source map'
+      );
+    });
+  });
+
+  describe('createSourceMapResolver', () => {
+    it('should follow sourceMappingURL comments', () => {
+      const file = writeBundle('app.js', '//# sourceMappingURL=app.js.map');
+      fs.writeFileSync(path.join(dir, 'dist', 'app.js.map'), JSON.stringify(MAP));
+
+      const [frame] = createSourceMapResolver().resolveFrames([
+        { file, line: 1, column: 25, function: 'a' },
+      ]);
+
+      expect(frame).toEqual({
+        file: path.join(dir, 'src', 'app.ts'),
+        line: 3,
+        column: 5,
+        function: 'handler',
+        generated: { file, line: 1, column: 25 },
+      });
+    });
+
+    it('should read inline data URL maps', () => {
+      const data = Buffer.from(JSON.stringify(MAP)).toString('base64');
+      const file = writeBundle(
+        'inline.js',
+        `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${data}`
+      );
+
+      const [frame] = createSourceMapResolver().resolveFrames([
+        { file: `file://${file}`, line: 1, column: 1 },
+      ]);
+
+      expect(frame).toMatchObject({ file: path.join(dir, 'src', 'app.ts'), line: 1 });
+    });
+
+    it('should fall back to <file>.map and leave unmapped frames unchanged', () => {
+      const file = writeBundle('plain.js', '');
+      fs.writeFileSync(`${file}.map`, JSON.stringify(MAP));
+      const resolver = createSourceMapResolver();
+
+      const frames = [
+        { file, line: 1, column: 1 },
+        { file, line: 2, column: 1 },
+        { file: path.join(dir, 'missing.js'), line: 1, column: 1 },
+        { file: 'native', function: 'map' },
+      ];
+
+      const [resolved, ...rest] = resolver.resolveFrames(frames);
+      expect(resolved?.line).toBe(1);
+      expect(resolved?.generated).toBeDefined();
+      expect(rest).toEqual(frames.slice(1));
+    });
+
+    it('should map bundle URLs to local directories without leaving them', () => {
+      writeBundle('main.js', '//# sourceMappingURL=main.js.map');
+      fs.writeFileSync(path.join(dir, 'dist', 'main.js.map'), JSON.stringify(MAP));
+      const resolver = createSourceMapResolver({
+        urlRoots: { 'https://app.example.com/static/': path.join(dir, 'dist') },
+        localFiles: false,
+      });
+
+      const [mapped, escaped, local] = resolver.resolveFrames([
+        { file: 'https://app.example.com/static/main.js?v=3', line: 1, column: 30 },
+        { file: 'https://app.example.com/static/../../etc/passwd', line: 1, column: 1 },
+        { file: path.join(dir, 'dist', 'main.js'), line: 1, column: 1 },
+      ]);
+
+      expect(mapped).toMatchObject({ line: 3, column: 5, function: 'handler' });
+      expect(escaped?.generated).toBeUndefined();
+      expect(local?.generated).toBeUndefined();
+    });
+
+    it('should warn once and skip invalid maps', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const file = writeBundle('broken.js', '//# sourceMappingURL=broken.js.map');
+      fs.writeFileSync(path.join(dir, 'dist', 'broken.js.map'), '{not json');
+      const resolver = createSourceMapResolver();
+
+      resolver.resolveFrames([{ file, line: 1, column: 1 }]);
+      resolver.resolveFrames([{ file, line: 1, column: 1 }]);
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(String(warn.mock.calls[0]?.[0])).toContain('[SourceMaps]');
+    });
+
+    it('should resolve serialized errors with their causes', () => {
+      const file = writeBundle('app.js', '//# sourceMappingURL=app.js.map');
+      fs.writeFileSync(path.join(dir, 'dist', 'app.js.map'), JSON.stringify(MAP));
+      const stack = `Error: x\n    at handler (${file}:1:30)`;
+
+      const error = createSourceMapResolver().resolveError({
+        name: 'Error',
+        message: 'x',
+        stack,
+        cause: { name: 'Error', message: 'y', frames: [{ file, line: 1, column: 1 }] },
+      }) as unknown as { frames: unknown[]; cause: { frames: unknown[] } };
+
+      expect(error.frames[0]).toMatchObject({ line: 3, function: 'handler' });
+      expect(error.cause.frames[0]).toMatchObject({ line: 1, column: 1 });
+    });
+  });
+
+  describe('integration', () => {
+    it('should resolve frames of serialized errors once installed', () => {
+      const file = writeBundle('app.js', '//# sourceMappingURL=app.js.map');
+      fs.writeFileSync(path.join(dir, 'dist', 'app.js.map'), JSON.stringify(MAP));
+      const error = new Error('x');
+      error.stack = `Error: x\n    at handler (${file}:1:30)`;
+
+      installSourceMapSupport();
+
+      expect(serializeError(error).frames).toEqual([
+        {
+          file: path.join(dir, 'src', 'app.ts'),
+          line: 3,
+          column: 5,
+          function: 'handler',
+          generated: { file, line: 1, column: 30 },
+        },
+      ]);
+    });
+
+    it('should resolve ingested browser errors', () => {
+      writeBundle('main.js', '//# sourceMappingURL=main.js.map');
+      fs.writeFileSync(path.join(dir, 'dist', 'main.js.map'), JSON.stringify(MAP));
+      const error = vi.fn();
+      const ingest = createLogIngestHandler({
+        logger: { error } as unknown as IServerLogger,
+        sourceMaps: createSourceMapResolver({
+          urlRoots: { 'https://app.example.com/static/': path.join(dir, 'dist') },
+          localFiles: false,
+        }),
+      });
+
+      const result = ingest.ingest([
+        {
+          id: '8f14e45f-ceea-4e7a-9b1c-2f1e4a6b7c8d',
+          level: 'error',
+          message: 'boom',
+          timestamp: Date.now(),
+          context: {
+            error: {
+              name: 'Error',
+              message: 'boom',
+              stack: 'handler@https://app.example.com/static/main.js:1:30',
+            },
+          },
+        },
+      ]);
+
+      expect(result.accepted).toBe(1);
+      expect(error.mock.calls[0]?.[1].error.frames).toEqual([
+        {
+          file: path.join(dir, 'src', 'app.ts'),
+          line: 3,
+          column: 5,
+          function: 'handler',
+          generated: { file: 'https://app.example.com/static/main.js', line: 1, column: 30 },
+        },
+      ]);
+    });
+  });
+});
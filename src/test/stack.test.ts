@@ -0,0 +1,110 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { parseStack } from '../stack';
+
+describe('stack.ts', () => {
+  it('should parse V8 stacks', () => {
+    const stack = [
+      'TypeError: Cannot read properties of undefined',
+      '    at handler (/app/dist/server.js:10:15)',
+      '    at async Promise.all (index 0)',
+      '    at new Repository (file:///app/dist/repo.mjs:3:7)',
+      '    at /app/dist/index.js:1:200',
+      '    at Object.<anonymous> (C:\\app\\dist\\main.js:4:2)',
+      '    at eval (eval at compile (/app/dist/vm.js:5:9), <anonymous>:1:1)',
+      '    at Array.map (<anonymous>)',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { file: '/app/dist/server.js', line: 10, column: 15, function: 'handler' },
+      { file: 'index 0', function: 'Promise.all' },
+      { file: 'file:///app/dist/repo.mjs', line: 3, column: 7, function: 'new Repository' },
+      { file: '/app/dist/index.js', line: 1, column: 200 },
+      { file: 'C:\\app\\dist\\main.js', line: 4, column: 2, function: 'Object.<anonymous>' },
+      { file: '/app/dist/vm.js', line: 5, column: 9, function: 'eval' },
+      { file: '<anonymous>', function: 'Array.map' },
+    ]);
+  });
+
+  it('should parse SpiderMonkey stacks', () => {
+    const stack = [
+      'handler@https://app.example.com/static/main.js:1:2045',
+      '@https://app.example.com/static/main.js:1:90',
+      'run@https://app.example.com/static/main.js line 12 > eval:1:5',
+      '',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      {
+        file: 'https://app.example.com/static/main.js',
+        line: 1,
+        column: 2045,
+        function: 'handler',
+      },
+      { file: 'https://app.example.com/static/main.js', line: 1, column: 90 },
+      { file: 'https://app.example.com/static/main.js', line: 12, function: 'run' },
+    ]);
+  });
+
+  it('should parse JavaScriptCore stacks', () => {
+    const stack = [
+      'handler@https://app.example.com/static/main.js:1:2045',
+      'map@[native code]',
+      'global code@https://app.example.com/static/main.js:3:12',
+      'https://app.example.com/static/vendor.js:8:1',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      {
+        file: 'https://app.example.com/static/main.js',
+        line: 1,
+        column: 2045,
+        function: 'handler',
+      },
+      { file: 'native', function: 'map' },
+      {
+        file: 'https://app.example.com/static/main.js',
+        line: 3,
+        column: 12,
+        function: 'global code',
+      },
+      { file: 'https://app.example.com/static/vendor.js', line: 8, column: 1 },
+    ]);
+  });
+
+  it('should parse stacks of real errors', () => {
+    const frames = parseStack(new Error('boom').stack);
+
+    expect(frames[0]?.file).toContain('stack.test.ts');
+    expect(frames[0]?.line).toBeGreaterThan(0);
+  });
+
+  it('should return no frames for empty stacks and message-only text', () => {
+    expect(parseStack(undefined)).toEqual([]);
+    expect(parseStack('Error: user@example.com failed')).toEqual([]);
+  });
+});
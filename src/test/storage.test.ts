@@ -0,0 +1,233 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createIndexedDbLogStorage,
+  createLocalStorageLogStorage,
+  createMemoryLogStorage,
+  createSessionStorageLogStorage,
+} from '../storage';
+import type { BrowserLogEntry } from '../types';
+
+let sequence = 0;
+
+function entry(message: string, timestamp = 1000): BrowserLogEntry {
+  sequence++;
+  return {
+    id: `00000000-0000-4000-8000-${String(sequence).padStart(12, '0')}`,
+    timestamp,
+    level: 'info',
+    message,
+  };
+}
+
+function messages(entries: BrowserLogEntry[]): string[] {
+  return entries.map(e => e.message);
+}
+
+function webStorage(store: Map<string, string>) {
+  return {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: vi.fn((key: string, value: string) => {
+      store.set(key, value);
+    }),
+    removeItem: (key: string) => store.delete(key),
+  };
+}
+
+describe('storage.ts', () => {
+  describe('Web Storage', () => {
+    let local: Map<string, string>;
+    let session: Map<string, string>;
+
+    beforeEach(() => {
+      local = new Map();
+      session = new Map();
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', webStorage(local));
+      vi.stubGlobal('sessionStorage', webStorage(session));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should keep the newest entries under the key', () => {
+      const storage = createLocalStorageLogStorage({ key: 'logs', maxEntries: 2 });
+      storage.append(entry('a', 1000));
+      storage.append(entry('b', 2000));
+      storage.append(entry('c', 3000));
+
+      expect(messages(storage.read() as BrowserLogEntry[])).toEqual(['b', 'c']);
+      expect(messages(storage.read(1) as BrowserLogEntry[])).toEqual(['b']);
+      expect(JSON.parse(local.get('logs')!).entries).toHaveLength(2);
+    });
+
+    it('should remove and clear entries', () => {
+      const storage = createLocalStorageLogStorage({ key: 'logs' });
+      const first = entry('a');
+      storage.append(first);
+      storage.append(entry('b'));
+
+      storage.remove([first.id]);
+      expect(messages(storage.read() as BrowserLogEntry[])).toEqual(['b']);
+
+      storage.clear();
+      expect(local.has('logs')).toBe(false);
+    });
+
+    it('should drop older entries and retry when the quota is exceeded', () => {
+      const storage = createLocalStorageLogStorage({ key: 'logs' });
+      for (const message of ['a', 'b', 'c']) {
+        storage.append(entry(message));
+      }
+
+      const quota = Object.assign(new Error('full'), { name: 'QuotaExceededError' });
+      vi.mocked(localStorage.setItem).mockImplementationOnce(() => {
+        throw quota;
+      });
+      storage.append(entry('d'));
+
+      expect(messages(storage.read() as BrowserLogEntry[])).toEqual(['c', 'd']);
+    });
+
+    it('should write sessionStorage through its own store', () => {
+      const storage = createSessionStorageLogStorage({ key: 'logs' });
+      storage.append(entry('a'));
+
+      expect(storage.name).toBe('sessionStorage');
+      expect(session.has('logs')).toBe(true);
+      expect(local.has('logs')).toBe(false);
+    });
+  });
+
+  describe('memory', () => {
+    it('should cap, read in order and remove entries', () => {
+      const storage = createMemoryLogStorage({ maxEntries: 2 });
+      const kept = entry('b');
+      storage.append(entry('a'));
+      storage.append(kept);
+      storage.append(entry('c'));
+
+      expect(messages(storage.read() as BrowserLogEntry[])).toEqual(['b', 'c']);
+
+      storage.remove([kept.id]);
+      expect(messages(storage.read(5) as BrowserLogEntry[])).toEqual(['c']);
+    });
+  });
+
+  describe('IndexedDB', () => {
+    let dbName: string;
+
+    beforeEach(() => {
+      dbName = `test-logs-${++sequence}`;
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should append asynchronously and read with a cursor, oldest first', async () => {
+      const storage = createIndexedDbLogStorage({ dbName });
+      await storage.append(entry('a', 3000));
+      await storage.append(entry('b', 1000));
+      await storage.append(entry('c', 2000));
+
+      expect(messages(await storage.read())).toEqual(['a', 'b', 'c']);
+      expect(messages(await storage.read(2))).toEqual(['a', 'b']);
+      await storage.close();
+    });
+
+    it('should see appends that were not awaited', async () => {
+      const storage = createIndexedDbLogStorage({ dbName });
+      void storage.append(entry('a'));
+      void storage.append(entry('b'));
+
+      expect(messages(await storage.read())).toEqual(['a', 'b']);
+      await storage.close();
+    });
+
+    it('should evict the oldest entries beyond maxEntries', async () => {
+      const storage = createIndexedDbLogStorage({ dbName, maxEntries: 2 });
+      for (const message of ['a', 'b', 'c']) {
+        await storage.append(entry(message));
+      }
+
+      expect(messages(await storage.read())).toEqual(['b', 'c']);
+      await storage.close();
+    });
+
+    it('should evict the oldest entries beyond maxBytes', async () => {
+      const size = new TextEncoder().encode(JSON.stringify(entry('x'))).length;
+      const storage = createIndexedDbLogStorage({ dbName, maxBytes: size * 2 + 1 });
+      for (const message of ['a', 'b', 'c']) {
+        await storage.append(entry(message));
+      }
+
+      expect(messages(await storage.read())).toEqual(['b', 'c']);
+      await storage.close();
+    });
+
+    it('should evict and skip entries older than maxAge', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(10000);
+      const storage = createIndexedDbLogStorage({ dbName, maxAge: 5000 });
+      await storage.append(entry('old', 1000));
+      await storage.append(entry('new', 9000));
+
+      expect(messages(await storage.read())).toEqual(['new']);
+
+      vi.spyOn(Date, 'now').mockReturnValue(20000);
+      expect(await storage.read()).toEqual([]);
+      await storage.close();
+    });
+
+    it('should keep byte totals exact across removals', async () => {
+      const size = new TextEncoder().encode(JSON.stringify(entry('x'))).length;
+      const storage = createIndexedDbLogStorage({ dbName, maxBytes: size * 2 + 1 });
+      const first = entry('a');
+      await storage.append(first);
+      await storage.append(entry('b'));
+      await storage.remove([first.id, 'missing']);
+      await storage.append(entry('c'));
+
+      expect(messages(await storage.read())).toEqual(['b', 'c']);
+      await storage.close();
+    });
+
+    it('should persist across connections and clear', async () => {
+      const storage = createIndexedDbLogStorage({ dbName });
+      await storage.append(entry('a'));
+      await storage.close();
+
+      const reopened = createIndexedDbLogStorage({ dbName });
+      expect(messages(await reopened.read())).toEqual(['a']);
+
+      await reopened.clear();
+      expect(await reopened.read()).toEqual([]);
+      await reopened.close();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { runWithContext } from '../context';
+import { formatJsonRecord } from '../formatters';
+import { createLoggedFetch } from '../http';
+import { createServerLogger } from '../server';
+import {
+  createChildSpan,
+  extractTraceContext,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+  parseTracestate,
+} from '../trace';
+import { MemoryTransport } from '../transports';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe('trace.ts', () => {
+  describe('parseTraceparent', () => {
+    it('should parse a valid version 00 header', () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        flags: '01',
+      });
+    });
+
+    it.each([
+      ['empty', ''],
+      ['uppercase hex', TRACEPARENT.toUpperCase()],
+      ['all-zero trace ID', `00-${'0'.repeat(32)}-${SPAN_ID}-01`],
+      ['all-zero span ID', `00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+      ['version ff', `ff-${TRACE_ID}-${SPAN_ID}-01`],
+      ['extra fields on version 00', `${TRACEPARENT}-extra`],
+      ['short trace ID', `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`],
+    ])('should reject %s', (_label, header) => {
+      expect(parseTraceparent(header)).toBeNull();
+    });
+
+    it('should accept extra fields on future versions', () => {
+      expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-future`)?.traceId).toBe(TRACE_ID);
+    });
+
+    it('should round-trip through formatTraceparent', () => {
+      const parsed = parseTraceparent(TRACEPARENT);
+
+      expect(parsed && formatTraceparent(parsed)).toBe(TRACEPARENT);
+    });
+  });
+
+  describe('parseTracestate', () => {
+    it('should normalize valid members', () => {
+      expect(parseTracestate('rojo=00f067aa0ba902b7 , congo=t61rcWkgMzE')).toBe(
+        'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE'
+      );
+    });
+
+    it('should accept multi-tenant keys', () => {
+      expect(parseTracestate('tenant@vendor=value')).toBe('tenant@vendor=value');
+    });
+
+    it('should drop malformed or oversized headers', () => {
+      expect(parseTracestate('Upper=value')).toBeUndefined();
+      expect(parseTracestate('key=val=ue')).toBeUndefined();
+      expect(parseTracestate(Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(','))).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe('ID generation', () => {
+    it('should generate lowercase hex IDs of the right length', () => {
+      expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+      expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+      expect(generateSpanId()).not.toBe(generateSpanId());
+    });
+  });
+
+  describe('createChildSpan', () => {
+    it('should continue the parent trace with a new span', () => {
+      const parent = extractTraceContext(TRACEPARENT, 'rojo=1');
+      const child = createChildSpan(parent);
+
+      expect(child).toMatchObject({
+        traceId: TRACE_ID,
+        parentSpanId: SPAN_ID,
+        flags: '01',
+        traceState: 'rojo=1',
+      });
+      expect(child.spanId).not.toBe(SPAN_ID);
+    });
+
+    it('should start a sampled root trace without a parent', () => {
+      const root = createChildSpan();
+
+      expect(root.parentSpanId).toBeUndefined();
+      expect(root.flags).toBe('01');
+    });
+  });
+});
+
+describe('createLoggedFetch trace propagation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function setup() {
+    const fetchMock = vi.fn((_input: RequestInfo | URL, _init?: RequestInit) =>
+      Promise.resolve(new Response('ok'))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const logger = { logRequest: vi.fn(), logResponse: vi.fn(), logError: vi.fn() };
+
+    return { fetchMock, logger };
+  }
+
+  function sentHeaders(fetchMock: ReturnType<typeof setup>['fetchMock']) {
+    return (fetchMock.mock.calls[0]?.[1]?.headers ?? {}) as Record<string, string>;
+  }
+
+  it('should continue a traceparent from the request context', async () => {
+    const { fetchMock, logger } = setup();
+    const loggedFetch = createLoggedFetch({ logger });
+
+    await runWithContext({ traceparent: TRACEPARENT, tracestate: 'rojo=1' }, () =>
+      loggedFetch('https://api.example.com/users')
+    );
+
+    const sent = parseTraceparent(sentHeaders(fetchMock).traceparent);
+    expect(sent?.traceId).toBe(TRACE_ID);
+    expect(sent?.spanId).not.toBe(SPAN_ID);
+    expect(sentHeaders(fetchMock).tracestate).toBe('rojo=1');
+
+    const request = logger.logRequest.mock.calls[0]?.[0];
+    const response = logger.logResponse.mock.calls[0]?.[0];
+    expect(request).toMatchObject({
+      traceId: TRACE_ID,
+      spanId: sent?.spanId,
+      parentSpanId: SPAN_ID,
+    });
+    expect(response).toMatchObject({
+      traceId: TRACE_ID,
+      spanId: sent?.spanId,
+      parentSpanId: SPAN_ID,
+    });
+  });
+
+  it('should continue a traceparent passed in the request headers', async () => {
+    const { fetchMock, logger } = setup();
+
+    await createLoggedFetch({ logger })('https://api.example.com/users', {
+      headers: { traceparent: TRACEPARENT },
+    });
+
+    expect(parseTraceparent(sentHeaders(fetchMock).traceparent)?.traceId).toBe(TRACE_ID);
+  });
+
+  it('should start a new trace without a parent', async () => {
+    const { fetchMock, logger } = setup();
+
+    await createLoggedFetch({ logger })('https://api.example.com/users');
+
+    const sent = parseTraceparent(sentHeaders(fetchMock).traceparent);
+    expect(sent).not.toBeNull();
+    expect(logger.logRequest.mock.calls[0]?.[0].parentSpanId).toBeUndefined();
+  });
+
+  it('should not send trace headers when propagation is disabled', async () => {
+    const { fetchMock, logger } = setup();
+
+    await createLoggedFetch({ logger, propagateTrace: false })('https://api.example.com/users');
+
+    expect(sentHeaders(fetchMock).traceparent).toBeUndefined();
+    expect(logger.logRequest.mock.calls[0]?.[0].traceId).toBeUndefined();
+  });
+});
+
+describe('log entry trace field', () => {
+  it('should fill trace from the traceId in context', () => {
+    const memory = new MemoryTransport();
+    const log = createServerLogger({ transports: [memory] });
+
+    log.info('API Request', { traceId: TRACE_ID });
+
+    const [record] = memory.getRecords();
+    expect(record?.trace).toBe(TRACE_ID);
+    expect(JSON.parse(formatJsonRecord(record!))).toMatchObject({ trace: TRACE_ID });
+  });
+});
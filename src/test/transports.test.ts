@@ -0,0 +1,211 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { FileTransport, RotatingFileTransport } from '../file-transports';
+import { createServerLogger } from '../server';
+import { HttpTransport, MemoryTransport, writeToTransports } from '../transports';
+import type { LogRecord, Transport } from '../types';
+
+function record(overrides: Partial<LogRecord> = {}): LogRecord {
+  return {
+    level: 'info',
+    message: 'hello',
+    timestamp: Date.UTC(2026, 0, 15, 12),
+    ...overrides,
+  };
+}
+
+describe('transports.ts', () => {
+  describe('writeToTransports', () => {
+    it('should skip transports whose minimum level is higher', () => {
+      const all = new MemoryTransport();
+      const errorsOnly = new MemoryTransport({ level: 'error' });
+
+      writeToTransports([all, errorsOnly], record({ level: 'warn' }));
+      writeToTransports([all, errorsOnly], record({ level: 'fatal' }));
+
+      expect(all.getRecords()).toHaveLength(2);
+      expect(errorsOnly.getRecords().map(r => r.level)).toEqual(['fatal']);
+    });
+
+    it('should keep writing when one transport throws', () => {
+      const failing: Transport = {
+        name: 'failing',
+        write: () => {
+          throw new Error('disk full');
+        },
+        flush: async () => {},
+        close: async () => {},
+      };
+      const memory = new MemoryTransport();
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      writeToTransports([failing, memory], record());
+
+      expect(memory.getRecords()).toHaveLength(1);
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('MemoryTransport', () => {
+    it('should drop the oldest records beyond maxRecords', () => {
+      const memory = new MemoryTransport({ maxRecords: 2 });
+
+      ['a', 'b', 'c'].forEach(message => memory.write(record({ message })));
+
+      expect(memory.getRecords().map(r => r.message)).toEqual(['b', 'c']);
+    });
+
+    it('should serialize records with the configured formatter', () => {
+      const memory = new MemoryTransport({ format: r => `${r.level}:${r.message}` });
+      memory.write(record());
+      expect(memory.getLines()).toEqual(['info:hello']);
+    });
+  });
+
+  describe('HttpTransport', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it('should send a batch once batchSize is reached', async () => {
+      const fetchMock = vi.fn(() => Promise.resolve(new Response(null, { status: 200 })));
+      vi.stubGlobal('fetch', fetchMock);
+      const http = new HttpTransport({
+        url: 'http://collector/logs',
+        batchSize: 2,
+        flushInterval: 0,
+      });
+
+      http.write(record({ message: 'one' }));
+      expect(fetchMock).not.toHaveBeenCalled();
+      http.write(record({ message: 'two' }));
+      await http.flush();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      const lines = (init.body as string).split('\n').map(line => JSON.parse(line));
+      expect(lines.map(l => l.message)).toEqual(['one', 'two']);
+    });
+
+    it('should keep records for the next flush when the collector fails', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 500 }))
+        .mockResolvedValue(new Response(null, { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const http = new HttpTransport({ url: 'http://collector/logs', flushInterval: 0 });
+
+      http.write(record());
+      await http.flush();
+      await http.close();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('file transports', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glean-transports-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('FileTransport should append one JSON line per record', async () => {
+      const filename = path.join(dir, 'nested', 'app.log');
+      const file = new FileTransport({ filename });
+
+      file.write(record({ message: 'first' }));
+      file.write(record({ message: 'second', context: { userId: 1 } }));
+      await file.close();
+
+      const lines = fs
+        .readFileSync(filename, 'utf8')
+        .trim()
+        .split('\n')
+        .map(l => JSON.parse(l));
+      expect(lines[0]).toMatchObject({ level: 'INFO', message: 'first' });
+      expect(lines[1]).toMatchObject({ message: 'second', context: { userId: 1 } });
+    });
+
+    it('RotatingFileTransport should roll over by day and by size', async () => {
+      const rotating = new RotatingFileTransport({ dirname: dir, filename: 'app', maxSize: 200 });
+      const day1 = Date.UTC(2026, 0, 15, 12);
+      const day2 = Date.UTC(2026, 0, 16, 12);
+
+      rotating.write(record({ timestamp: day1, message: 'x'.repeat(100) }));
+      rotating.write(record({ timestamp: day1, message: 'y'.repeat(100) }));
+      rotating.write(record({ timestamp: day2 }));
+      await rotating.close();
+
+      expect(fs.readdirSync(dir).sort()).toEqual([
+        'app.2026-01-15.1.log',
+        'app.2026-01-15.log',
+        'app.2026-01-16.log',
+      ]);
+    });
+
+    it('RotatingFileTransport should delete files older than maxFiles days', async () => {
+      fs.writeFileSync(path.join(dir, 'app.2026-01-01.log'), '');
+      fs.writeFileSync(path.join(dir, 'other.2026-01-01.log'), '');
+      const rotating = new RotatingFileTransport({ dirname: dir, filename: 'app', maxFiles: 7 });
+
+      rotating.write(record());
+      await rotating.close();
+
+      expect(fs.readdirSync(dir).sort()).toEqual(['app.2026-01-15.log', 'other.2026-01-01.log']);
+    });
+  });
+
+  describe('createServerLogger({ transports })', () => {
+    it('should fan out records with merged child context', () => {
+      const memory = new MemoryTransport();
+      const log = createServerLogger({ name: 'api', level: 'info', transports: [memory] });
+
+      log.debug('hidden');
+      log.child({ module: 'users' }).info('created', { userId: 7 });
+
+      const records = memory.getRecords();
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({
+        level: 'info',
+        message: 'created',
+        logger: 'api',
+        context: { module: 'users', userId: 7 },
+      });
+    });
+  });
+});
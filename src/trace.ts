@@ -0,0 +1,195 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * W3C Trace Context helpers
+ *
+ * This module provides:
+ * - traceparent parsing and formatting (version 00)
+ * - tracestate validation
+ * - Trace and span ID generation
+ * - Child span creation for outbound calls
+ *
+ * @see https://www.w3.org/TR/trace-context/
+ */
+
+/**
+ * A position in a distributed trace
+ */
+export interface TraceContext {
+  /** 32 lowercase hex characters, never all zeros */
+  traceId: string;
+  /** 16 lowercase hex characters, never all zeros */
+  spanId: string;
+  /** Span ID of the caller, when this span was derived from one */
+  parentSpanId?: string;
+  /** Trace flags as 2 hex characters ('01' = sampled) */
+  flags: string;
+  /** Vendor-specific tracestate header value, passed through unchanged */
+  traceState?: string;
+}
+
+const TRACEPARENT_REGEX = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const TRACESTATE_MEMBER_REGEX =
+  /^(?:[a-z][a-z0-9_\-*/]{0,255}|[a-z0-9][a-z0-9_\-*/]{0,240}@[a-z][a-z0-9_\-*/]{0,13})=[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+const MAX_TRACESTATE_MEMBERS = 32;
+
+/**
+ * Generate random lowercase hex of the given byte length, never all zeros
+ */
+function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes);
+
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(buffer);
+  } else {
+    for (let i = 0; i < bytes; i++) {
+      buffer[i] = (Math.random() * 256) | 0;
+    }
+  }
+
+  const hex = Array.from(buffer, byte => byte.toString(16).padStart(2, '0')).join('');
+
+  return /^0+$/.test(hex) ? randomHex(bytes) : hex;
+}
+
+/**
+ * Generate a 16-byte trace ID
+ */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/**
+ * Generate an 8-byte span ID
+ */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+/**
+ * Parse a traceparent header. Returns null for anything the spec says to ignore.
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = TRACEPARENT_REGEX.exec(header.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+
+  // Version ff is forbidden; version 00 must not carry extra fields
+  if (version === 'ff' || (version === '00' && rest !== undefined)) {
+    return null;
+  }
+
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+    return null;
+  }
+
+  return { traceId, spanId, flags };
+}
+
+/**
+ * Format a trace context as a version 00 traceparent header
+ */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.flags}`;
+}
+
+/**
+ * Validate a tracestate header. Returns the normalized value, or undefined
+ * when it is empty or malformed (the spec says to drop it then).
+ */
+export function parseTracestate(header: string | null | undefined): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const members = header
+    .split(',')
+    .map(member => member.trim())
+    .filter(member => member.length > 0);
+
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) {
+    return undefined;
+  }
+
+  if (!members.every(member => TRACESTATE_MEMBER_REGEX.test(member))) {
+    return undefined;
+  }
+
+  return members.join(',');
+}
+
+/**
+ * Read a trace context from traceparent/tracestate header values
+ */
+export function extractTraceContext(
+  traceparent: string | null | undefined,
+  tracestate?: string | null
+): TraceContext | null {
+  const parent = parseTraceparent(traceparent);
+
+  if (!parent) {
+    return null;
+  }
+
+  const traceState = parseTracestate(tracestate);
+
+  return traceState ? { ...parent, traceState } : parent;
+}
+
+/**
+ * Create the span for an outbound call. Continues the parent's trace when
+ * given, otherwise starts a new sampled trace.
+ */
+export function createChildSpan(parent?: TraceContext | null): TraceContext {
+  if (!parent) {
+    return { traceId: generateTraceId(), spanId: generateSpanId(), flags: '01' };
+  }
+
+  return {
+    traceId: parent.traceId,
+    spanId: generateSpanId(),
+    parentSpanId: parent.spanId,
+    flags: parent.flags,
+    ...(parent.traceState && { traceState: parent.traceState }),
+  };
+}
+
+/**
+ * Build the headers that propagate a trace context
+ */
+export function toTraceHeaders(context: TraceContext): Record<string, string> {
+  return {
+    traceparent: formatTraceparent(context),
+    ...(context.traceState && { tracestate: context.traceState }),
+  };
+}
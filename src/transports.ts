@@ -0,0 +1,323 @@
+/**
+ * MIT License
+ *
+ * Copyright (c) 2026 Zaob <zaob.ogn@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * Log Transports
+ *
+ * Browser-safe transport implementations shared by the server and browser loggers.
+ * File-based transports live in file-transports.ts (Node.js only).
+ *
+ * Provides:
+ * - Level filtering and fan-out helpers
+ * - ConsoleTransport (console methods per level)
+ * - MemoryTransport (in-memory buffer for tests and diagnostics)
+ * - HttpTransport (batched POST to a collector endpoint)
+ */
+
+import { formatJsonRecord, formatRecord } from './formatters';
+import { getLogLevelPriority } from './types';
+import type { LogFormatter, LogLevel, LogRecord, Transport, TransportOptions } from './types';
+
+/**
+ * Check whether a transport accepts records at the given level
+ */
+export function transportAccepts(transport: Transport, level: LogLevel): boolean {
+  return !transport.level || getLogLevelPriority(level) >= getLogLevelPriority(transport.level);
+}
+
+/**
+ * Write a record to every transport that accepts its level.
+ * A failing transport never prevents the others from receiving the record.
+ */
+export function writeToTransports(transports: Transport[], record: LogRecord): void {
+  for (const transport of transports) {
+    if (!transportAccepts(transport, record.level)) {
+      continue;
+    }
+
+    try {
+      transport.write(record);
+    } catch (error) {
+      console.warn(`[Transport] ${transport.name} failed to write:`, error);
+    }
+  }
+}
+
+/**
+ * Flush every transport, resolving once all have settled
+ */
+export async function flushTransports(transports: Transport[]): Promise<void> {
+  await Promise.allSettled(transports.map(transport => transport.flush()));
+}
+
+/**
+ * Close every transport, resolving once all have settled
+ */
+export async function closeTransports(transports: Transport[]): Promise<void> {
+  await Promise.allSettled(transports.map(transport => transport.close()));
+}
+
+/**
+ * Let a timer not keep the Node.js process alive (no-op in browsers)
+ */
+function unrefTimer(timer: ReturnType<typeof setInterval>): void {
+  (timer as { unref?: () => void }).unref?.();
+}
+
+// ============================================================================
+// Console Transport
+// ============================================================================
+
+/**
+ * Writes records to the console, using console.warn/console.error for
+ * warnings and errors so browser devtools and log collectors can filter them.
+ */
+export class ConsoleTransport implements Transport {
+  readonly name = 'console';
+  readonly level?: LogLevel;
+  private format: LogFormatter;
+
+  constructor(options?: TransportOptions) {
+    this.level = options?.level;
+    this.format = options?.format ?? formatRecord;
+  }
+
+  write(record: LogRecord): void {
+    const line = this.format(record);
+
+    switch (record.level) {
+      case 'fatal':
+      case 'error':
+        console.error(line);
+        break;
+      case 'warn':
+        console.warn(line);
+        break;
+      default:
+        console.log(line);
+    }
+  }
+
+  async flush(): Promise<void> {
+    // Console writes are synchronous
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+// ============================================================================
+// Memory Transport
+// ============================================================================
+
+/**
+ * Options for MemoryTransport
+ */
+export interface MemoryTransportOptions extends TransportOptions {
+  /** Maximum number of records kept, oldest dropped first (default: 1000) */
+  maxRecords?: number;
+}
+
+/**
+ * Keeps records in memory. Useful in tests and for exposing recent logs
+ * through a diagnostics endpoint.
+ */
+export class MemoryTransport implements Transport {
+  readonly name = 'memory';
+  readonly level?: LogLevel;
+  private format: LogFormatter;
+  private maxRecords: number;
+  private records: LogRecord[] = [];
+
+  constructor(options?: MemoryTransportOptions) {
+    this.level = options?.level;
+    this.format = options?.format ?? formatJsonRecord;
+    this.maxRecords = options?.maxRecords ?? 1000;
+  }
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+
+    while (this.records.length > this.maxRecords) {
+      this.records.shift();
+    }
+  }
+
+  /**
+   * Get the buffered records, oldest first
+   */
+  getRecords(): LogRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * Get the buffered records serialized with the transport formatter
+   */
+  getLines(): string[] {
+    return this.records.map(record => this.format(record));
+  }
+
+  /**
+   * Remove all buffered records
+   */
+  clear(): void {
+    this.records = [];
+  }
+
+  async flush(): Promise<void> {
+    // Records are already in memory
+  }
+
+  async close(): Promise<void> {
+    // Records stay readable after close
+  }
+}
+
+// ============================================================================
+// HTTP Transport
+// ============================================================================
+
+/**
+ * Options for HttpTransport
+ */
+export interface HttpTransportOptions extends TransportOptions {
+  /** Collector endpoint receiving newline-delimited formatted records */
+  url: string;
+  /** Extra request headers (e.g. API keys) */
+  headers?: Record<string, string>;
+  /** Number of records that triggers an immediate send (default: 50) */
+  batchSize?: number;
+  /** Interval between automatic sends in ms, 0 disables the timer (default: 5000) */
+  flushInterval?: number;
+  /** Maximum number of records buffered while the collector is unreachable (default: 1000) */
+  maxBufferSize?: number;
+}
+
+/**
+ * Sends records to an HTTP endpoint in batches as newline-delimited JSON.
+ * Failed batches are put back in the buffer and retried on the next flush.
+ */
+export class HttpTransport implements Transport {
+  readonly name: string = 'http';
+  readonly level?: LogLevel;
+  protected format: LogFormatter;
+  protected url: string;
+  protected headers: Record<string, string>;
+  protected batchSize: number;
+  protected maxBufferSize: number;
+  private buffer: LogRecord[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sending: Promise<void> | null = null;
+
+  constructor(options: HttpTransportOptions) {
+    this.level = options.level;
+    this.format = options.format ?? formatJsonRecord;
+    this.url = options.url;
+    this.headers = options.headers ?? {};
+    this.batchSize = options.batchSize ?? 50;
+    this.maxBufferSize = options.maxBufferSize ?? 1000;
+
+    const flushInterval = options.flushInterval ?? 5000;
+    if (flushInterval > 0) {
+      this.timer = setInterval(() => {
+        void this.flush();
+      }, flushInterval);
+      unrefTimer(this.timer);
+    }
+  }
+
+  write(record: LogRecord): void {
+    this.buffer.push(record);
+
+    while (this.buffer.length > this.maxBufferSize) {
+      this.buffer.shift();
+    }
+
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    // Wait for an in-flight send, then send whatever is left
+    while (this.sending) {
+      await this.sending;
+    }
+
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    this.sending = this.sendAll();
+    try {
+      await this.sending;
+    } finally {
+      this.sending = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Build the request for a batch of records
+   */
+  protected createRequest(batch: LogRecord[]): RequestInit {
+    return {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson', ...this.headers },
+      body: batch.map(record => this.format(record)).join('\n'),
+    };
+  }
+
+  /**
+   * Send buffered records batch by batch, re-queueing a batch that fails
+   */
+  private async sendAll(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.batchSize);
+
+      try {
+        const response = await fetch(this.url, this.createRequest(batch));
+        if (!response.ok) {
+          throw new Error(`Collector responded with ${response.status}`);
+        }
+      } catch (error) {
+        this.buffer.unshift(...batch);
+        while (this.buffer.length > this.maxBufferSize) {
+          this.buffer.shift();
+        }
+        console.warn(`[Transport] ${this.name} failed to send ${batch.length} records:`, error);
+        return;
+      }
+    }
+  }
+}
@@ -80,6 +80,26 @@ export interface BrowserLogEntry {
   context?: LogContext;
 }
 
+/**
+ * Persistent store for browser log entries.
+ *
+ * Methods may complete synchronously (Web Storage, memory) or return a
+ * promise (IndexedDB). Implementations evict entries to stay within their
+ * own limits and throw or reject when an operation fails.
+ */
+export interface BrowserLogStorage {
+  /** Storage name, used in diagnostics */
+  readonly name: string;
+  /** Add an entry */
+  append(entry: BrowserLogEntry): void | Promise<void>;
+  /** Read up to `limit` entries, oldest first */
+  read(limit?: number): BrowserLogEntry[] | Promise<BrowserLogEntry[]>;
+  /** Remove entries by id */
+  remove(ids: string[]): void | Promise<void>;
+  /** Remove all entries */
+  clear(): void | Promise<void>;
+}
+
 /**
  * Structure stored in localStorage
  */
@@ -108,6 +128,12 @@ export interface ApiRequestContext {
   body?: unknown;
   /** ISO 8601 timestamp when request was made */
   timestamp: string;
+  /** W3C trace ID shared by every span of the trace */
+  traceId?: string;
+  /** Span ID of this outbound call */
+  spanId?: string;
+  /** Span ID of the caller, when the trace was continued */
+  parentSpanId?: string;
 }
 
 /**
@@ -128,6 +154,12 @@ export interface ApiResponseContext {
   body?: unknown;
   /** ISO 8601 timestamp when response was received */
   timestamp: string;
+  /** W3C trace ID shared by every span of the trace */
+  traceId?: string;
+  /** Span ID of this outbound call */
+  spanId?: string;
+  /** Span ID of the caller, when the trace was continued */
+  parentSpanId?: string;
 }
 
 /**
@@ -136,10 +168,14 @@ export interface ApiResponseContext {
 export interface LoggerConfig {
   /** Minimum log level to output */
   level: LogLevel;
+  /** Levels by logger name pattern (e.g., { db: 'debug', 'api:*': 'warn' }) */
+  levels: Record<string, LogLevel>;
   /** Enable/disable logging globally */
   enabled: boolean;
   /** Enable automatic sensitive data redaction */
   redactSensitive: boolean;
+  /** Secret for HMAC pseudonymization in redaction */
+  redactSecret?: string;
   /** Include stack traces for errors */
   includeStackTrace: boolean;
   /** Maximum file size in bytes (for file rotation) */
@@ -148,12 +184,41 @@ export interface LoggerConfig {
   maxFiles: number;
   /** Log directory path */
   logDir: string;
-  /** Use JSON format in production */
+  /** Use JSON format outside development; false prints human-readable lines */
   jsonFormat: boolean;
-  /** Use colored/development format in development */
+  /** Use the human-readable format in development; false prints JSON */
   developmentFormat: boolean;
 }
 
+/**
+ * Where an effective config value came from, lowest precedence first
+ */
+export type ConfigSource = 'default' | 'file' | 'env' | 'override';
+
+/**
+ * Config accepted from config files and configure(). Sizes and retention may
+ * be given as strings ('10m', '14d'), levels as a spec ('db=debug,*=info').
+ */
+export type LoggerConfigInput = Partial<
+  Omit<LoggerConfig, 'levels' | 'maxFileSize' | 'maxFiles'>
+> & {
+  levels?: Record<string, LogLevel> | string;
+  maxFileSize?: number | string;
+  maxFiles?: number | string;
+};
+
+/**
+ * Effective config: each value with its source and, for files and env vars,
+ * the file path or variable name it was read from
+ */
+export type EffectiveConfig = {
+  [K in keyof LoggerConfig]-?: {
+    value: LoggerConfig[K];
+    source: ConfigSource;
+    origin?: string;
+  };
+};
+
 /**
  * Logger factory options
  */
@@ -172,9 +237,9 @@ export interface LoggerFactoryOptions {
   maxFiles: number;
   /** Log directory path */
   logDir: string;
-  /** Use JSON format in production */
+  /** Use JSON format outside development; false prints human-readable lines */
   jsonFormat: boolean;
-  /** Use colored/development format in development */
+  /** Use the human-readable format in development; false prints JSON */
   developmentFormat: boolean;
 }
 
@@ -204,6 +269,56 @@ export interface ChildLoggerContext {
   [key: string]: unknown;
 }
 
+/**
+ * Log record handed to transports
+ */
+export interface LogRecord {
+  /** Log severity level */
+  level: LogLevel;
+  /** Primary log message */
+  message: string;
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  /** Merged logger and call-site context */
+  context?: LogContext;
+  /** Name of the logger that produced the record */
+  logger?: string;
+  /** Trace ID for correlation, taken from the context's traceId */
+  trace?: string;
+}
+
+/**
+ * Serializes a log record for a transport
+ */
+export type LogFormatter = (record: LogRecord) => string;
+
+/**
+ * Common options accepted by the built-in transports
+ */
+export interface TransportOptions {
+  /** Minimum level this transport writes (default: all levels) */
+  level?: LogLevel;
+  /** Formatter used to serialize records (default depends on the transport) */
+  format?: LogFormatter;
+}
+
+/**
+ * Output destination for log records.
+ * Loggers fan each record out to every transport whose level allows it.
+ */
+export interface Transport {
+  /** Transport name, used in diagnostics */
+  readonly name: string;
+  /** Minimum level this transport writes (default: all levels) */
+  readonly level?: LogLevel;
+  /** Write a record (must not throw for I/O failures) */
+  write(record: LogRecord): void;
+  /** Resolve once buffered records have been handed to the destination */
+  flush(): Promise<void>;
+  /** Flush and release resources; the transport must not be written to afterwards */
+  close(): Promise<void>;
+}
+
 /**
  * Browser-safe logger interface for client-side and SSR logging
  */
@@ -216,12 +331,112 @@ export interface IBrowserLogger {
   warn(message: string, context?: LogContext): void;
   /** Log an error message */
   error(message: string, context?: LogContext): void;
-  /** Get all stored logs from localStorage */
+  /**
+   * Log an error (or any thrown value) with its causes and custom fields,
+   * under `error` in the context. The message defaults to the error's message.
+   */
+  error(error: unknown, message?: string, context?: LogContext): void;
+  /**
+   * Get all stored logs. Only synchronous storages (Web Storage, memory) can
+   * be read here; use readStoredLogs() for IndexedDB.
+   */
   getStoredLogs(): BrowserLogEntry[];
-  /** Clear all stored logs from localStorage */
+  /** Read all stored logs from any storage */
+  readStoredLogs(): Promise<BrowserLogEntry[]>;
+  /** Clear all stored logs */
   clearStoredLogs(): void;
   /** Flush browser logs to server endpoint (if available) */
   flush(): Promise<void>;
+  /**
+   * Stop the flush timer, page listeners and global error and breadcrumb
+   * capture, then flush what is left
+   */
+  close(): Promise<void>;
+  /** Redaction counters for this logger */
+  getRedactionStats(): RedactionStats;
+  /**
+   * Log uncaught errors, unhandled rejections and CSP violations.
+   * Returns a function that removes the listeners.
+   */
+  captureGlobalErrors(options?: CaptureGlobalErrorsOptions): () => void;
+  /**
+   * Record navigation, clicks and network calls as breadcrumbs.
+   * Returns a function that restores the patched APIs and removes the listeners.
+   */
+  captureBreadcrumbs(options?: CaptureBreadcrumbsOptions): () => void;
+  /** Recent breadcrumbs, oldest first */
+  getBreadcrumbs(): Breadcrumb[];
+}
+
+/**
+ * A low-level event recorded before an error, attached to error entries
+ */
+export interface Breadcrumb {
+  /** Unix timestamp in milliseconds */
+  timestamp: number;
+  /** Event source */
+  category: 'log' | 'navigation' | 'click' | 'fetch' | 'xhr';
+  /** Short description */
+  message: string;
+  /** Level of the log call, for 'log' breadcrumbs */
+  level?: LogLevel;
+  /** Event details (redacted log context, URLs, status codes) */
+  data?: LogContext;
+}
+
+/**
+ * Options for IBrowserLogger.captureBreadcrumbs()
+ */
+export interface CaptureBreadcrumbsOptions {
+  /** Record history.pushState/replaceState and popstate (default: true) */
+  navigation?: boolean;
+  /** Record clicks on elements with data-* attributes (default: true) */
+  clicks?: boolean;
+  /** Record fetch calls with their status (default: true) */
+  fetch?: boolean;
+  /** Record XMLHttpRequest calls with their status (default: true) */
+  xhr?: boolean;
+}
+
+/**
+ * Options for IBrowserLogger.captureGlobalErrors()
+ */
+export interface CaptureGlobalErrorsOptions {
+  /** Capture uncaught errors (default: true) */
+  errors?: boolean;
+  /** Capture unhandled promise rejections (default: true) */
+  rejections?: boolean;
+  /** Capture Content Security Policy violations, logged as warnings (default: true) */
+  securityPolicyViolations?: boolean;
+  /**
+   * Log each distinct error once per window in ms; repeats are counted and
+   * reported when the window closes or capture stops (default: 60000)
+   */
+  dedupeWindow?: number;
+}
+
+/**
+ * Options for IServerLogger.fatal()
+ */
+export interface FatalOptions {
+  /** Flush and close every transport, then exit the process (default: false) */
+  exit?: boolean;
+  /** Exit code passed to process.exit (default: 1) */
+  exitCode?: number;
+  /** Maximum time to wait for transports before exiting anyway, in ms (default: 5000) */
+  flushTimeout?: number;
+}
+
+/**
+ * Options for a child logger
+ */
+export interface ChildLoggerOptions {
+  /** Logger name written to each record (default: the parent's name) */
+  name?: string;
+  /** Minimum log level (default: the parent's level) */
+  level?: LogLevel;
+  /** Redaction policy for context, false to disable (default: the parent's policy) */
+  redaction?: RedactionPolicy | false;
 }
 
 /**
@@ -236,12 +451,23 @@ export interface IServerLogger {
   warn(message: string, context?: LogContext): void;
   /** Log an error message */
   error(message: string, context?: LogContext): void;
-  /** Log a fatal error message */
-  fatal(message: string, context?: LogContext): void;
-  /** Create a child logger with persistent context */
-  child(context: LogContext): IServerLogger;
+  /**
+   * Log an error (or any thrown value) with its causes and custom fields,
+   * under `error` in the context. The message defaults to the error's message.
+   */
+  error(error: unknown, message?: string, context?: LogContext): void;
+  /** Log a fatal error message, optionally exiting the process once transports are flushed */
+  fatal(message: string, context?: LogContext, options?: FatalOptions): void;
+  /** Create a child logger with persistent context, optionally under another name or level */
+  child(context: LogContext, options?: ChildLoggerOptions): IServerLogger;
   /** Add custom fields to all subsequent logs */
   with(context: LogContext): IServerLogger;
+  /** Wait until buffered records have been handed to every transport */
+  flush(): Promise<void>;
+  /** Flush and release every transport (shared with parent and child loggers) */
+  close(): Promise<void>;
+  /** Redaction counters, shared with parent and child loggers */
+  getRedactionStats(): RedactionStats;
 }
 
 /**
@@ -282,12 +508,18 @@ export interface IPerformanceHelper {
 }
 
 /**
- * Fetch interceptor function type
+ * Fetch interceptor hooks for clients that expose request/response/error hooks.
+ * request() returns the Request to send (with X-Request-ID and trace headers);
+ * response() and error() must receive that returned Request.
  */
-export type InterceptorFunction = (
-  url: string,
-  options?: RequestInit
-) => { url: string; options?: RequestInit } | Promise<{ url: string; options?: RequestInit }>;
+export interface FetchInterceptor {
+  /** Log the request, start its timer and return it with correlation headers */
+  request(request: Request): Promise<Request>;
+  /** Log the response with status, duration and body; returns it unchanged */
+  response(response: Response, request: Request): Promise<Response>;
+  /** Log the error that made the request fail */
+  error(error: unknown, request: Request): Promise<void>;
+}
 
 /**
  * Logger factory options
@@ -327,6 +559,141 @@ export interface RedactionPattern {
   replacement: string;
   /** Field names to apply this pattern to (if specified, only matches these keys) */
   fieldNames?: string[];
+  /** Extra check on each match (e.g. a checksum); matches that fail are kept */
+  validate?: (match: string) => boolean;
+  /** How matches are replaced (default: 'mask', i.e. `replacement`) */
+  strategy?: RedactionStrategy;
+}
+
+/**
+ * Names of the built-in PII and secret detectors
+ */
+export type DetectorName =
+  | 'creditCard'
+  | 'iban'
+  | 'phone'
+  | 'email'
+  | 'ipv4'
+  | 'ipv6'
+  | 'ssn'
+  | 'jwt'
+  | 'bearerToken'
+  | 'awsAccessKey'
+  | 'gcpApiKey'
+  | 'stripeKey'
+  | 'githubToken'
+  | 'privateKey';
+
+/**
+ * How a matched value is replaced
+ * - mask: the rule's, pattern's or policy's replacement string
+ * - hash: a short SHA-256 digest, so equal values stay correlatable
+ * - hmac: a short HMAC-SHA256 digest keyed with the policy's secret, so
+ *   correlatable values can't be recovered by hashing guesses
+ * - partial: a format-preserving mask that keeps the last `length` characters
+ *   (`**** **** **** 1111`, `j***@example.com`)
+ * - preserveLength: one '*' per character
+ */
+export type RedactionStrategy = 'mask' | 'hash' | 'hmac' | 'partial' | 'preserveLength';
+
+/**
+ * What a path rule does with the matched value: a redaction strategy, or
+ * - remove: drop the field (or array element)
+ * - truncate: keep the first `length` characters
+ * - keep: leave it alone, even if its key or a pattern would redact it
+ */
+export type RedactionAction = RedactionStrategy | 'remove' | 'truncate' | 'keep';
+
+/**
+ * Path-based redaction rule. Paths are dot/bracket paths relative to the
+ * redacted value: `*` matches one key or index, `**` any number of levels,
+ * e.g. `user.*.ssn`, `items[*].card.number`, `**.password`. Body and header
+ * rules may be prefixed with `body.` / `headers.`.
+ */
+export interface RedactionRule {
+  /** Path to match (case-insensitive keys) */
+  path: string;
+  /** Action for matched values */
+  action: RedactionAction;
+  /** Replacement for 'mask' (default: the policy's replacement) */
+  replacement?: string;
+  /** Characters kept by 'truncate' and 'partial' (default: 4) */
+  length?: number;
+}
+
+/**
+ * One redaction policy shared by the server, browser and API loggers and by
+ * body logging. Key matching is case-insensitive.
+ */
+export interface RedactionPolicy {
+  /** Turn redaction off without removing the policy */
+  enabled: boolean;
+  /** Field names whose values are replaced wherever they appear */
+  keys: string[];
+  /** Header names whose values are replaced */
+  headers: string[];
+  /** Value patterns; a pattern with fieldNames only applies to those fields */
+  patterns: RedactionPattern[];
+  /** Path rules; the first matching rule wins over keys and patterns */
+  rules?: RedactionRule[];
+  /** Replacement for redacted keys and headers (default: '[REDACTED]') */
+  replacement: string;
+  /** Nesting depth past which values are replaced (default: 10) */
+  maxDepth: number;
+  /** Secret for the 'hmac' strategy (default: the redactSecret config) */
+  secret?: string;
+}
+
+/**
+ * One redacted location in a RedactionReport
+ */
+export interface RedactionReportEntry {
+  /** Path of the redacted value, e.g. 'user.cards[0].number' */
+  path: string;
+  /** What redacted it: 'key:<name>', 'rule:<path>' or 'pattern:<name>' */
+  reason: string;
+  /** Replacements made at this path for this reason */
+  count: number;
+}
+
+/**
+ * What a redaction pass replaced
+ */
+export interface RedactionReport {
+  /** Total replacements */
+  total: number;
+  /** Replacements grouped by path and reason */
+  entries: RedactionReportEntry[];
+}
+
+/**
+ * Redacted value (or, in dry-run mode, the original) with its report
+ */
+export interface RedactionResult {
+  value: unknown;
+  report: RedactionReport;
+}
+
+/**
+ * Options that make redact() and applyRedaction() return a RedactionResult
+ */
+export interface RedactionReportOptions {
+  /** Return a report alongside the redacted value */
+  report?: boolean;
+  /** Report what would be redacted and return the input unchanged */
+  dryRun?: boolean;
+}
+
+/**
+ * Redaction counters kept by a logger
+ */
+export interface RedactionStats {
+  /** Contexts run through the redaction policy */
+  checked: number;
+  /** Contexts in which at least one value was redacted */
+  redacted: number;
+  /** Replacements by reason ('key:password', 'pattern:jwt', ...) */
+  hits: Record<string, number>;
 }
 
 /**
@@ -353,6 +720,8 @@ export interface BodyLoggingConfig {
   contentTypeFilter: ContentTypeFilter;
   /** Redaction patterns for sensitive data */
   redactionPatterns: RedactionPattern[];
+  /** Path rules for bodies and headers */
+  redactionRules?: RedactionRule[];
   /** Sensitive field names to redact (case-insensitive) */
   sensitiveFields: string[];
   /** Sensitive header names to redact (case-insensitive) */
@@ -376,4 +745,20 @@ export interface LoggedFetchOptions {
   redactHeaders?: boolean;
   redactBody?: boolean;
   bodyLoggingConfig?: BodyLoggingConfig;
+  /** Send W3C traceparent/tracestate headers on outbound calls (default: true) */
+  propagateTrace?: boolean;
+}
+
+/**
+ * Options for createFetchInterceptor function
+ */
+export interface FetchInterceptorOptions {
+  logger?: IApiLogger;
+  enabled?: boolean;
+  redactHeaders?: boolean;
+  bodyLoggingConfig?: BodyLoggingConfig;
+  /** Send W3C traceparent/tracestate headers on outbound calls (default: true) */
+  propagateTrace?: boolean;
+  /** Maximum number of requests awaiting a response or error hook (default: 1000) */
+  maxPending?: number;
 }
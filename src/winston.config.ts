@@ -32,34 +32,60 @@
  * - Daily rotating file logs
  * - Console output (colored in dev, JSON in prod)
  * - Separate transports for combined, API, error, exceptions, rejections
+ * - Custom levels so fatal is a real level instead of an alias for error
  */
 
 import winston from 'winston';
 import DailyRotateFile from 'winston-daily-rotate-file';
-import type { LoggerConfig } from './types';
-import { getConfig, getLogDir, isDevelopment } from './config';
+import type { LogContext, LogLevel, LogRecord, Transport } from './types';
+import { getConfig, getLogDir } from './config';
+import { formatForConsole, formatForJson, usePrettyFormat } from './formatters';
 
 /**
- * Get console transport configuration
+ * Winston levels matching LogLevel (lower number = more severe)
+ */
+export const WINSTON_LEVELS: Record<LogLevel, number> = {
+  fatal: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4,
+};
+
+/**
+ * Winston info fields that are not part of the log context
+ */
+const INFO_FIELDS = new Set(['level', 'message', 'timestamp', 'logger', 'trace']);
+
+/**
+ * Get console transport configuration.
+ * Development (or `jsonFormat: false`): pretty lines with logger name, context
+ * and error stacks. Production: one JsonLogEntry per line.
  */
 export function getConsoleTransport() {
   return new winston.transports.Console({
-    format: winston.format.combine(
-      winston.format.colorize(),
-      winston.format.printf(({ level, message, timestamp }) => {
-        const config = getConfig();
-
-        if (isDevelopment() && config.developmentFormat) {
-          return `${timestamp} [${level}] ${message}`;
-        }
-
-        return JSON.stringify({
-          '@timestamp': timestamp,
-          level: level.toUpperCase(),
-          message,
-        });
-      })
-    ),
+    format: winston.format.printf(info => {
+      // Prefer the raw level under Symbol.for('level'); other formats may rewrite info.level
+      const level = String(info[Symbol.for('level')] ?? info.level) as LogLevel;
+      const message = String(info.message);
+      const timestamp = typeof info.timestamp === 'string' ? info.timestamp : undefined;
+      const logger = typeof info.logger === 'string' ? info.logger : undefined;
+      const trace = typeof info.trace === 'string' ? info.trace : undefined;
+      // Uncaught exception entries also carry process and os dumps; keep the error only
+      const context = (
+        info.exception
+          ? { error: info.error }
+          : Object.fromEntries(Object.entries(info).filter(([key]) => !INFO_FIELDS.has(key)))
+      ) as LogContext;
+
+      if (usePrettyFormat()) {
+        return formatForConsole(level, message, context, timestamp, logger);
+      }
+
+      return JSON.stringify(
+        formatForJson(level, message, context, timestamp, logger, undefined, trace)
+      );
+    }),
   });
 }
 
@@ -104,7 +130,9 @@ export function getWinstonConfig(): winston.LoggerOptions {
   const config = getConfig();
 
   return {
+    levels: WINSTON_LEVELS,
     level: config.level,
+    format: winston.format.timestamp(),
     transports: createTransports(),
     exitOnError: false,
     handleExceptions: true,
@@ -112,3 +140,105 @@ export function getWinstonConfig(): winston.LoggerOptions {
     silent: false,
   };
 }
+
+/**
+ * Transport that forwards records to a Winston logger configured with the
+ * default console and daily-rotate file outputs. Used by the server logger
+ * when no custom transports are given.
+ */
+export class WinstonTransport implements Transport {
+  readonly name = 'winston';
+  readonly level?: LogLevel;
+  private logger: winston.Logger;
+  private closing: Promise<void> | null = null;
+
+  constructor(options?: { level?: LogLevel; logger?: winston.Logger }) {
+    this.level = options?.level;
+    this.logger =
+      options?.logger ??
+      winston.createLogger({
+        ...getWinstonConfig(),
+        // Level filtering happens in the server logger
+        level: 'debug',
+      });
+  }
+
+  write(record: LogRecord): void {
+    this.logger.log(record.level, record.message, {
+      ...record.context,
+      ...(record.logger && { logger: record.logger }),
+      ...(record.trace && { trace: record.trace }),
+    });
+  }
+
+  /**
+   * Wait (up to 1s) for backed-up Winston streams to drain. This only hands
+   * records over to the file streams: DailyRotateFile does not report when they
+   * reach disk, so only close() guarantees the records are written.
+   */
+  async flush(): Promise<void> {
+    const streams = [this.logger, ...this.logger.transports];
+    await Promise.all(streams.map(stream => waitForDrain(stream, 1000)));
+  }
+
+  /**
+   * End the Winston logger and wait for every file stream to be written out.
+   * Later calls return the same promise, since 'finish' only fires once.
+   */
+  close(): Promise<void> {
+    this.closing ??= this.end();
+    return this.closing;
+  }
+
+  private async end(): Promise<void> {
+    const transports = [...this.logger.transports];
+
+    await new Promise<void>(resolve => {
+      this.logger.once('finish', () => resolve());
+      this.logger.end();
+    });
+
+    // Winston reports 'finish' once records reach the transports, but
+    // DailyRotateFile still buffers them in its own file stream
+    await Promise.all(transports.map(endLogStream));
+    this.logger.close();
+  }
+}
+
+/**
+ * Resolve once a backed-up writable stream emits 'drain', or after `timeout` ms.
+ * Streams below their high-water mark never emit 'drain' and resolve right away.
+ */
+function waitForDrain(
+  stream: NodeJS.WritableStream & { writableNeedDrain: boolean },
+  timeout: number
+): Promise<void> {
+  if (!stream.writableNeedDrain) {
+    return Promise.resolve();
+  }
+
+  return new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      stream.off('drain', done);
+      stream.off('close', done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeout);
+    stream.once('drain', done);
+    stream.once('close', done);
+  });
+}
+
+/**
+ * End the file stream behind a DailyRotateFile transport, if any
+ */
+function endLogStream(transport: winston.transport): Promise<void> {
+  const stream = (transport as { logStream?: { end(callback: () => void): void } }).logStream;
+
+  if (!stream) {
+    return Promise.resolve();
+  }
+
+  return new Promise(resolve => stream.end(() => resolve()));
+}